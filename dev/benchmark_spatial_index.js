@@ -0,0 +1,138 @@
+import { createServer } from 'vite';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+
+// Benchmark do processamento de marcadores com e sem o índice espacial
+// Uso: npm run benchmark
+
+const MARKER_COUNT = 50000;
+// Área coberta pelos pontos (graus, ~44 km) ao redor do centro
+const AREA_SIZE = 0.4;
+const CENTER = { latitude: -22.9068, longitude: -43.1729 };
+const ITERATIONS = 20;
+
+const projectRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+// Gerador pseudoaleatório com semente fixa, para resultados comparáveis
+function createRandom(seed) {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647;
+    };
+}
+
+function generateMarkers(count) {
+    const random = createRandom(42);
+    const categories = ['restaurante', 'cafeteria', 'loja', 'atracao', 'servico'];
+    return Array.from({ length: count }, (_, index) => ({
+        id: `poi-${index}`,
+        type: 'Feature',
+        geometry: {
+            type: 'Point',
+            coordinates: [
+                CENTER.longitude + (random() - 0.5) * AREA_SIZE,
+                CENTER.latitude + (random() - 0.5) * AREA_SIZE,
+                random() * 50,
+            ],
+        },
+        properties: {
+            name: `Ponto ${index}`,
+            category: categories[index % categories.length],
+        },
+    }));
+}
+
+// Tempo médio de uma operação (ms), após algumas execuções de aquecimento
+function measure(label, iterations, operation) {
+    let result;
+    for (let i = 0; i < 3; i++) result = operation(i);
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) result = operation(i);
+    const average = (performance.now() - start) / iterations;
+    console.log(`${label.padEnd(48)} ${average.toFixed(2).padStart(9)} ms`);
+    return result;
+}
+
+async function main() {
+    const server = await createServer({
+        root: projectRoot,
+        configFile: false,
+        logLevel: 'error',
+        appType: 'custom',
+        server: { middlewareMode: true, hmr: false },
+        optimizeDeps: { noDiscovery: true, include: [] },
+    });
+
+    try {
+        const { processMarkers } = await server.ssrLoadModule(
+            '/src/features/ar/utils/arjsUtils.ts',
+        );
+        const {
+            MAX_PROCESSING_DISTANCE,
+            buildSpatialIndex,
+            queryRadius,
+            queryWedge,
+        } = await server.ssrLoadModule('/src/features/ar/utils/spatialIndex.ts');
+
+        const markers = generateMarkers(MARKER_COUNT);
+        console.log(`${MARKER_COUNT} pontos em ${AREA_SIZE}° × ${AREA_SIZE}°\n`);
+
+        const index = measure('Construção do índice', 5, () =>
+            buildSpatialIndex(markers),
+        );
+        console.log(`  ${index.cells.size} células\n`);
+
+        // Pequenos deslocamentos, como leituras sucessivas do GPS
+        const fix = i => ({
+            latitude: CENTER.latitude + i * 1e-5,
+            longitude: CENTER.longitude + i * 1e-5,
+        });
+
+        const all = measure('processMarkers com todos os pontos', ITERATIONS, i =>
+            processMarkers(markers, fix(i).latitude, fix(i).longitude, 10),
+        );
+
+        let candidates = [];
+        const indexed = measure(
+            `Raio de ${MAX_PROCESSING_DISTANCE} m + processMarkers`,
+            ITERATIONS,
+            i => {
+                candidates = queryRadius(
+                    index,
+                    fix(i).latitude,
+                    fix(i).longitude,
+                    MAX_PROCESSING_DISTANCE,
+                );
+                return processMarkers(
+                    candidates,
+                    fix(i).latitude,
+                    fix(i).longitude,
+                    10,
+                );
+            },
+        );
+
+        // Confere que a consulta não perde marcadores dentro do raio
+        const expected = all.filter(marker => marker.distance <= MAX_PROCESSING_DISTANCE);
+        const found = new Set(indexed.map(marker => marker.id));
+        const missing = expected.filter(marker => !found.has(marker.id)).length;
+        console.log(
+            `  ${candidates.length} candidatos, ${expected.length} dentro do raio, ${missing} ausentes\n`,
+        );
+
+        const wedge = measure('Setor de 1000 m e ±60° (cena A-Frame)', 200, i =>
+            queryWedge(index, CENTER.latitude, CENTER.longitude, 1000, (i * 7) % 360, 60),
+        );
+        console.log(`  ${wedge.length} candidatos`);
+
+        if (missing > 0) process.exitCode = 1;
+    } finally {
+        await server.close();
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
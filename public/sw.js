@@ -0,0 +1,170 @@
+// sw.js
+// Service worker do AR Location Explorer
+// Mantém o app shell (index.html, bundles do React, MUI, A-Frame e AR.js)
+// em cache para que o aplicativo abra sem conexão. Os datasets de
+// marcadores ficam no IndexedDB (ver features\ar\utils\datasetCache.ts)
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `ar-location-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `ar-location-runtime-${CACHE_VERSION}`;
+
+// Arquivos do app shell, relativos ao escopo (base do Vite)
+const SHELL_FILES = [
+  './',
+  './index.html',
+  './manifest.webmanifest',
+  './icon.svg',
+];
+
+// Recursos de outras origens mantidos em cache (ex.: A-Frame pela CDN)
+const CROSS_ORIGIN_DESTINATIONS = ['script', 'style', 'font'];
+
+const scopeUrl = path => new URL(path, self.registration.scope).href;
+
+/**
+ * Stores a response if it can be reused offline
+ */
+async function putInCache(cacheName, request, response) {
+  if (!response || (!response.ok && response.type !== 'opaque')) return;
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+}
+
+/**
+ * Network first, falling back to the cached index.html
+ * (the app uses hash routing, so every navigation loads the same page)
+ */
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    await putInCache(SHELL_CACHE, scopeUrl('./index.html'), response.clone());
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match(scopeUrl('./index.html'))) ||
+      (await caches.match(scopeUrl('./')));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Cache first: used for the hashed Vite bundles, which never change
+ */
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await putInCache(RUNTIME_CACHE, request, response.clone());
+  return response;
+}
+
+/**
+ * Serves the cached copy and refreshes it in the background
+ */
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const cached = await caches.match(request);
+  const network = fetch(request).then(async response => {
+    await putInCache(RUNTIME_CACHE, request, response.clone());
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_FILES.map(scopeUrl)))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', event => {
+  // Remove caches de versões anteriores
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(
+          keys
+            .filter(key => key.startsWith('ar-location-'))
+            .filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+            .map(key => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (!url.href.startsWith(self.registration.scope)) return;
+    event.respondWith(
+      url.pathname.includes('/assets/')
+        ? cacheFirst(request)
+        : staleWhileRevalidate(event),
+    );
+    return;
+  }
+
+  // Dados de outras origens (ex.: URLs de marcadores) não passam pelo cache
+  if (CROSS_ORIGIN_DESTINATIONS.includes(request.destination)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Recursos carregados antes do service worker assumir a página
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'cache-urls') return;
+  const urls = event.data.urls.filter(
+    url =>
+      url.startsWith(self.registration.scope) ||
+      new URL(url).origin !== self.location.origin,
+  );
+  event.waitUntil(
+    caches.open(RUNTIME_CACHE).then(cache =>
+      Promise.all(
+        urls.map(url =>
+          cache.match(url).then(cached => {
+            if (cached) return undefined;
+            const sameOrigin = new URL(url).origin === self.location.origin;
+            return fetch(url, { mode: sameOrigin ? 'same-origin' : 'no-cors' })
+              .then(response => putInCache(RUNTIME_CACHE, url, response))
+              .catch(() => undefined);
+          }),
+        ),
+      ),
+    ),
+  );
+});
+
+// Toque em uma notificação de proximidade: volta para o app aberto
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then(clients =>
+        clients.length
+          ? clients[0].focus()
+          : self.clients.openWindow(self.registration.scope),
+      ),
+  );
+});
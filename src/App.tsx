@@ -7,6 +7,7 @@ import {
 } from 'react-router-dom';
 import { CssBaseline, ThemeProvider, createTheme } from '@mui/material';
 import ARViewRoute from '@/routes/ARViewRoute';
+import MapViewRoute from '@/routes/MapViewRoute';
 
 // Create a custom theme optimized for AR applications
 const theme = createTheme({
@@ -54,7 +55,15 @@ const theme = createTheme({
 
 // Create router with hash routing for GitHub Pages compatibility
 const router = createHashRouter(
-  createRoutesFromElements(<Route path="/" element={<ARViewRoute />} />),
+  createRoutesFromElements(
+    <>
+      <Route path="/" element={<ARViewRoute />} />
+      {/* Modo de simulação para desenvolvimento e demonstrações sem celular */}
+      <Route path="/sim" element={<ARViewRoute simulation />} />
+      {/* Mapa 2D com os mesmos marcadores e a posição do usuário */}
+      <Route path="/map" element={<MapViewRoute />} />
+    </>,
+  ),
 );
 
 function App() {
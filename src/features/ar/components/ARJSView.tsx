@@ -1,7 +1,26 @@
 // Path: features\ar\components\ARJSView.tsx
-import React, { useEffect, useRef, useState } from 'react';
-import { Box, Snackbar, Alert, Typography, Modal } from '@mui/material';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Snackbar,
+  Alert,
+  Typography,
+  Modal,
+  Fab,
+  Button,
+  Chip,
+  Theme,
+  alpha,
+} from '@mui/material';
 import LocationOnIcon from '@mui/icons-material/LocationOn';
+import LayersIcon from '@mui/icons-material/Layers';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import CenterFocusWeakIcon from '@mui/icons-material/CenterFocusWeak';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import MapIcon from '@mui/icons-material/Map';
+import NotificationsIcon from '@mui/icons-material/Notifications';
+import { useLocation, useNavigate } from 'react-router-dom';
 import 'aframe';
 import 'ar.js/aframe/build/aframe-ar';
 import { Entity, Scene } from 'aframe-react';
@@ -13,115 +32,222 @@ import ErrorBoundary from './ErrorBoundary';
 import InfoCard from './InfoCard';
 import ARMarkerOverlay from './ARMarkerOverlay';
 import AzimuthIndicator from './AzimuthIndicator';
+import MarkerSourceDialog from './MarkerSourceDialog';
+import ValidationReportDialog from './ValidationReportDialog';
+import ExportDialog from './ExportDialog';
+import CompassCalibration from './CompassCalibration';
+import FieldOfViewCalibration from './FieldOfViewCalibration';
+import SimulationControls from './SimulationControls';
+import SensorSessionDialog from './SensorSessionDialog';
+import LocationQualityIndicator from './LocationQualityIndicator';
+import RadarOverlay from './RadarOverlay';
+import OffscreenIndicators from './OffscreenIndicators';
+import NavigationHUD from './NavigationHUD';
+import GeofenceAlertStack from './GeofenceAlertStack';
+import GeofenceLogDialog from './GeofenceLogDialog';
+import { MapRouteState } from './MapView';
 import { useScreenOrientation } from '../hooks/useScreenOrientation';
+import { useSensors } from '../hooks/useSensors';
+import { useInitialMarkers } from '../hooks/useInitialMarkers';
+import { useNavigationGuidance } from '../hooks/useNavigationGuidance';
+import { queryWedge } from '../utils/spatialIndex';
+import {
+  CLUSTER_FOV_FRACTION,
+  CLUSTER_ID_PREFIX,
+  clusterMarkers,
+} from '../utils/clustering';
+import { useCameraFieldOfView } from '../hooks/useCameraFieldOfView';
+import { useSimulatedSensors } from '../hooks/useSimulatedSensors';
+import { SensorReplay, useSensorReplay } from '../hooks/useSensorReplay';
+import { getCompassStatus } from '../utils/compassCalibration';
+import { SimulationConfig } from '../utils/simulation';
+import { SensorStatus } from '../sensors/types';
+import {
+  getGeometryVertices,
+  getSceneAltitude,
+  toLocalOffset,
+} from '../utils/arjsUtils';
+import { getMarkerMaxDistance, getMaxMarkerRange } from '../utils/markerRange';
+import { Marker } from '../schemas/markerSchema';
+
+// Cores das geometrias lineares e de área na cena
+const OUTLINE_COLORS = {
+  LineString: '#2196f3',
+  Polygon: '#ff9800',
+};
+
+// Com o índice espacial, entidades só para marcadores até esta distância
+// (metros, ou o alcance da categoria se maior) e o passo da direção usada
+// na consulta (graus)
+const MAX_SCENE_DISTANCE = 1000;
+const SCENE_HEADING_STEP = 10;
+
+// Estilo dos botões de ação sobre a câmera
+const ACTION_FAB_SX = {
+  color: 'white',
+  backgroundColor: (theme: Theme) => alpha(theme.palette.background.paper, 0.7),
+  backdropFilter: 'blur(4px)',
+};
+
+/**
+ * Builds the A-Frame props for a line or polygon marker: the entity is
+ * anchored at the first vertex and the outline is drawn with line components
+ * in local meters (x = east, y = up, z = south)
+ */
+const getOutlineEntityProps = (
+  geometry: Exclude<Marker['geometry'], { type: 'Point' }>,
+) => {
+  const vertices = getGeometryVertices(geometry);
+  const origin = vertices[0];
+  const points = vertices.map(vertex => {
+    const { east, north, up } = toLocalOffset(origin, vertex);
+    return { x: east, y: up, z: -north };
+  });
+  const color = OUTLINE_COLORS[geometry.type];
+
+  // Polígonos fecham o contorno ligando o último vértice ao primeiro
+  const segmentCount =
+    geometry.type === 'Polygon' ? points.length : points.length - 1;
+
+  const lines = Object.fromEntries(
+    Array.from({ length: segmentCount }, (_, index) => {
+      const start = points[index];
+      const end = points[(index + 1) % points.length];
+      return [
+        `line__${index}`,
+        {
+          start: `${start.x} ${start.y} ${start.z}`,
+          end: `${end.x} ${end.y} ${end.z}`,
+          color,
+        },
+      ];
+    }),
+  );
+
+  return { origin, points, lines, color };
+};
+
+/**
+ * Permission shown on the permission screen: granted, denied or not asked
+ */
+const getPermissionState = (status: SensorStatus): boolean | null => {
+  if (status === 'ready' || status === 'active') return true;
+  if (status === 'denied' || status === 'unavailable' || status === 'error') {
+    return false;
+  }
+  return null;
+};
+
+interface ARJSViewProps {
+  // Modo de simulação: sensores e câmera substituídos por controles na tela
+  simulation?: SimulationConfig | null;
+}
 
 /**
  * AR.js View component for location-based AR
  * Enhanced version with altitude support
  */
-const ARJSView: React.FC = () => {
+const ARJSView: React.FC<ARJSViewProps> = ({ simulation = null }) => {
   // Using RefObject<any> as a workaround for the Scene component ref
   const sceneRef = useRef<any>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [showCameraError, setShowCameraError] = useState(false);
-  const [cameraErrorDetails, setCameraErrorDetails] = useState<string>('');
+  const [cameraErrorDismissed, setCameraErrorDismissed] = useState(false);
   const [showMarkerMessage, setShowMarkerMessage] = useState(false);
   const [permissionsGranted, setPermissionsGranted] = useState(false);
   const [permissionsChecked, setPermissionsChecked] = useState(false);
-  const { orientation, dimensions } = useScreenOrientation();
+  const [showSourceDialog, setShowSourceDialog] = useState(false);
+  const [showValidationReport, setShowValidationReport] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showFieldOfViewCalibration, setShowFieldOfViewCalibration] =
+    useState(false);
+  const [calibrationPromptDismissed, setCalibrationPromptDismissed] =
+    useState(false);
+  const [simulationState, setSimulationState] = useState(
+    simulation?.initial ?? null,
+  );
+  const [showSessionDialog, setShowSessionDialog] = useState(false);
+  const [showGeofenceLog, setShowGeofenceLog] = useState(false);
+  const [expandedClusterId, setExpandedClusterId] = useState<string | null>(
+    null,
+  );
+  const [isRecording, setIsRecording] = useState(false);
+  const [sensorReplay, setSensorReplay] = useState<SensorReplay | null>(null);
+  const isReplaying = sensorReplay !== null;
+  const { orientation, dimensions, screenAngle } = useScreenOrientation();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Sensores simulados alimentam o store pelo mesmo caminho dos reais
+  useSimulatedSensors(simulationState);
+
+  // Reprodução de uma sessão gravada no lugar dos sensores reais
+  const replayProgress = useSensorReplay(sensorReplay, () =>
+    setSensorReplay(null),
+  );
 
   // Get data from store
   const {
     coordinates,
     heading,
+    headingSource,
+    headingConfidence,
+    compassAccuracy,
+    magneticDisturbance,
+    compassCalibrated,
+    magneticDeclination,
     selectedMarkerId,
     markersGenerated,
+    markerSource,
+    validationReport,
     allMarkers,
     visibleMarkers,
-    setCoordinates,
-    setHeading,
+    markerIndex,
+    markerClustering,
+    geodesyMode,
+    sensors,
     selectMarker,
-    generateMarkersAtLocation,
     updateVisibleMarkers,
+    clearValidationReport,
+    setARFieldOfView,
   } = useARStore();
 
-  // Referências para o filtro de suavização da bússola
-  const headingHistoryRef = useRef<number[]>([]);
-  const lastHeadingTimestampRef = useRef<number>(0);
+  // Leitura de posição, orientação e câmera nos provedores de sensores
+  // (na simulação e na reprodução, as leituras vêm de outras fontes)
+  const { requestPermissions } = useSensors({
+    enabled: permissionsGranted,
+    simulation: simulation !== null,
+    replaying: isReplaying,
+  });
+
+  // Reabre o último dataset usado ou a origem padrão de marcadores
+  useInitialMarkers();
+
+  // Orientação até o destino da navegação em andamento
+  const navigationGuidance = useNavigationGuidance();
 
   // Proactively check permissions on component mount
   useEffect(() => {
+    // Na simulação não há câmera nem GPS reais para autorizar
+    if (simulation) {
+      setPermissionsGranted(true);
+      setPermissionsChecked(true);
+      initializeAR();
+      return;
+    }
+
     async function checkExistingPermissions() {
       try {
-        // Check for camera permission
-        let cameraPermitted = false;
-        let locationPermitted = false;
-
-        // First try to get camera access directly - this will either use existing permissions
-        // or prompt the user if permissions haven't been granted yet
-        try {
-          const cameraStream = await navigator.mediaDevices.getUserMedia({
-            video: { facingMode: 'environment' },
-          });
-          // If we get here, camera permission is granted
-          cameraPermitted = true;
-
-          // Release the camera stream immediately since we're just checking permissions
-          cameraStream.getTracks().forEach(track => track.stop());
-        } catch (err) {
-          console.log('Camera permission not granted:', err);
-          cameraPermitted = false;
-        }
-
-        // Check location permission by trying to get the position
-        try {
-          // Use getCurrentPosition instead of watchPosition for initial check
-          const position = await new Promise<GeolocationPosition>(
-            (resolve, reject) => {
-              navigator.geolocation.getCurrentPosition(resolve, reject, {
-                enableHighAccuracy: true,
-                timeout: 5000,
-                maximumAge: 0,
-              });
-            },
-          );
-
-          locationPermitted = true;
-
-          // If we got a position, we can also set the coordinates
-          const altitude =
-            position.coords.altitude !== null ? position.coords.altitude : 0;
-          setCoordinates(
-            position.coords.latitude,
-            position.coords.longitude,
-            position.coords.accuracy,
-            altitude,
-          );
-
-          // Generate markers if this is the first time we're getting location
-          if (
-            !markersGenerated &&
-            position.coords.latitude &&
-            position.coords.longitude
-          ) {
-            generateMarkersAtLocation(
-              position.coords.latitude,
-              position.coords.longitude,
-              altitude,
-            );
-          }
-        } catch (err) {
-          console.log('Location permission not granted:', err);
-          locationPermitted = false;
-        }
+        // Camera and location are checked through the sensor providers, which
+        // also publish the first position fix to the store
+        const granted = await requestPermissions();
 
         // Set permissions state based on checks
-        setPermissionsGranted(cameraPermitted && locationPermitted);
+        setPermissionsGranted(granted);
         setPermissionsChecked(true);
 
         // If both permissions are granted, we can start initializing the AR experience
-        if (cameraPermitted && locationPermitted) {
+        if (granted) {
           setIsLoading(true);
           // Allow a short delay to ensure UI updates before initializing AR
           setTimeout(() => {
@@ -146,6 +272,13 @@ const ARJSView: React.FC = () => {
     // Setup global communication bridge with AR.js
     window.arjsEventHandlers = {
       onMarkerSelect: (markerId: string) => {
+        // Grupos se abrem no overlay em vez de selecionar um marcador
+        if (markerId.startsWith(CLUSTER_ID_PREFIX)) {
+          setExpandedClusterId(current =>
+            current === markerId ? null : markerId,
+          );
+          return;
+        }
         selectMarker(markerId);
       },
     };
@@ -157,262 +290,134 @@ const ARJSView: React.FC = () => {
     }, 2000);
   };
 
-  // Setup continuous location tracking once permissions are granted
+  // A permissão de localização pode ser revogada durante o uso
   useEffect(() => {
-    if (!permissionsGranted || !navigator.geolocation) {
-      return;
-    }
-
-    const watchId = navigator.geolocation.watchPosition(
-      position => {
-        // Get altitude if available, otherwise use 0
-        const altitude =
-          position.coords.altitude !== null ? position.coords.altitude : 0;
-
-        setCoordinates(
-          position.coords.latitude,
-          position.coords.longitude,
-          position.coords.accuracy,
-          altitude,
-        );
-
-        // Generate markers if not already generated
-        if (
-          !markersGenerated &&
-          position.coords.latitude &&
-          position.coords.longitude
-        ) {
-          generateMarkersAtLocation(
-            position.coords.latitude,
-            position.coords.longitude,
-            altitude,
-          );
-        } else {
-          // Update distances in real-time as the user moves
-          updateVisibleMarkers();
-        }
-      },
-      error => {
-        let message = 'Location error';
-
-        if (error.code === 1) {
-          // PERMISSION_DENIED
-          message = 'Location permission denied';
-          setPermissionsGranted(false);
-        } else if (error.code === 2) {
-          // POSITION_UNAVAILABLE
-          message = 'Location unavailable';
-        } else if (error.code === 3) {
-          // TIMEOUT
-          message = 'Location request timed out';
-        }
-
-        setErrorMessage(message);
-      },
-      {
-        enableHighAccuracy: true,
-        maximumAge: 0,
-        timeout: 10000,
-      },
-    );
-
-    return () => navigator.geolocation.clearWatch(watchId);
-  }, [
-    permissionsGranted,
-    markersGenerated,
-    setCoordinates,
-    generateMarkersAtLocation,
-    updateVisibleMarkers,
-  ]);
-
-  // Função para aplicar filtro de suavização à bússola
-  const applyHeadingFilter = (newHeading: number): number => {
-    // Inicializar o histórico se for o primeiro valor
-    if (headingHistoryRef.current.length === 0) {
-      // Preenche o histórico com o valor inicial para evitar transições bruscas
-      headingHistoryRef.current = Array(8).fill(newHeading);
-      return newHeading;
-    }
-
-    const now = Date.now();
-    const timeDelta = now - lastHeadingTimestampRef.current;
-    lastHeadingTimestampRef.current = now;
-
-    // Verifica mudanças bruscas (possivelmente ruído)
-    const lastHeading =
-      headingHistoryRef.current[headingHistoryRef.current.length - 1];
-    let headingDiff = Math.abs(newHeading - lastHeading);
-    // Ajuste para lidar com a transição 359° -> 0°
-    if (headingDiff > 180) {
-      headingDiff = 360 - headingDiff;
-    }
-
-    // Filtragem mais forte para movimentos bruscos
-    const isValidReading = headingDiff < 45 || timeDelta > 300;
-
-    if (!isValidReading) {
-      // Retorna o último valor válido em caso de leitura duvidosa
-      return lastHeading;
-    }
-
-    // Adiciona o novo valor ao histórico (limitado a 8 valores)
-    headingHistoryRef.current.push(newHeading);
-    if (headingHistoryRef.current.length > 8) {
-      headingHistoryRef.current.shift();
-    }
-
-    // Aplica filtro de média ponderada (valores mais recentes têm mais peso)
-    const weights = [0.05, 0.05, 0.1, 0.1, 0.1, 0.15, 0.2, 0.25];
-    let weightSum = 0;
-
-    // Calcula média ponderada considerando a circularidade do ângulo
-    // (para lidar com a transição 359° -> 0°)
-    let sinSum = 0;
-    let cosSum = 0;
-
-    for (let i = 0; i < headingHistoryRef.current.length; i++) {
-      const weight =
-        weights[weights.length - headingHistoryRef.current.length + i];
-      weightSum += weight;
-
-      // Converte para radianos e soma componentes vetoriais
-      const radians = (headingHistoryRef.current[i] * Math.PI) / 180;
-      sinSum += Math.sin(radians) * weight;
-      cosSum += Math.cos(radians) * weight;
+    if (sensors.geolocation.status === 'denied') {
+      setPermissionsGranted(false);
     }
+  }, [sensors.geolocation.status]);
 
-    // Converte de volta para graus
-    let filteredHeading = (Math.atan2(sinSum, cosSum) * 180) / Math.PI;
-    if (filteredHeading < 0) {
-      filteredHeading += 360;
+  // Erros da câmera durante a transmissão interrompem a inicialização
+  const showCameraError =
+    permissionsGranted &&
+    sensors.camera.status === 'error' &&
+    !cameraErrorDismissed;
+  useEffect(() => {
+    if (showCameraError) {
+      setIsLoading(false);
     }
+  }, [showCameraError]);
 
-    return filteredHeading;
-  };
+  // Campo de visão da câmera (calibrado ou estimado a partir do vídeo)
+  const { track, calibrationKey, isCalibrated, fieldOfView } =
+    useCameraFieldOfView(permissionsGranted, dimensions);
 
-  // Handle device orientation for heading - Versão simplificada
+  // Publica o campo de visão para o cone de direção do mapa
   useEffect(() => {
-    if (!permissionsGranted) return;
-
-    const handleOrientation = (event: DeviceOrientationEvent) => {
-      if (event.alpha !== null) {
-        // Calcular o heading com base no alpha
-        const rawHeading = 360 - event.alpha;
-
-        // Aplicar filtro de suavização
-        const filteredHeading = applyHeadingFilter(rawHeading);
-
-        // Atualizar o estado apenas se o valor for válido e diferente do atual
-        if (!isNaN(filteredHeading) && filteredHeading !== heading) {
-          setHeading(filteredHeading);
-        }
-      }
-    };
+    setARFieldOfView(fieldOfView);
+  }, [fieldOfView]);
+
+  // Marcadores próximos em direção e distância viram um único indicador,
+  // no overlay e na cena A-Frame
+  const markerClusters = useMemo(
+    () =>
+      markerClustering
+        ? clusterMarkers(visibleMarkers, {
+            bearingThreshold: fieldOfView.horizontal * CLUSTER_FOV_FRACTION,
+          })
+        : null,
+    [markerClustering, visibleMarkers, fieldOfView.horizontal],
+  );
 
-    window.addEventListener('deviceorientation', handleOrientation, true);
+  // Direção arredondada para a consulta da cena, que não precisa ser
+  // refeita a cada grau
+  const sceneHeading =
+    heading !== null
+      ? Math.round(heading / SCENE_HEADING_STEP) * SCENE_HEADING_STEP
+      : null;
+
+  // Marcadores com entidade própria na cena (os agrupados usam a do grupo)
+  // Em datasets grandes, apenas os próximos e na direção da câmera, com
+  // folga de um campo de visão de cada lado
+  const sceneMarkers = useMemo(() => {
+    const markers = markerClusters
+      ? markerClusters
+          .filter(cluster => cluster.markers.length === 1)
+          .map(cluster => cluster.markers[0])
+      : visibleMarkers;
+    if (
+      !markerIndex ||
+      sceneHeading === null ||
+      coordinates.latitude === null ||
+      coordinates.longitude === null
+    ) {
+      return markers;
+    }
 
-    return () => {
-      window.removeEventListener('deviceorientation', handleOrientation, true);
-    };
-  }, [permissionsGranted, setHeading, heading]);
+    const inView = new Set(
+      queryWedge(
+        markerIndex,
+        coordinates.latitude,
+        coordinates.longitude,
+        Math.max(MAX_SCENE_DISTANCE, getMaxMarkerRange(geodesyMode)),
+        sceneHeading,
+        fieldOfView.horizontal,
+      ).map(marker => marker.id),
+    );
+    // Pontos de referência distantes vão além do alcance da cena
+    return markers.filter(
+      marker =>
+        inView.has(marker.id) &&
+        marker.distance <=
+          Math.max(
+            MAX_SCENE_DISTANCE,
+            getMarkerMaxDistance(marker.properties.category, geodesyMode),
+          ),
+    );
+  }, [
+    markerClusters,
+    visibleMarkers,
+    markerIndex,
+    sceneHeading,
+    coordinates.latitude,
+    coordinates.longitude,
+    fieldOfView.horizontal,
+    geodesyMode,
+  ]);
 
-  // Monitor and handle camera errors from A-Frame
+  // Ao abrir um marcador, o grupo aberto volta a ficar fechado
   useEffect(() => {
-    if (!permissionsGranted) return;
-
-    // Helper to capture camera errors from A-Frame/AR.js
-    const handleCameraError = (error: ErrorEvent) => {
-      // Check if it's a camera-related error from AR.js
-      if (
-        error.message &&
-        (error.message.includes('camera') ||
-          error.message.includes('video') ||
-          error.message.includes('getUserMedia') ||
-          error.message.includes('NotReadableError'))
-      ) {
-        console.error('Camera error detected:', error);
-        setCameraErrorDetails(error.message || 'Camera access error');
-        setShowCameraError(true);
-        setIsLoading(false);
-      }
-    };
-
-    // Listen for AR.js specific errors
-    window.addEventListener('error', handleCameraError);
-
-    // Also set up a specific handler for A-Frame's camera errors
-    if (typeof window !== 'undefined' && window.AFRAME) {
-      const onArError = (ev: any) => {
-        if (ev.detail && ev.detail.error) {
-          handleCameraError(
-            new ErrorEvent('error', {
-              message: `AR.js: ${ev.detail.error}`,
-            }),
-          );
-        }
-      };
-      document.addEventListener('ar-camera-error', onArError);
-      return () => {
-        window.removeEventListener('error', handleCameraError);
-        document.removeEventListener('ar-camera-error', onArError);
-      };
+    if (selectedMarkerId) setExpandedClusterId(null);
+  }, [selectedMarkerId]);
+
+  const compassStatus = getCompassStatus({
+    headingSource,
+    headingConfidence,
+    compassAccuracy,
+    magneticDisturbance,
+  });
+
+  // Handle camera and location permissions
+  const requestSensorPermissions = async () => {
+    if (!(await requestPermissions())) {
+      setPermissionsGranted(false);
+      return;
     }
 
-    return () => {
-      window.removeEventListener('error', handleCameraError);
-    };
-  }, [permissionsGranted]);
-
-  // Handle camera permissions
-  const requestCameraPermission = async () => {
-    try {
-      // Request camera permission
-      const cameraStream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: 'environment', // Prefer back camera
-        },
-      });
-
-      // Release the camera immediately after permission check
-      // to avoid blocking it for AR.js
-      cameraStream.getTracks().forEach(track => track.stop());
+    // If we get here, both permissions are granted
+    setPermissionsGranted(true);
+    setIsLoading(true);
+    setCameraErrorDismissed(false);
 
-      // Now check location permission
-      try {
-        await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject, {
-            enableHighAccuracy: true,
-            timeout: 5000,
-            maximumAge: 0,
-          });
-        });
-
-        // If we get here, both permissions are granted
-        setPermissionsGranted(true);
-        setIsLoading(true);
-        setShowCameraError(false);
-
-        // Initialize AR with a delay to allow permissions to propagate
-        setTimeout(() => {
-          initializeAR();
-        }, 500);
-      } catch (error) {
-        console.error('Location permission error:', error);
-        setErrorMessage('Location permission denied');
-      }
-    } catch (error) {
-      console.error('Camera permission error:', error);
-      setPermissionsGranted(false);
-      setErrorMessage('Camera permission denied');
-      if (error instanceof Error) {
-        setCameraErrorDetails(error.message);
-      }
-    }
+    // Initialize AR with a delay to allow permissions to propagate
+    setTimeout(() => {
+      initializeAR();
+    }, 500);
   };
 
   // Handle camera retry
   const retryCameraAccess = async () => {
-    setShowCameraError(false);
+    setCameraErrorDismissed(true);
     setIsLoading(true);
 
     // Release camera if possible before retrying
@@ -425,7 +430,7 @@ const ARJSView: React.FC = () => {
 
     // Wait a moment and retry
     setTimeout(() => {
-      requestCameraPermission();
+      requestSensorPermissions();
     }, 1000);
   };
 
@@ -455,11 +460,12 @@ const ARJSView: React.FC = () => {
     return (
       <ErrorBoundary>
         <PermissionRequest
-          cameraPermission={false}
-          locationPermission={coordinates.latitude !== null}
-          cameraError={errorMessage}
-          locationError={errorMessage}
-          onRequestPermissions={requestCameraPermission}
+          cameraPermission={getPermissionState(sensors.camera.status)}
+          locationPermission={getPermissionState(sensors.geolocation.status)}
+          orientationPermission={getPermissionState(sensors.orientation.status)}
+          cameraError={sensors.camera.error}
+          locationError={sensors.geolocation.error}
+          onRequestPermissions={requestSensorPermissions}
         />
       </ErrorBoundary>
     );
@@ -474,6 +480,15 @@ const ARJSView: React.FC = () => {
     );
   }
 
+  // Abre o mapa 2D mantendo a seleção; o mapa volta para esta rota
+  const openMap = () => {
+    const state: MapRouteState = {
+      returnTo: location.pathname + location.search,
+      simulation: simulation !== null,
+    };
+    navigate('/map', { state });
+  };
+
   // Encontra o marcador selecionado, se houver
   const selectedMarker = selectedMarkerId
     ? visibleMarkers.find(marker => marker.id === selectedMarkerId)
@@ -494,7 +509,9 @@ const ARJSView: React.FC = () => {
           ref={sceneRef}
           embedded
           arjs={{
-            sourceType: 'webcam',
+            // Na simulação, a câmera é substituída por uma imagem ou vídeo
+            sourceType: simulation ? simulation.backdrop.type : 'webcam',
+            ...(simulation && { sourceUrl: simulation.backdrop.url }),
             trackingMethod: 'best',
             debugUIEnabled: false,
             areaLearningButton: false,
@@ -523,6 +540,7 @@ const ARJSView: React.FC = () => {
           {/* Camera - configuração original */}
           <Entity
             primitive="a-camera"
+            fov={fieldOfView.vertical}
             gps-camera={{
               simulateLatitude: coordinates.latitude,
               simulateLongitude: coordinates.longitude,
@@ -533,18 +551,58 @@ const ARJSView: React.FC = () => {
           />
 
           {/* AR content - POI markers */}
-          {markersGenerated &&
-            coordinates.latitude &&
+          {coordinates.latitude &&
             coordinates.longitude &&
-            allMarkers.map(marker => {
-              const [lng, lat, altitude = 0] = marker.geometry.coordinates;
-              // Only create entities for markers in the current visible list
-              const isVisible = visibleMarkers.some(
-                visibleMarker => visibleMarker.id === marker.id,
+            sceneMarkers.map(marker => {
+              // Linhas e polígonos: contorno ancorado no solo com postes nos vértices
+              if (marker.geometry.type !== 'Point') {
+                const { origin, points, lines, color } = getOutlineEntityProps(
+                  marker.geometry,
+                );
+                const [originLng, originLat, originAltitude = 0] = origin;
+                // Desloca o contorno inteiro pela queda do ponto mais próximo
+                const sceneAltitude =
+                  originAltitude +
+                  getSceneAltitude(
+                    marker,
+                    coordinates.latitude!,
+                    coordinates.longitude!,
+                    coordinates.altitude || 0,
+                  ) -
+                  (marker.anchor[2] ?? 0);
+
+                return (
+                  <Entity
+                    key={marker.id}
+                    gps-entity-place={`latitude: ${originLat}; longitude: ${originLng}; altitude: ${sceneAltitude};`}
+                    {...lines}
+                    gps-entity-click-handler
+                    data-marker-id={marker.id}
+                    data-marker-name={marker.properties.name}
+                    data-marker-category={marker.properties.category}
+                  >
+                    {points.map((point, index) => (
+                      <Entity
+                        key={index}
+                        primitive="a-cylinder"
+                        position={{ x: point.x, y: point.y + 0.5, z: point.z }}
+                        radius={0.1}
+                        height={1}
+                        material={{ color }}
+                      />
+                    ))}
+                  </Entity>
+                );
+              }
+
+              const [lng, lat] = marker.geometry.coordinates;
+              const altitude = getSceneAltitude(
+                marker,
+                coordinates.latitude!,
+                coordinates.longitude!,
+                coordinates.altitude || 0,
               );
 
-              if (!isVisible) return null;
-
               return (
                 <Entity
                   key={marker.id}
@@ -577,6 +635,46 @@ const ARJSView: React.FC = () => {
                 />
               );
             })}
+
+          {/* Grupos de marcadores: uma esfera com a contagem */}
+          {coordinates.latitude &&
+            coordinates.longitude &&
+            markerClusters
+              ?.filter(cluster => cluster.markers.length > 1)
+              .map(cluster => {
+                const [lng, lat] = cluster.anchor;
+                const altitude = getSceneAltitude(
+                  cluster,
+                  coordinates.latitude!,
+                  coordinates.longitude!,
+                  coordinates.altitude || 0,
+                );
+                const count = cluster.markers.length;
+                const scale = Math.min(1.5, 0.5 + Math.log10(count) * 0.5);
+
+                return (
+                  <Entity
+                    key={cluster.id}
+                    primitive="a-sphere"
+                    gps-entity-place={`latitude: ${lat}; longitude: ${lng}; altitude: ${altitude};`}
+                    material={{ color: '#ff9800', opacity: 0.9 }}
+                    scale={{ x: scale, y: scale, z: scale }}
+                    look-at="[gps-camera]"
+                    gps-entity-click-handler
+                    data-marker-id={cluster.id}
+                    data-marker-name={`${count} marcadores`}
+                  >
+                    <Entity
+                      primitive="a-text"
+                      value={String(count)}
+                      align="center"
+                      color="#ffffff"
+                      position={{ x: 0, y: 0, z: 1.05 }}
+                      scale={{ x: 4, y: 4, z: 4 }}
+                    />
+                  </Entity>
+                );
+              })}
         </Scene>
 
         {/* Compass indicator - only show when no marker is selected */}
@@ -584,28 +682,307 @@ const ARJSView: React.FC = () => {
           <AzimuthIndicator
             heading={heading}
             isLandscape={orientation === 'landscape'}
+            isCalibrated={compassCalibrated}
+            status={compassStatus}
+            declination={
+              headingSource === 'relative' ? null : magneticDeclination
+            }
+            onCalibrate={() => setShowCalibration(true)}
           />
         )}
 
+        <CompassCalibration
+          open={showCalibration}
+          onClose={() => setShowCalibration(false)}
+        />
+
         {/* Marker UI Overlay - Only show when no marker is selected */}
         {!selectedMarkerId && (
           <ARMarkerOverlay
             markers={visibleMarkers}
-            orientation={orientation}
+            fieldOfView={fieldOfView}
             dimensions={dimensions}
+            screenAngle={screenAngle}
             heading={heading || 0}
+            clusters={markerClusters}
+            expandedClusterId={expandedClusterId}
+            onClusterToggle={setExpandedClusterId}
+          />
+        )}
+
+        {/* Setas na borda da tela para os marcadores fora do campo de visão */}
+        {!selectedMarkerId && heading !== null && (
+          <OffscreenIndicators
+            markers={visibleMarkers}
+            heading={heading}
+            fieldOfView={fieldOfView}
+            dimensions={dimensions}
+            screenAngle={screenAngle}
           />
         )}
 
+        {/* Radar com os marcadores fora do campo de visão */}
+        {!selectedMarkerId && heading !== null && (
+          <Box
+            sx={{
+              position: 'absolute',
+              bottom: 24,
+              left: '50%',
+              transform: 'translateX(-50%)',
+              zIndex: 15,
+            }}
+          >
+            <RadarOverlay
+              markers={visibleMarkers}
+              heading={heading}
+              horizontalFieldOfView={fieldOfView.horizontal}
+            />
+          </Box>
+        )}
+
+        {/* HUD da navegação, acima do radar */}
+        {!selectedMarkerId && navigationGuidance && (
+          <Box
+            sx={{
+              position: 'absolute',
+              bottom: heading !== null ? 186 : 24,
+              left: '50%',
+              transform: 'translateX(-50%)',
+              zIndex: 16,
+            }}
+          >
+            <NavigationHUD guidance={navigationGuidance} />
+          </Box>
+        )}
+
         {/* Renderização direta do InfoCard quando um marcador é selecionado */}
         {selectedMarker && (
           <InfoCard
             marker={selectedMarker}
             orientation={orientation}
             isTablet={dimensions.width >= 768}
+            viewSwitch={{ target: 'map', onSwitch: openMap }}
+            canLocate
+            canNavigate
+          />
+        )}
+
+        {/* Ações: origem dos marcadores e exportação */}
+        {!selectedMarkerId && (
+          <Box
+            sx={{
+              position: 'absolute',
+              bottom: 24,
+              left: 16,
+              zIndex: 20,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1.5,
+            }}
+          >
+            <Fab
+              size="medium"
+              aria-label="Ver no mapa"
+              onClick={openMap}
+              sx={ACTION_FAB_SX}
+            >
+              <MapIcon />
+            </Fab>
+            <Fab
+              size="medium"
+              aria-label="Alertas de proximidade"
+              onClick={() => setShowGeofenceLog(true)}
+              sx={ACTION_FAB_SX}
+            >
+              <NotificationsIcon />
+            </Fab>
+            <Fab
+              size="medium"
+              aria-label="Exportar marcadores"
+              onClick={() => setShowExportDialog(true)}
+              disabled={!visibleMarkers.length}
+              sx={ACTION_FAB_SX}
+            >
+              <FileDownloadIcon />
+            </Fab>
+            <Fab
+              size="medium"
+              aria-label="Gravar ou reproduzir sessão de sensores"
+              onClick={() => setShowSessionDialog(true)}
+              sx={{
+                ...ACTION_FAB_SX,
+                ...(isRecording && { color: 'error.main' }),
+              }}
+            >
+              {isReplaying ? <PlayArrowIcon /> : <FiberManualRecordIcon />}
+            </Fab>
+            <Fab
+              size="medium"
+              aria-label="Calibrar campo de visão"
+              onClick={() => setShowFieldOfViewCalibration(true)}
+              sx={ACTION_FAB_SX}
+            >
+              <CenterFocusWeakIcon />
+            </Fab>
+            <Fab
+              size="medium"
+              aria-label="Carregar marcadores"
+              onClick={() => setShowSourceDialog(true)}
+              sx={ACTION_FAB_SX}
+            >
+              <LayersIcon />
+            </Fab>
+          </Box>
+        )}
+
+        {/* Qualidade da localização e gravação ou reprodução de sessão */}
+        <Box
+          sx={{
+            position: 'absolute',
+            top: 16,
+            left: 16,
+            zIndex: 20,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'flex-start',
+            gap: 1,
+          }}
+        >
+          {!selectedMarkerId && <LocationQualityIndicator />}
+          {(isRecording || sensorReplay) && (
+            <Chip
+              size="small"
+              color={isRecording ? 'error' : 'info'}
+              icon={isRecording ? <FiberManualRecordIcon /> : <PlayArrowIcon />}
+              label={
+                sensorReplay
+                  ? `Reprodução ${sensorReplay.speed}× · ${Math.round(replayProgress * 100)}%`
+                  : 'Gravando sensores'
+              }
+              onClick={() => setShowSessionDialog(true)}
+            />
+          )}
+        </Box>
+
+        {/* Alertas de entrada e saída dos raios de ativação */}
+        {!selectedMarkerId && <GeofenceAlertStack />}
+
+        <GeofenceLogDialog
+          open={showGeofenceLog}
+          onClose={() => setShowGeofenceLog(false)}
+        />
+
+        <SensorSessionDialog
+          open={showSessionDialog}
+          onClose={() => setShowSessionDialog(false)}
+          recording={isRecording}
+          onRecordingChange={setIsRecording}
+          replay={sensorReplay}
+          replayProgress={replayProgress}
+          onReplayStart={setSensorReplay}
+          onReplayStop={() => setSensorReplay(null)}
+        />
+
+        {simulationState && (
+          <SimulationControls
+            state={simulationState}
+            onChange={setSimulationState}
           />
         )}
 
+        <FieldOfViewCalibration
+          open={showFieldOfViewCalibration}
+          onClose={() => setShowFieldOfViewCalibration(false)}
+          track={track}
+          calibrationKey={calibrationKey}
+          isCalibrated={isCalibrated}
+          fieldOfView={fieldOfView}
+          dimensions={dimensions}
+        />
+
+        <MarkerSourceDialog
+          open={showSourceDialog}
+          onClose={() => setShowSourceDialog(false)}
+        />
+
+        <ExportDialog
+          open={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+        />
+
+        {/* Aviso de interferência ou bússola não calibrada */}
+        <Snackbar
+          open={
+            (compassStatus === 'interference' ||
+              compassStatus === 'uncalibrated') &&
+            !showCalibration &&
+            !calibrationPromptDismissed &&
+            !simulation
+          }
+          anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        >
+          <Alert
+            severity="warning"
+            action={
+              <>
+                <Button
+                  color="inherit"
+                  size="small"
+                  onClick={() => setCalibrationPromptDismissed(true)}
+                >
+                  Ignorar
+                </Button>
+                <Button
+                  color="inherit"
+                  size="small"
+                  onClick={() => setShowCalibration(true)}
+                >
+                  Calibrar
+                </Button>
+              </>
+            }
+          >
+            {compassStatus === 'interference'
+              ? 'Interferência magnética na bússola'
+              : 'A bússola precisa de calibração'}
+          </Alert>
+        </Snackbar>
+
+        {/* Aviso de feições ignoradas na validação */}
+        <Snackbar
+          open={!!validationReport?.issues.length && !showValidationReport}
+          onClose={(_, reason) =>
+            reason !== 'clickaway' && clearValidationReport()
+          }
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        >
+          <Alert
+            severity="warning"
+            onClose={clearValidationReport}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => setShowValidationReport(true)}
+              >
+                Detalhes
+              </Button>
+            }
+          >
+            {validationReport &&
+              `${validationReport.total - validationReport.valid} feições inválidas foram ignoradas`}
+          </Alert>
+        </Snackbar>
+
+        <ValidationReportDialog
+          open={showValidationReport}
+          report={validationReport}
+          onClose={() => {
+            setShowValidationReport(false);
+            clearValidationReport();
+          }}
+        />
+
         {/* Marker generation notice */}
         <Snackbar
           open={showMarkerMessage}
@@ -619,7 +996,9 @@ const ARJSView: React.FC = () => {
             sx={{ width: '100%' }}
           >
             <Typography variant="body2">
-              {allMarkers.length} pontos de interesse gerados ao seu redor!
+              {markerSource.type === 'sample'
+                ? `${allMarkers.length} pontos de interesse gerados ao seu redor!`
+                : `${allMarkers.length} pontos de interesse carregados de ${markerSource.label}`}
             </Typography>
             <Typography variant="caption">
               Gire a câmera para encontrá-los
@@ -630,7 +1009,7 @@ const ARJSView: React.FC = () => {
         {/* Camera Error Dialog */}
         <Modal
           open={showCameraError}
-          onClose={() => setShowCameraError(false)}
+          onClose={() => setCameraErrorDismissed(true)}
           aria-labelledby="camera-error-dialog"
         >
           <Box
@@ -651,7 +1030,7 @@ const ARJSView: React.FC = () => {
               Erro de Câmera
             </Typography>
             <Typography variant="body2" sx={{ mb: 2 }}>
-              {cameraErrorDetails || 'Não foi possível iniciar a câmera'}
+              {sensors.camera.error || 'Não foi possível iniciar a câmera'}
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
               Isso pode acontecer se outro aplicativo estiver usando sua câmera
@@ -663,7 +1042,7 @@ const ARJSView: React.FC = () => {
               <Box sx={{ flex: 1 }} />
               <Box sx={{ display: 'flex', gap: 2 }}>
                 <Box
-                  onClick={() => setShowCameraError(false)}
+                  onClick={() => setCameraErrorDismissed(true)}
                   sx={{
                     color: 'primary.main',
                     cursor: 'pointer',
@@ -12,23 +12,46 @@ import LocationOnIcon from '@mui/icons-material/LocationOn';
 import ExploreIcon from '@mui/icons-material/Explore';
 import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import GpsNotFixedIcon from '@mui/icons-material/GpsNotFixed';
 import { MarkerWithDistance } from '../schemas/markerSchema';
+import { ScreenFieldOfView } from '../utils/fieldOfView';
 import { useARStore } from '../stores/arStore';
-import { formatDistance } from '../utils/arjsUtils';
+import {
+  formatDistance,
+  formatNearestPart,
+  projectMarkerToScreen,
+} from '../utils/arjsUtils';
+import { isWithinUncertainty } from '../utils/locationQuality';
+import { MarkerCluster, SPIDERFY_MAX_MARKERS } from '../utils/clustering';
+import { getScreenRoll } from '../utils/orientation';
+import {
+  getMarkerMaxDistance,
+  isWithinMarkerRange,
+} from '../utils/markerRange';
+import { MAX_PROCESSING_DISTANCE } from '../utils/spatialIndex';
 
 interface ARMarkerOverlayProps {
   markers: MarkerWithDistance[];
   heading: number;
-  orientation: 'portrait' | 'landscape';
+  fieldOfView: ScreenFieldOfView;
   dimensions: {
     width: number;
     height: number;
   };
+  // Rotação da interface (useScreenOrientation), compensada no giro do aparelho
+  screenAngle?: number;
+  // Grupos de marcadores próximos (null com o agrupamento desligado)
+  clusters?: MarkerCluster[] | null;
+  // Grupo aberto em leque ou em lista
+  expandedClusterId?: string | null;
+  onClusterToggle?: (id: string | null) => void;
 }
 
 // Constantes para configuração da visualização
-const MAX_MARKER_DISTANCE = 500; // Distância máxima em metros
-const MAX_VERTICAL_OFFSET = 0.2; // Deslocamento vertical máximo (20% da altura da tela)
+const SCREEN_MARGIN = 0.08; // Margem fora da tela antes de esconder o marker (8%)
+const CLUSTER_BADGE_SIZE = 48; // Diâmetro do indicador de grupo (pixels)
+const SPIDER_RADIUS = 72; // Raio do leque de um grupo aberto (pixels)
+const SPIDER_MARKER_SIZE = 34;
 
 // Mapeamento de categorias para cores
 const CATEGORY_COLORS: Record<string, string> = {
@@ -42,81 +65,116 @@ const CATEGORY_COLORS: Record<string, string> = {
   default: '#4CAF50', // Verde
 };
 
+/**
+ * Projects a direction on the overlay: horizontal position (0-1, 0.5 is the
+ * center), vertical offset from the center and whether it is on screen
+ * Without tilt sensors, assumes the device is held upright
+ */
+function projectOnOverlay({
+  relativeBearing,
+  verticalAngle,
+  pitch,
+  roll,
+  horizontalFieldOfView,
+  width,
+  height,
+}: Parameters<typeof projectMarkerToScreen>[0]) {
+  const projected = projectMarkerToScreen({
+    relativeBearing,
+    verticalAngle,
+    pitch,
+    roll,
+    horizontalFieldOfView,
+    width,
+    height,
+  });
+
+  return {
+    position: projected?.x ?? 0,
+    verticalPositionOffset: (projected?.y ?? 0) - 0.5,
+    // Pequena margem para evitar aparecimento/desaparecimento abrupto
+    isInFieldOfView:
+      projected !== null &&
+      projected.x >= -SCREEN_MARGIN &&
+      projected.x <= 1 + SCREEN_MARGIN &&
+      projected.y >= -SCREEN_MARGIN &&
+      projected.y <= 1 + SCREEN_MARGIN,
+  };
+}
+
 /**
  * UI overlay que mostra markers visíveis no campo de visão atual
+ * Com o agrupamento ligado, marcadores próximos em direção e distância
+ * aparecem como um indicador com a contagem e as categorias; o toque abre
+ * o grupo em leque (ou em lista, para grupos grandes)
  */
 const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
   markers,
   heading,
-  orientation,
+  fieldOfView,
   dimensions,
+  screenAngle = 0,
+  clusters = null,
+  expandedClusterId = null,
+  onClusterToggle,
 }) => {
-  const { selectMarker, coordinates } = useARStore();
+  const { selectMarker, coordinates, pitch, roll, geodesyMode } = useARStore();
+  const screenRoll = getScreenRoll(roll ?? 0, screenAngle);
   const isTablet = dimensions.width >= 768;
 
-  // Determina o campo de visão com base no dispositivo e orientação
-  const fieldOfView = useMemo(() => {
-    return isTablet
-      ? orientation === 'landscape'
-        ? 65
-        : 55
-      : orientation === 'landscape'
-        ? 70
-        : 60;
-  }, [dimensions.width, orientation, isTablet]);
-
   // Processa e filtra os markers
   const visibleMarkers = useMemo(() => {
-    if (!markers.length) return [];
-
-    // Filtra por distância máxima primeiro
-    const distanceFiltered = markers.filter(
-      marker => marker.distance <= MAX_MARKER_DISTANCE,
+    // Com o agrupamento, apenas os marcadores isolados aparecem aqui
+    const singles = clusters
+      ? clusters
+          .filter(cluster => cluster.markers.length === 1)
+          .map(cluster => cluster.markers[0])
+      : markers;
+    if (!singles.length) return [];
+
+    // Filtra por distância máxima primeiro (maior para pontos de
+    // referência no modo geodésico preciso)
+    const distanceFiltered = singles.filter(marker =>
+      isWithinMarkerRange(marker, geodesyMode),
     );
 
     // Processa os markers para determinar posição e visibilidade
     return (
       distanceFiltered
         .map(marker => {
-          // Calcula a posição horizontal relativa (0-1)
-          // Onde 0 = extrema esquerda, 0.5 = centro, 1 = extrema direita
           const relativeBearing =
             ((marker.bearing - heading + 540) % 360) - 180;
 
-          // Converte o ângulo relativo em posição na tela
-          const position = 0.5 + relativeBearing / fieldOfView;
-
-          // Determina se o marker está realmente dentro do campo de visão
-          // com uma pequena margem para evitar aparecimento/desaparecimento abrupto
-          const isInFieldOfView =
-            Math.abs(relativeBearing) <= fieldOfView / 2 + 5;
-
-          // Ajuste o tamanho com base na distância (mais próximo = maior)
+          // Projeta o azimute relativo e o ângulo de elevação na tela,
+          // considerando a inclinação e a rotação do aparelho
+          const { position, verticalPositionOffset, isInFieldOfView } =
+            projectOnOverlay({
+              relativeBearing,
+              verticalAngle: marker.verticalAngle ?? 0,
+              pitch: pitch ?? 0,
+              roll: screenRoll,
+              horizontalFieldOfView: fieldOfView.horizontal,
+              width: dimensions.width,
+              height: dimensions.height,
+            });
+
+          // Ajuste o tamanho com base na distância (mais próximo = maior),
+          // relativa ao alcance da categoria
+          const range = getMarkerMaxDistance(
+            marker.properties.category,
+            geodesyMode,
+          );
           const sizeFactor = Math.max(
             0.2,
-            Math.min(1.0, 1 - marker.distance / MAX_MARKER_DISTANCE),
+            Math.min(1.0, 1 - marker.distance / range),
           );
           const baseSize = isTablet ? 55 : 45;
           const size = baseSize * sizeFactor;
 
-          // Calcula deslocamento vertical baseado na diferença de altitude
-          // (altitudeDifference pode ser positivo, negativo ou zero)
+          // Diferença de altitude para o indicador de acima/abaixo
+          // Para linhas e polígonos, usa o ponto mais próximo do contorno
           const altitudeDifference =
-            (marker.geometry.coordinates[2] || 0) - (coordinates.altitude || 0);
-
-          // Normaliza a diferença de altitude (quanto maior a diferença, maior o deslocamento)
-          // Limite para diferenças muito grandes (considere ±100m como máximo)
-          const maxAltitudeDiff = 100; // em metros
-          const normalizedAltDiff = Math.max(
-            -1,
-            Math.min(1, altitudeDifference / maxAltitudeDiff),
-          );
-
-          // Converte para um deslocamento vertical na tela (-20% a +20% da altura)
-          // Valores negativos: marcador aparece mais abaixo na tela
-          // Valores positivos: marcador aparece mais acima na tela
-          const verticalPositionOffset =
-            -normalizedAltDiff * MAX_VERTICAL_OFFSET;
+            (marker.anchor[2] || 0) - (coordinates.altitude || 0);
 
           return {
             marker,
@@ -133,7 +191,55 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
         // Ordena por distância para que os markers mais próximos apareçam em cima
         .sort((a, b) => a.marker.distance - b.marker.distance)
     );
-  }, [markers, heading, fieldOfView, isTablet, coordinates.altitude]);
+  }, [
+    markers,
+    clusters,
+    heading,
+    pitch,
+    screenRoll,
+    fieldOfView.horizontal,
+    dimensions,
+    isTablet,
+    coordinates.altitude,
+    geodesyMode,
+  ]);
+
+  // Grupos no campo de visão, posicionados pela direção média
+  const visibleClusters = useMemo(() => {
+    if (!clusters) return [];
+
+    return clusters
+      .filter(
+        cluster =>
+          cluster.markers.length > 1 &&
+          cluster.markers.some(
+            marker =>
+              cluster.distance <=
+              getMarkerMaxDistance(marker.properties.category, geodesyMode),
+          ),
+      )
+      .map(cluster => ({
+        cluster,
+        ...projectOnOverlay({
+          relativeBearing: ((cluster.bearing - heading + 540) % 360) - 180,
+          verticalAngle: cluster.verticalAngle,
+          pitch: pitch ?? 0,
+          roll: screenRoll,
+          horizontalFieldOfView: fieldOfView.horizontal,
+          width: dimensions.width,
+          height: dimensions.height,
+        }),
+      }))
+      .filter(item => item.isInFieldOfView);
+  }, [
+    clusters,
+    heading,
+    pitch,
+    screenRoll,
+    fieldOfView.horizontal,
+    dimensions,
+    geodesyMode,
+  ]);
 
   // Obtem ícone para cada categoria
   const getCategoryIcon = (category: string) => {
@@ -201,25 +307,19 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
 
     groups.forEach(group => {
       group.forEach((marker, index) => {
-        // Distribui verticalmente com base no índice e altitude
-        // Valores de offset entre -20% e +20% da altura da tela
+        // Parte da posição projetada (ângulo de elevação real)
         const totalMarkers = group.length;
         let verticalOffset = marker.verticalPositionOffset || 0;
 
         if (totalMarkers > 1) {
-          // Adiciona uma distribuição adicional para evitar sobreposição dentro do grupo
-          const step = 0.3 / (totalMarkers - 1);
-
-          // Centraliza a distribuição vertical
-          const groupOffset = -0.15 + index * step;
-
-          // Combina o deslocamento baseado em altitude com o agrupamento
-          // Peso maior para altitude (70%) e menor para agrupamento (30%)
-          verticalOffset = verticalOffset * 0.7 + groupOffset * 0.3;
+          // Pequena distribuição adicional para evitar sobreposição dentro do grupo
+          // (no máximo ±6% da altura, para manter o marker sobre o alvo)
+          const step = 0.12 / (totalMarkers - 1);
+          verticalOffset += -0.06 + index * step;
         }
 
         // Limita o deslocamento total para evitar que os markers fiquem fora da tela
-        verticalOffset = Math.max(-0.3, Math.min(0.3, verticalOffset));
+        verticalOffset = Math.max(-0.45, Math.min(0.45, verticalOffset));
 
         result.push({
           ...marker,
@@ -246,11 +346,21 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
       {/* Renderiza apenas os markers visíveis */}
       {distributedMarkers.map(
         ({ marker, position, size, verticalOffset, altitudeDifference }) => {
+          // Marcadores dentro da incerteza da posição têm azimute e
+          // distância pouco confiáveis: ficam esmaecidos e sinalizados
+          const isUncertain = isWithinUncertainty(
+            marker.distance,
+            coordinates.accuracy,
+          );
+
           // Calcula opacidade com base na distância
-          const opacityByDistance = Math.max(
-            0.6,
-            Math.min(1, 1 - marker.distance / MAX_MARKER_DISTANCE),
+          const range = getMarkerMaxDistance(
+            marker.properties.category,
+            geodesyMode,
           );
+          const opacityByDistance = isUncertain
+            ? 0.4
+            : Math.max(0.6, Math.min(1, 1 - marker.distance / range));
           const isPulsingMarker = marker.distance < 100; // Pulsa para markers próximos
           const formattedDistance = formatDistance(marker.distance);
           const markerColor = getCategoryColor(marker.properties.category);
@@ -264,7 +374,7 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
                 left: `${position * 100}%`,
                 top: `${50 + verticalOffset * 100}%`,
                 transform: 'translate(-50%, -50%)',
-                zIndex: Math.round(MAX_MARKER_DISTANCE - marker.distance), // Mais próximos ficam na frente
+                zIndex: Math.round(MAX_PROCESSING_DISTANCE - marker.distance), // Mais próximos ficam na frente
                 pointerEvents: 'auto',
                 cursor: 'pointer',
               }}
@@ -277,7 +387,7 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
                     : altitudeDifference < -5
                       ? `(${Math.abs(Math.round(altitudeDifference))}m abaixo)`
                       : ''
-                }`}
+                }${isUncertain ? ' - posição imprecisa' : ''}`}
                 placement="top"
                 arrow
               >
@@ -394,14 +504,43 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
                         opacity: 0.85,
                       }}
                     >
-                      <ExploreIcon
+                      {isUncertain ? (
+                        <GpsNotFixedIcon
+                          sx={{
+                            fontSize: isTablet ? '0.9rem' : '0.8rem',
+                            color: 'warning.main',
+                          }}
+                        />
+                      ) : (
+                        <ExploreIcon
+                          sx={{
+                            fontSize: isTablet ? '0.9rem' : '0.8rem',
+                            color: alpha(markerColor, 0.9),
+                          }}
+                        />
+                      )}
+                      <span>
+                        {isUncertain ? '≈' : ''}
+                        {formattedDistance}
+                      </span>
+                    </Box>
+
+                    {/* Parte mais próxima de linhas e polígonos */}
+                    {marker.nearest && (
+                      <Typography
+                        variant="caption"
                         sx={{
-                          fontSize: isTablet ? '0.9rem' : '0.8rem',
-                          color: alpha(markerColor, 0.9),
+                          display: 'block',
+                          mt: 0.2,
+                          fontSize: isTablet ? '0.65rem' : '0.6rem',
+                          opacity: 0.75,
+                          whiteSpace: 'nowrap',
                         }}
-                      />
-                      <span>{formattedDistance}</span>
-                    </Box>
+                      >
+                        {formatNearestPart(marker.nearest)} ·{' '}
+                        {Math.round(marker.bearing)}°
+                      </Typography>
+                    )}
                   </Box>
                 </Box>
               </Tooltip>
@@ -409,6 +548,258 @@ const ARMarkerOverlay: React.FC<ARMarkerOverlayProps> = ({
           );
         },
       )}
+
+      {/* Grupos de marcadores próximos */}
+      {visibleClusters.map(({ cluster, position, verticalPositionOffset }) => {
+        const isExpanded = cluster.id === expandedClusterId;
+        const count = cluster.markers.length;
+        const verticalOffset = Math.max(
+          -0.45,
+          Math.min(0.45, verticalPositionOffset),
+        );
+
+        // Anel com a proporção de cada categoria no grupo
+        let accumulated = 0;
+        const ringStops = cluster.categories
+          .map(({ category, count: categoryCount }) => {
+            const start = (accumulated / count) * 100;
+            accumulated += categoryCount;
+            const end = (accumulated / count) * 100;
+            return `${getCategoryColor(category)} ${start}% ${end}%`;
+          })
+          .join(', ');
+
+        const spiderfy = count <= SPIDERFY_MAX_MARKERS;
+
+        return (
+          <Box
+            key={cluster.id}
+            sx={{
+              position: 'absolute',
+              left: `${position * 100}%`,
+              top: `${50 + verticalOffset * 100}%`,
+              transform: 'translate(-50%, -50%)',
+              zIndex: isExpanded
+                ? MAX_PROCESSING_DISTANCE + 1
+                : Math.round(MAX_PROCESSING_DISTANCE - cluster.distance),
+              pointerEvents: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+            }}
+          >
+            <Box
+              onClick={() => onClusterToggle?.(isExpanded ? null : cluster.id)}
+              sx={{
+                width: CLUSTER_BADGE_SIZE,
+                height: CLUSTER_BADGE_SIZE,
+                borderRadius: '50%',
+                padding: '4px',
+                background: `conic-gradient(${ringStops})`,
+                boxShadow: '0 3px 8px rgba(0,0,0,0.5)',
+                cursor: 'pointer',
+                transition: 'transform 0.2s ease-out',
+                transform: isExpanded ? 'scale(0.85)' : 'none',
+              }}
+            >
+              <Box
+                sx={{
+                  width: '100%',
+                  height: '100%',
+                  borderRadius: '50%',
+                  backgroundColor: alpha('#000000', 0.8),
+                  color: 'white',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontWeight: 700,
+                  fontSize: count > 99 ? '0.8rem' : '1rem',
+                }}
+              >
+                {count}
+              </Box>
+            </Box>
+
+            {!isExpanded && (
+              <Box
+                sx={{
+                  mt: 0.5,
+                  px: 1,
+                  py: 0.25,
+                  borderRadius: 3,
+                  backgroundColor: alpha('#000000', 0.75),
+                  color: 'white',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 0.5,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                <Typography
+                  variant="caption"
+                  sx={{ fontSize: isTablet ? '0.7rem' : '0.65rem' }}
+                >
+                  a partir de {formatDistance(cluster.distance)}
+                </Typography>
+                {cluster.categories.slice(0, 4).map(({ category }) => (
+                  <Box
+                    key={category}
+                    sx={{
+                      display: 'flex',
+                      color: getCategoryColor(category),
+                      '& .MuiSvgIcon-root': { fontSize: '0.9rem' },
+                    }}
+                  >
+                    {getCategoryIcon(category)}
+                  </Box>
+                ))}
+              </Box>
+            )}
+
+            {/* Grupo aberto em leque ao redor do indicador */}
+            {isExpanded &&
+              spiderfy &&
+              cluster.markers.map((marker, index) => {
+                const angle = (2 * Math.PI * index) / count - Math.PI / 2;
+                const x = SPIDER_RADIUS * Math.cos(angle);
+                const y = SPIDER_RADIUS * Math.sin(angle);
+                const markerColor = getCategoryColor(
+                  marker.properties.category,
+                );
+                return (
+                  <React.Fragment key={marker.id}>
+                    <svg
+                      width={1}
+                      height={1}
+                      style={{
+                        position: 'absolute',
+                        left: '50%',
+                        top: CLUSTER_BADGE_SIZE / 2,
+                        overflow: 'visible',
+                        pointerEvents: 'none',
+                      }}
+                    >
+                      <line
+                        x1={0}
+                        y1={0}
+                        x2={x}
+                        y2={y}
+                        stroke={alpha('#ffffff', 0.7)}
+                        strokeWidth={1.5}
+                      />
+                    </svg>
+                    <Box
+                      onClick={() => selectMarker(marker.id)}
+                      sx={{
+                        position: 'absolute',
+                        left: `calc(50% + ${x}px)`,
+                        top: CLUSTER_BADGE_SIZE / 2 + y,
+                        transform: 'translate(-50%, -50%)',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      <Box
+                        sx={{
+                          width: SPIDER_MARKER_SIZE,
+                          height: SPIDER_MARKER_SIZE,
+                          borderRadius: '50%',
+                          backgroundColor: markerColor,
+                          color: '#fff',
+                          border: `2px solid ${alpha('#ffffff', 0.9)}`,
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          boxShadow: '0 2px 6px rgba(0,0,0,0.4)',
+                          '& .MuiSvgIcon-root': { fontSize: 18 },
+                        }}
+                      >
+                        {getCategoryIcon(marker.properties.category)}
+                      </Box>
+                      <Typography
+                        variant="caption"
+                        sx={{
+                          mt: 0.25,
+                          px: 0.75,
+                          borderRadius: 2,
+                          maxWidth: 110,
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                          fontSize: '0.6rem',
+                          color: 'white',
+                          backgroundColor: alpha('#000000', 0.75),
+                        }}
+                      >
+                        {marker.properties.name} ·{' '}
+                        {formatDistance(marker.distance)}
+                      </Typography>
+                    </Box>
+                  </React.Fragment>
+                );
+              })}
+
+            {/* Grupos grandes abrem uma lista rolável */}
+            {isExpanded && !spiderfy && (
+              <Box
+                className="allow-scrollbar"
+                sx={{
+                  mt: 1,
+                  width: 220,
+                  maxHeight: '40vh',
+                  overflowY: 'auto',
+                  borderRadius: 2,
+                  backgroundColor: alpha('#000000', 0.8),
+                  backdropFilter: 'blur(8px)',
+                  color: 'white',
+                  py: 0.5,
+                }}
+              >
+                {cluster.markers.map(marker => (
+                  <Box
+                    key={marker.id}
+                    onClick={() => selectMarker(marker.id)}
+                    sx={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 1,
+                      px: 1.5,
+                      py: 0.75,
+                      cursor: 'pointer',
+                      '&:hover': {
+                        backgroundColor: alpha('#ffffff', 0.1),
+                      },
+                    }}
+                  >
+                    <Box
+                      sx={{
+                        width: 10,
+                        height: 10,
+                        flexShrink: 0,
+                        borderRadius: '50%',
+                        backgroundColor: getCategoryColor(
+                          marker.properties.category,
+                        ),
+                      }}
+                    />
+                    <Typography variant="caption" noWrap sx={{ flex: 1 }}>
+                      {marker.properties.name}
+                    </Typography>
+                    <Typography
+                      variant="caption"
+                      sx={{ fontFamily: 'monospace', opacity: 0.8 }}
+                    >
+                      {formatDistance(marker.distance)}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </Box>
+        );
+      })}
     </Box>
   );
 };
@@ -2,21 +2,38 @@
 import React from 'react';
 import { Box, Typography, useTheme, alpha } from '@mui/material';
 import NavigationIcon from '@mui/icons-material/Navigation';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import { azimuthToCardinal } from '../utils/arjsUtils';
+import { CompassStatus } from '../utils/compassCalibration';
 
 interface AzimuthIndicatorProps {
   heading: number | null;
   isLandscape: boolean;
   isCalibrated?: boolean;
+  status?: CompassStatus;
+  declination?: number | null;
+  onCalibrate?: () => void;
 }
 
 /**
  * Indicador de bússola simplificado mostrando a direção atual do dispositivo
- * Versão sem calibração
+ * Sinaliza quando a bússola precisa de calibração; o toque abre o fluxo de calibração
  */
 const AzimuthIndicator: React.FC<AzimuthIndicatorProps> = React.memo(
-  ({ heading, isLandscape }) => {
+  ({
+    heading,
+    isLandscape,
+    isCalibrated = true,
+    status,
+    declination = null,
+    onCalibrate,
+  }) => {
     const theme = useTheme();
+    const needsCalibration =
+      !isCalibrated ||
+      status === 'interference' ||
+      status === 'uncalibrated' ||
+      status === 'low-accuracy';
 
     // Não renderiza se não houver direção
     if (heading === null) return null;
@@ -47,7 +64,9 @@ const AzimuthIndicator: React.FC<AzimuthIndicatorProps> = React.memo(
         }}
       >
         <Box
+          onClick={onCalibrate}
           sx={{
+            cursor: onCalibrate ? 'pointer' : 'default',
             backgroundColor: alpha(theme.palette.background.paper, 0.7),
             borderRadius: 2,
             padding: theme.spacing(1),
@@ -55,7 +74,9 @@ const AzimuthIndicator: React.FC<AzimuthIndicatorProps> = React.memo(
             flexDirection: 'column',
             alignItems: 'center',
             backdropFilter: 'blur(4px)',
-            border: '1px solid rgba(255,255,255,0.1)',
+            border: needsCalibration
+              ? `1px solid ${theme.palette.warning.main}`
+              : '1px solid rgba(255,255,255,0.1)',
             boxShadow: 2,
           }}
         >
@@ -146,6 +167,33 @@ const AzimuthIndicator: React.FC<AzimuthIndicatorProps> = React.memo(
           >
             {roundedHeading}° {cardinalDirection}
           </Typography>
+
+          {/* Declinação magnética aplicada (norte verdadeiro) */}
+          {declination !== null && (
+            <Typography
+              variant="caption"
+              sx={{ opacity: 0.7, fontFamily: 'monospace' }}
+            >
+              Decl. {Math.abs(declination).toFixed(1)}°{' '}
+              {declination < 0 ? 'W' : 'E'}
+            </Typography>
+          )}
+
+          {/* Aviso de calibração */}
+          {needsCalibration && (
+            <Typography
+              variant="caption"
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 0.5,
+                color: theme.palette.warning.main,
+              }}
+            >
+              <WarningAmberIcon sx={{ fontSize: 14 }} />
+              {status === 'interference' ? 'Interferência' : 'Calibrar'}
+            </Typography>
+          )}
         </Box>
       </Box>
     );
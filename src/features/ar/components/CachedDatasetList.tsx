@@ -0,0 +1,131 @@
+// Path: features\ar\components\CachedDatasetList.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  IconButton,
+  Typography,
+  Alert,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+  CachedDatasetSummary,
+  deleteCachedDataset,
+  formatByteSize,
+  getStorageEstimate,
+  listCachedDatasets,
+} from '../utils/datasetCache';
+
+interface CachedDatasetListProps {
+  selectedId: string | null;
+  onSelect: (dataset: CachedDatasetSummary | null) => void;
+}
+
+/**
+ * Lista dos datasets salvos no aparelho (IndexedDB), com tamanho,
+ * quantidade de marcadores e opção de remoção
+ */
+const CachedDatasetList: React.FC<CachedDatasetListProps> = ({
+  selectedId,
+  onSelect,
+}) => {
+  const [datasets, setDatasets] = useState<CachedDatasetSummary[] | null>(null);
+  const [storage, setStorage] = useState<{
+    usage: number;
+    quota: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDatasets(await listCachedDatasets());
+      setStorage(await getStorageEstimate());
+      setError(null);
+    } catch (err) {
+      console.error('Error reading dataset cache:', err);
+      setDatasets([]);
+      setError('Não foi possível ler os datasets salvos');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (dataset: CachedDatasetSummary) => {
+    try {
+      await deleteCachedDataset(dataset.id);
+      if (dataset.id === selectedId) onSelect(null);
+    } catch (err) {
+      console.error('Error deleting cached dataset:', err);
+      setError(`Não foi possível remover ${dataset.label}`);
+    }
+    refresh();
+  };
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (datasets === null) return null;
+
+  if (!datasets.length) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Nenhum dataset salvo. Os datasets carregados ficam disponíveis aqui para
+        uso sem conexão.
+      </Typography>
+    );
+  }
+
+  const totalSize = datasets.reduce((sum, dataset) => sum + dataset.size, 0);
+
+  return (
+    <Box>
+      <Box
+        className="allow-scrollbar"
+        sx={{ maxHeight: '40vh', overflowY: 'auto' }}
+      >
+        <List dense disablePadding>
+          {datasets.map(dataset => (
+            <ListItem
+              key={dataset.id}
+              disablePadding
+              secondaryAction={
+                <IconButton
+                  edge="end"
+                  aria-label={`Remover ${dataset.label}`}
+                  onClick={() => handleDelete(dataset)}
+                >
+                  <DeleteOutlineIcon />
+                </IconButton>
+              }
+            >
+              <ListItemButton
+                selected={dataset.id === selectedId}
+                onClick={() => onSelect(dataset)}
+              >
+                <ListItemText
+                  primary={dataset.label}
+                  primaryTypographyProps={{ noWrap: true }}
+                  secondary={`${dataset.markerCount} marcadores · ${formatByteSize(dataset.size)} · ${new Date(dataset.cachedAt).toLocaleDateString()}`}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      </Box>
+
+      <Typography variant="caption" color="text.secondary">
+        Total: {formatByteSize(totalSize)}
+        {storage &&
+          ` · armazenamento do app: ${formatByteSize(storage.usage)} de ${formatByteSize(storage.quota)}`}
+      </Typography>
+    </Box>
+  );
+};
+
+export default CachedDatasetList;
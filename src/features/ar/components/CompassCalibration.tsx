@@ -0,0 +1,259 @@
+// Path: features\ar\components\CompassCalibration.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  Alert,
+  AlertColor,
+  Box,
+  LinearProgress,
+  keyframes,
+} from '@mui/material';
+import ScreenRotationIcon from '@mui/icons-material/ScreenRotation';
+import { useARStore } from '../stores/arStore';
+import {
+  CompassStatus,
+  FIGURE_EIGHT_COMPLETE,
+  createFigureEightProgress,
+  getCompassStatus,
+  getLandmarkHeadingOffset,
+  updateFigureEightProgress,
+} from '../utils/compassCalibration';
+import { azimuthToCardinal, formatDistance } from '../utils/arjsUtils';
+
+interface CompassCalibrationProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type CalibrationStep = 'figure-eight' | 'landmark';
+
+// Mensagens para cada estado da bússola
+const COMPASS_STATUS_MESSAGES: Record<
+  CompassStatus,
+  { severity: AlertColor; message: string }
+> = {
+  unknown: { severity: 'info', message: 'Aguardando leituras da bússola' },
+  good: { severity: 'success', message: 'Bússola com boa precisão' },
+  'low-accuracy': {
+    severity: 'warning',
+    message: 'Precisão da bússola baixa',
+  },
+  interference: {
+    severity: 'error',
+    message:
+      'Interferência magnética detectada. Afaste-se de objetos metálicos',
+  },
+  uncalibrated: { severity: 'warning', message: 'Bússola não calibrada' },
+};
+
+// Movimento em figura 8 do ícone de orientação
+const figureEight = keyframes`
+  0% { transform: translate(0, 0) rotate(0deg); }
+  25% { transform: translate(24px, -12px) rotate(30deg); }
+  50% { transform: translate(0, 0) rotate(0deg); }
+  75% { transform: translate(-24px, -12px) rotate(-30deg); }
+  100% { transform: translate(0, 0) rotate(0deg); }
+`;
+
+/**
+ * Fluxo de calibração da bússola: movimento em figura 8 e ajuste manual
+ * mirando um marcador conhecido
+ */
+const CompassCalibration: React.FC<CompassCalibrationProps> = ({
+  open,
+  onClose,
+}) => {
+  const {
+    heading,
+    pitch,
+    roll,
+    headingSource,
+    headingConfidence,
+    compassAccuracy,
+    magneticDisturbance,
+    compassCalibrated,
+    headingOffset,
+    visibleMarkers,
+    setCompassCalibrated,
+    setHeadingOffset,
+  } = useARStore();
+  const [step, setStep] = useState<CalibrationStep>('figure-eight');
+  const [progress, setProgress] = useState(createFigureEightProgress);
+  const [landmarkId, setLandmarkId] = useState('');
+
+  const status = getCompassStatus({
+    headingSource,
+    headingConfidence,
+    compassAccuracy,
+    magneticDisturbance,
+  });
+
+  // Reinicia o progresso a cada abertura
+  useEffect(() => {
+    if (open) {
+      setProgress(createFigureEightProgress());
+    }
+  }, [open]);
+
+  // Registra as orientações percorridas durante o movimento
+  useEffect(() => {
+    if (!open || step !== 'figure-eight') return;
+    setProgress(current =>
+      updateFigureEightProgress(current, { heading, pitch, roll }),
+    );
+  }, [open, step, heading, pitch, roll]);
+
+  // Conclui a calibração quando o movimento foi suficiente e não há interferência
+  const isMotionComplete = progress.progress >= FIGURE_EIGHT_COMPLETE;
+  useEffect(() => {
+    if (isMotionComplete && status !== 'interference' && !compassCalibrated) {
+      setCompassCalibrated(true);
+    }
+  }, [isMotionComplete, status, compassCalibrated, setCompassCalibrated]);
+
+  const landmark = useMemo(
+    () => visibleMarkers.find(marker => marker.id === landmarkId) ?? null,
+    [visibleMarkers, landmarkId],
+  );
+
+  const handleAlign = () => {
+    if (!landmark || heading === null) return;
+    setHeadingOffset(
+      getLandmarkHeadingOffset(headingOffset, heading, landmark.bearing),
+    );
+  };
+
+  const { severity, message } = COMPASS_STATUS_MESSAGES[status];
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Calibrar bússola</DialogTitle>
+
+      <DialogContent
+        sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}
+      >
+        <Alert severity={severity}>
+          {message}
+          {compassAccuracy !== null &&
+            compassAccuracy >= 0 &&
+            ` (±${Math.round(compassAccuracy)}°)`}
+        </Alert>
+
+        <ToggleButtonGroup
+          value={step}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: CalibrationStep | null) =>
+            value && setStep(value)
+          }
+        >
+          <ToggleButton value="figure-eight">Figura 8</ToggleButton>
+          <ToggleButton value="landmark">Referência</ToggleButton>
+        </ToggleButtonGroup>
+
+        {step === 'figure-eight' && (
+          <>
+            <Box
+              sx={{
+                display: 'flex',
+                justifyContent: 'center',
+                py: 3,
+              }}
+            >
+              <ScreenRotationIcon
+                color="primary"
+                sx={{
+                  fontSize: 48,
+                  animation: `${figureEight} 2s ease-in-out infinite`,
+                }}
+              />
+            </Box>
+            <Typography variant="body2" color="text.secondary">
+              Segure o aparelho e desenhe um 8 no ar algumas vezes, girando o
+              pulso em todas as direções.
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={Math.min(
+                100,
+                (progress.progress / FIGURE_EIGHT_COMPLETE) * 100,
+              )}
+              color={compassCalibrated ? 'success' : 'primary'}
+            />
+            {compassCalibrated && (
+              <Typography variant="body2" color="success.main">
+                Bússola calibrada
+              </Typography>
+            )}
+          </>
+        )}
+
+        {step === 'landmark' && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Escolha um marcador que você consegue ver, aponte a câmera
+              diretamente para ele e toque em Alinhar.
+            </Typography>
+            <TextField
+              select
+              label="Marcador de referência"
+              value={landmarkId}
+              onChange={event => setLandmarkId(event.target.value)}
+              disabled={!visibleMarkers.length}
+            >
+              {visibleMarkers.map(marker => (
+                <MenuItem key={marker.id} value={marker.id}>
+                  {marker.properties.name} · {formatDistance(marker.distance)}
+                </MenuItem>
+              ))}
+            </TextField>
+            {landmark && heading !== null && (
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                Azimute do marcador: {Math.round(landmark.bearing)}°{' '}
+                {azimuthToCardinal(landmark.bearing)}
+                <br />
+                Direção atual: {Math.round(heading)}°{' '}
+                {azimuthToCardinal(heading)}
+              </Typography>
+            )}
+            <Typography variant="caption" color="text.secondary">
+              Ajuste atual: {headingOffset > 0 ? '+' : ''}
+              {headingOffset.toFixed(1)}°
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button
+                variant="contained"
+                onClick={handleAlign}
+                disabled={!landmark || heading === null}
+              >
+                Alinhar
+              </Button>
+              <Button
+                onClick={() => setHeadingOffset(0)}
+                disabled={headingOffset === 0}
+              >
+                Zerar ajuste
+              </Button>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Fechar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CompassCalibration;
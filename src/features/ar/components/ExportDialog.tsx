@@ -0,0 +1,175 @@
+// Path: features\ar\components\ExportDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  Box,
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useARStore } from '../stores/arStore';
+import { formatDistance } from '../utils/arjsUtils';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  downloadTextFile,
+  exportMarkers,
+  getExportFileName,
+} from '../utils/markerExport';
+
+interface ExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ExportScope = 'all' | 'selection';
+
+/**
+ * Exporta os marcadores visíveis (ou uma seleção) com distância, azimute e
+ * ângulo vertical calculados a partir da posição atual
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ open, onClose }) => {
+  const { visibleMarkers, coordinates, heading, selectedMarkerId } =
+    useARStore();
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+
+  // Ao abrir, pré-seleciona o marcador selecionado na cena
+  useEffect(() => {
+    if (open) {
+      setSelection(new Set(selectedMarkerId ? [selectedMarkerId] : []));
+    }
+  }, [open, selectedMarkerId]);
+
+  const markersToExport =
+    scope === 'all'
+      ? visibleMarkers
+      : visibleMarkers.filter(marker => selection.has(marker.id));
+
+  const toggleMarker = (id: string) => {
+    setSelection(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const timestamp = new Date();
+    const content = exportMarkers(markersToExport, format, {
+      observer: coordinates,
+      heading,
+      timestamp,
+    });
+    downloadTextFile(
+      content,
+      getExportFileName(format, timestamp),
+      EXPORT_FORMATS[format].mimeType,
+    );
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Exportar marcadores</DialogTitle>
+
+      <DialogContent
+        sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}
+      >
+        <ToggleButtonGroup
+          value={format}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: ExportFormat | null) =>
+            value && setFormat(value)
+          }
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(value => (
+            <ToggleButton key={value} value={value}>
+              {EXPORT_FORMATS[value].label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        <ToggleButtonGroup
+          value={scope}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: ExportScope | null) => value && setScope(value)}
+        >
+          <ToggleButton value="all">
+            Todos visíveis ({visibleMarkers.length})
+          </ToggleButton>
+          <ToggleButton value="selection">
+            Seleção ({selection.size})
+          </ToggleButton>
+        </ToggleButtonGroup>
+
+        {scope === 'selection' && (
+          <Box
+            className="allow-scrollbar"
+            sx={{ maxHeight: '40vh', overflowY: 'auto' }}
+          >
+            <List dense disablePadding>
+              {visibleMarkers.map(marker => (
+                <ListItemButton
+                  key={marker.id}
+                  onClick={() => toggleMarker(marker.id)}
+                >
+                  <ListItemIcon>
+                    <Checkbox
+                      edge="start"
+                      checked={selection.has(marker.id)}
+                      tabIndex={-1}
+                      disableRipple
+                    />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={marker.properties.name}
+                    secondary={`${formatDistance(marker.distance)} · ${Math.round(marker.bearing)}°`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          </Box>
+        )}
+
+        <Typography variant="caption" color="text.secondary">
+          Inclui a posição do observador, a direção atual e o horário da
+          exportação.
+        </Typography>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          startIcon={<DownloadIcon />}
+          onClick={handleExport}
+          disabled={!markersToExport.length}
+        >
+          Exportar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,248 @@
+// Path: features\ar\components\FieldOfViewCalibration.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+  alpha,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { useARStore } from '../stores/arStore';
+import {
+  CameraTrackInfo,
+  ScreenFieldOfView,
+  getAngularSeparation,
+  getCameraFieldOfView,
+  getFieldOfViewFromFocalLength,
+  solveFocalLength,
+} from '../utils/fieldOfView';
+
+interface FieldOfViewCalibrationProps {
+  open: boolean;
+  onClose: () => void;
+  track: CameraTrackInfo | null;
+  calibrationKey: string;
+  isCalibrated: boolean;
+  fieldOfView: ScreenFieldOfView;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+}
+
+interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+// Separação angular mínima entre os marcadores para uma boa estimativa
+const MIN_SEPARATION = 10;
+
+/**
+ * Calibração do campo de visão: o usuário escolhe dois marcadores conhecidos
+ * e toca onde cada um aparece na imagem da câmera
+ */
+const FieldOfViewCalibration: React.FC<FieldOfViewCalibrationProps> = ({
+  open,
+  onClose,
+  track,
+  calibrationKey,
+  isCalibrated,
+  fieldOfView,
+  dimensions,
+}) => {
+  const { visibleMarkers, setFieldOfViewCalibration } = useARStore();
+  const [firstId, setFirstId] = useState('');
+  const [secondId, setSecondId] = useState('');
+  const [points, setPoints] = useState<ScreenPoint[]>([]);
+
+  // Reinicia a calibração a cada abertura
+  useEffect(() => {
+    if (open) {
+      setPoints([]);
+    }
+  }, [open]);
+
+  const first = visibleMarkers.find(marker => marker.id === firstId) ?? null;
+  const second = visibleMarkers.find(marker => marker.id === secondId) ?? null;
+
+  const separation =
+    first && second
+      ? getAngularSeparation(
+          { bearing: first.bearing, verticalAngle: first.verticalAngle ?? 0 },
+          { bearing: second.bearing, verticalAngle: second.verticalAngle ?? 0 },
+        )
+      : null;
+  const isReady = separation !== null && separation >= MIN_SEPARATION;
+
+  // Resolve a distância focal quando os dois pontos foram marcados
+  const result = useMemo(() => {
+    if (points.length < 2 || separation === null) return null;
+    const focal = solveFocalLength(
+      points[0],
+      points[1],
+      separation,
+      dimensions.width,
+      dimensions.height,
+    );
+    return focal
+      ? getFieldOfViewFromFocalLength(
+          focal,
+          dimensions.width,
+          dimensions.height,
+        )
+      : null;
+  }, [points, separation, dimensions.width, dimensions.height]);
+
+  const handleTap = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!isReady || points.length >= 2) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setPoints(current => [
+      ...current,
+      { x: event.clientX - bounds.left, y: event.clientY - bounds.top },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    setFieldOfViewCalibration(
+      calibrationKey,
+      getCameraFieldOfView(result, track, dimensions.width, dimensions.height),
+    );
+    onClose();
+  };
+
+  const handleReset = () => {
+    setFieldOfViewCalibration(calibrationKey, null);
+    onClose();
+  };
+
+  if (!open) return null;
+
+  const instruction = !isReady
+    ? `Escolha dois marcadores visíveis separados por pelo menos ${MIN_SEPARATION}°`
+    : points.length === 0
+      ? `Toque onde você vê ${first?.properties.name}`
+      : points.length === 1
+        ? `Toque onde você vê ${second?.properties.name}`
+        : null;
+
+  return (
+    <Box
+      onClick={handleTap}
+      sx={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 30,
+        cursor: isReady && points.length < 2 ? 'crosshair' : 'default',
+      }}
+    >
+      {/* Pontos marcados pelo usuário */}
+      {points.map((point, index) => (
+        <Box
+          key={index}
+          sx={{
+            position: 'absolute',
+            left: point.x,
+            top: point.y,
+            transform: 'translate(-50%, -50%)',
+            color: 'warning.main',
+            display: 'flex',
+            pointerEvents: 'none',
+          }}
+        >
+          <AddIcon sx={{ fontSize: 40 }} />
+        </Box>
+      ))}
+
+      <Paper
+        onClick={event => event.stopPropagation()}
+        sx={{
+          position: 'absolute',
+          top: 16,
+          left: 16,
+          right: 16,
+          p: 2,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1.5,
+          backgroundColor: theme => alpha(theme.palette.background.paper, 0.85),
+          backdropFilter: 'blur(4px)',
+        }}
+      >
+        <Typography variant="subtitle1">Calibrar campo de visão</Typography>
+
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {[
+            { label: 'Marcador 1', value: firstId, onChange: setFirstId },
+            { label: 'Marcador 2', value: secondId, onChange: setSecondId },
+          ].map(({ label, value, onChange }) => (
+            <TextField
+              key={label}
+              select
+              size="small"
+              fullWidth
+              label={label}
+              value={value}
+              onChange={event => {
+                onChange(event.target.value);
+                setPoints([]);
+              }}
+            >
+              {visibleMarkers.map(marker => (
+                <MenuItem key={marker.id} value={marker.id}>
+                  {marker.properties.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          ))}
+        </Box>
+
+        {separation !== null && (
+          <Typography variant="caption" color="text.secondary">
+            Separação entre os marcadores: {separation.toFixed(1)}°
+          </Typography>
+        )}
+
+        {instruction && <Alert severity="info">{instruction}</Alert>}
+
+        {points.length === 2 && !result && (
+          <Alert severity="error">
+            Não foi possível calcular o campo de visão. Marque os pontos
+            novamente.
+          </Alert>
+        )}
+
+        <Typography
+          variant="body2"
+          sx={{ fontFamily: 'monospace', whiteSpace: 'pre-line' }}
+        >
+          Atual: {fieldOfView.horizontal.toFixed(1)}° ×{' '}
+          {fieldOfView.vertical.toFixed(1)}°
+          {isCalibrated ? ' (calibrado)' : ' (estimado)'}
+          {result &&
+            `\nNovo: ${result.horizontal.toFixed(1)}° × ${result.vertical.toFixed(1)}°`}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button variant="contained" onClick={handleSave} disabled={!result}>
+            Salvar
+          </Button>
+          <Button onClick={() => setPoints([])} disabled={!points.length}>
+            Refazer
+          </Button>
+          <Button onClick={handleReset} disabled={!isCalibrated}>
+            Restaurar padrão
+          </Button>
+          <Button onClick={onClose}>Fechar</Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default FieldOfViewCalibration;
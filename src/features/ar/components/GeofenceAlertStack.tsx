@@ -0,0 +1,110 @@
+// Path: features\ar\components\GeofenceAlertStack.tsx
+import React, { useEffect } from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import PlaceIcon from '@mui/icons-material/Place';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import ExitToAppIcon from '@mui/icons-material/ExitToApp';
+import { useARStore } from '../stores/arStore';
+import { formatDistance } from '../utils/arjsUtils';
+import {
+  GeofenceEvent,
+  GeofenceEventType,
+  describeGeofenceEvent,
+} from '../utils/geofences';
+
+// Tempo de exibição de cada alerta (ms)
+const ALERT_DURATION = 8000;
+
+// Aparência de cada tipo de evento
+const EVENT_STYLES: Record<
+  GeofenceEventType,
+  { severity: 'success' | 'info' | 'warning'; icon: React.ReactNode }
+> = {
+  enter: { severity: 'success', icon: <PlaceIcon /> },
+  dwell: { severity: 'info', icon: <AccessTimeIcon /> },
+  exit: { severity: 'warning', icon: <ExitToAppIcon /> },
+};
+
+/**
+ * Alerta de um evento de proximidade, removido após ALERT_DURATION
+ */
+const GeofenceAlert: React.FC<{ event: GeofenceEvent }> = ({ event }) => {
+  const { visibleMarkers, selectMarker, dismissGeofenceAlert } = useARStore();
+  const canSelect =
+    event.type !== 'exit' &&
+    visibleMarkers.some(marker => marker.id === event.markerId);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => dismissGeofenceAlert(event.id),
+      ALERT_DURATION,
+    );
+    return () => clearTimeout(timeout);
+  }, [event.id, dismissGeofenceAlert]);
+
+  return (
+    <Alert
+      variant="filled"
+      severity={EVENT_STYLES[event.type].severity}
+      icon={EVENT_STYLES[event.type].icon}
+      onClose={() => dismissGeofenceAlert(event.id)}
+      action={
+        canSelect ? (
+          <Button
+            color="inherit"
+            size="small"
+            onClick={() => {
+              selectMarker(event.markerId);
+              dismissGeofenceAlert(event.id);
+            }}
+          >
+            Ver
+          </Button>
+        ) : undefined
+      }
+      sx={{ boxShadow: 3, pointerEvents: 'auto' }}
+    >
+      <Typography variant="body2" fontWeight="bold">
+        {describeGeofenceEvent(event)}
+      </Typography>
+      <Typography variant="caption" sx={{ opacity: 0.85 }}>
+        {new Date(event.timestamp).toLocaleTimeString()} · a{' '}
+        {formatDistance(event.distance)}
+      </Typography>
+    </Alert>
+  );
+};
+
+/**
+ * Pilha de alertas de entrada, permanência e saída dos raios de ativação
+ * dos marcadores, do mais recente para o mais antigo
+ */
+const GeofenceAlertStack: React.FC = () => {
+  const { geofenceAlerts } = useARStore();
+
+  if (!geofenceAlerts.length) return null;
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        top: 96,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: 360,
+        maxWidth: 'calc(100% - 32px)',
+        zIndex: 25,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1,
+        pointerEvents: 'none',
+      }}
+    >
+      {geofenceAlerts.map(event => (
+        <GeofenceAlert key={event.id} event={event} />
+      ))}
+    </Box>
+  );
+};
+
+export default GeofenceAlertStack;
@@ -0,0 +1,150 @@
+// Path: features\ar\components\GeofenceLogDialog.tsx
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  FormControlLabel,
+  Switch,
+  Typography,
+  Alert,
+} from '@mui/material';
+import PlaceIcon from '@mui/icons-material/Place';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import ExitToAppIcon from '@mui/icons-material/ExitToApp';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import { useARStore } from '../stores/arStore';
+import { formatDistance } from '../utils/arjsUtils';
+import {
+  CATEGORY_TRIGGER_RADII,
+  GeofenceEventType,
+  describeGeofenceEvent,
+} from '../utils/geofences';
+
+interface GeofenceLogDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Ícone de cada tipo de evento
+const EVENT_ICONS: Record<GeofenceEventType, React.ReactNode> = {
+  enter: <PlaceIcon color="success" />,
+  dwell: <AccessTimeIcon color="info" />,
+  exit: <ExitToAppIcon color="warning" />,
+};
+
+/**
+ * Diálogo com o histórico dos eventos de proximidade e a opção de
+ * notificações do sistema
+ */
+const GeofenceLogDialog: React.FC<GeofenceLogDialogProps> = ({
+  open,
+  onClose,
+}) => {
+  const {
+    geofenceLog,
+    geofenceNotifications,
+    clearGeofenceLog,
+    setGeofenceNotifications,
+  } = useARStore();
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const handleNotificationsChange = async (enabled: boolean) => {
+    setPermissionError(null);
+    if (!enabled) {
+      setGeofenceNotifications(false);
+      return;
+    }
+    if (!('Notification' in window)) {
+      setPermissionError('Este navegador não oferece notificações');
+      return;
+    }
+    const permission = await Notification.requestPermission();
+    if (permission === 'granted') {
+      setGeofenceNotifications(true);
+    } else {
+      setPermissionError(
+        'Permissão de notificações negada. Libere nas configurações do navegador.',
+      );
+    }
+  };
+
+  const categoryDefaults = Object.entries(CATEGORY_TRIGGER_RADII)
+    .map(([category, radius]) => `${category} ${radius} m`)
+    .join(', ');
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Alertas de proximidade</DialogTitle>
+
+      <DialogContent
+        sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}
+      >
+        <Typography variant="body2" color="text.secondary">
+          Os alertas usam a propriedade <code>triggerRadius</code> (metros) de
+          cada marcador ou o raio padrão da categoria ({categoryDefaults}).
+        </Typography>
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={geofenceNotifications}
+              onChange={event =>
+                handleNotificationsChange(event.target.checked)
+              }
+            />
+          }
+          label="Notificações do sistema"
+        />
+        {permissionError && <Alert severity="warning">{permissionError}</Alert>}
+
+        {geofenceLog.length ? (
+          <Box
+            className="allow-scrollbar"
+            sx={{ maxHeight: '45vh', overflowY: 'auto' }}
+          >
+            <List dense disablePadding>
+              {geofenceLog.map(event => (
+                <ListItem key={event.id} disableGutters>
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    {EVENT_ICONS[event.type]}
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={describeGeofenceEvent(event)}
+                    primaryTypographyProps={{ noWrap: true }}
+                    secondary={`${new Date(event.timestamp).toLocaleString()} · a ${formatDistance(event.distance)}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Nenhum evento registrado.
+          </Typography>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          color="error"
+          startIcon={<DeleteSweepIcon />}
+          onClick={clearGeofenceLog}
+          disabled={!geofenceLog.length}
+        >
+          Limpar histórico
+        </Button>
+        <Button onClick={onClose}>Fechar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default GeofenceLogDialog;
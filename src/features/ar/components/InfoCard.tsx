@@ -28,18 +28,35 @@ import LocationOnIcon from '@mui/icons-material/LocationOn';
 import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import MapIcon from '@mui/icons-material/Map';
+import ViewInArIcon from '@mui/icons-material/ViewInAr';
+import NearMeIcon from '@mui/icons-material/NearMe';
+import NearMeDisabledIcon from '@mui/icons-material/NearMeDisabled';
+import DirectionsWalkIcon from '@mui/icons-material/DirectionsWalk';
+import WrongLocationIcon from '@mui/icons-material/WrongLocation';
 import { MarkerWithDistance } from '../schemas/markerSchema';
 import { useARStore } from '../stores/arStore';
 import {
   formatDistance,
   azimuthToCardinal,
   formatAltitude,
+  formatNearestPart,
+  getGeometryVertices,
 } from '../utils/arjsUtils';
 
 interface InfoCardProps {
   marker: MarkerWithDistance;
   orientation: 'portrait' | 'landscape';
   isTablet: boolean;
+  // Alterna entre o mapa 2D e a visualização AR mantendo a seleção
+  viewSwitch?: {
+    target: 'map' | 'ar';
+    onSwitch: () => void;
+  };
+  // Oferece a opção de fechar e seguir as setas até o marcador
+  canLocate?: boolean;
+  // Oferece a navegação até o marcador no HUD compacto
+  canNavigate?: boolean;
 }
 
 // Traduções de categorias
@@ -53,6 +70,12 @@ const CATEGORY_TRANSLATIONS: Record<string, string> = {
   transporte: 'Transporte',
 };
 
+// Tipos de geometria
+const GEOMETRY_LABELS: Record<string, string> = {
+  LineString: 'Linha',
+  Polygon: 'Polígono',
+};
+
 // Mapeamento de cores para categorias (mesmo usado no ARMarkerOverlay)
 const CATEGORY_COLORS: Record<string, string> = {
   restaurante: '#FF5722', // Laranja
@@ -72,14 +95,27 @@ const InfoCard: React.FC<InfoCardProps> = ({
   marker,
   orientation: _orientation,
   isTablet,
+  viewSwitch,
+  canLocate = false,
+  canNavigate = false,
 }) => {
   const theme = useTheme();
-  const { selectMarker, coordinates } = useARStore();
+  const {
+    selectMarker,
+    locateMarker,
+    locatedMarkerId,
+    navigationTarget,
+    startNavigation,
+    cancelNavigation,
+    coordinates,
+  } = useARStore();
+  const isLocated = locatedMarkerId === marker.id;
+  const isNavigating = navigationTarget?.markerId === marker.id;
 
   // Extrai dados do marcador
   const { name, category, description } = marker.properties;
-  // Access altitude directly without destructuring unused lng/lat
-  const altitude = marker.geometry.coordinates[2] || 0;
+  // Altitude do ponto usado no cálculo (mais próximo, em linhas e polígonos)
+  const altitude = marker.anchor[2] || 0;
   const distance = formatDistance(marker.distance);
   const azimuth = Math.round(marker.bearing);
   const cardinalDirection = azimuthToCardinal(marker.bearing);
@@ -203,6 +239,19 @@ const InfoCard: React.FC<InfoCardProps> = ({
               {categoryLabel}
             </Typography>
           </Box>
+
+          {viewSwitch && (
+            <IconButton
+              edge="end"
+              color="inherit"
+              onClick={viewSwitch.onSwitch}
+              aria-label={
+                viewSwitch.target === 'map' ? 'Ver no mapa' : 'Ver em AR'
+              }
+            >
+              {viewSwitch.target === 'map' ? <MapIcon /> : <ViewInArIcon />}
+            </IconButton>
+          )}
         </Toolbar>
       </AppBar>
 
@@ -447,6 +496,29 @@ const InfoCard: React.FC<InfoCardProps> = ({
               </Typography>
             </Box>
 
+            {marker.geometry.type !== 'Point' && (
+              <Box
+                sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}
+              >
+                <Typography variant="body1">Geometria:</Typography>
+                <Typography variant="body1" fontWeight="medium">
+                  {GEOMETRY_LABELS[marker.geometry.type]} (
+                  {getGeometryVertices(marker.geometry).length} vértices)
+                </Typography>
+              </Box>
+            )}
+
+            {marker.nearest && (
+              <Box
+                sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}
+              >
+                <Typography variant="body1">Ponto mais próximo:</Typography>
+                <Typography variant="body1" fontWeight="medium">
+                  {formatNearestPart(marker.nearest)}
+                </Typography>
+              </Box>
+            )}
+
             {marker.verticalAngle !== undefined && (
               <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                 <Typography variant="body1">Ângulo vertical:</Typography>
@@ -459,15 +531,57 @@ const InfoCard: React.FC<InfoCardProps> = ({
         </Card>
       </Box>
 
-      {/* Botão de fechar fixo na parte inferior */}
+      {/* Botões de navegar, localizar e fechar fixos na parte inferior */}
       <Box
         sx={{
+          display: 'flex',
+          gap: 1.5,
           p: 2,
           borderTop: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
           backgroundColor: alpha(theme.palette.background.paper, 0.8),
           backdropFilter: 'blur(10px)',
         }}
       >
+        {canNavigate && (
+          <Button
+            variant="outlined"
+            onClick={() =>
+              isNavigating ? cancelNavigation() : startNavigation(marker)
+            }
+            fullWidth
+            size="large"
+            startIcon={
+              isNavigating ? <WrongLocationIcon /> : <DirectionsWalkIcon />
+            }
+            sx={{
+              py: 1.5,
+              fontSize: '1rem',
+              color: categoryColor,
+              borderColor: categoryColor,
+              borderRadius: 2,
+            }}
+          >
+            {isNavigating ? 'Encerrar' : 'Navegar'}
+          </Button>
+        )}
+        {canLocate && (
+          <Button
+            variant="outlined"
+            onClick={() => locateMarker(isLocated ? null : marker.id)}
+            fullWidth
+            size="large"
+            startIcon={isLocated ? <NearMeDisabledIcon /> : <NearMeIcon />}
+            sx={{
+              py: 1.5,
+              fontSize: '1rem',
+              color: categoryColor,
+              borderColor: categoryColor,
+              borderRadius: 2,
+            }}
+          >
+            {isLocated ? 'Parar' : 'Localizar'}
+          </Button>
+        )}
         <Button
           variant="contained"
           onClick={handleClose}
@@ -0,0 +1,222 @@
+// Path: features\ar\components\LocationQualityIndicator.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Collapse,
+  ToggleButton,
+  ToggleButtonGroup,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import GpsFixedIcon from '@mui/icons-material/GpsFixed';
+import GpsNotFixedIcon from '@mui/icons-material/GpsNotFixed';
+import GpsOffIcon from '@mui/icons-material/GpsOff';
+import ExploreIcon from '@mui/icons-material/Explore';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { useARStore } from '../stores/arStore';
+import { HeadingSource } from '../utils/orientation';
+import { PositionFilterMode } from '../utils/positionFilter';
+import {
+  LocationQualityLevel,
+  LocationWarning,
+  formatFixAge,
+  getLocationQuality,
+} from '../utils/locationQuality';
+import { formatDistance } from '../utils/arjsUtils';
+
+// Mensagens para cada aviso de qualidade
+const WARNING_MESSAGES: Record<LocationWarning, string> = {
+  'no-fix': 'Aguardando posição do GPS',
+  'stale-fix': 'GPS sem novas leituras',
+  'low-accuracy': 'Precisão do GPS baixa',
+  'accuracy-exceeds-nearest':
+    'Precisão pior que a distância ao marcador mais próximo',
+  'no-altitude': 'Altitude indisponível; ângulos verticais aproximados',
+  'no-heading': 'Aguardando a bússola',
+  'relative-heading': 'Direção sem referência ao norte',
+  'low-heading-confidence': 'Direção pouco confiável',
+};
+
+const HEADING_SOURCE_LABELS: Record<HeadingSource, string> = {
+  webkit: 'bússola (iOS)',
+  absolute: 'bússola',
+  relative: 'giroscópio (relativa)',
+};
+
+const FILTER_MODE_LABELS: Record<PositionFilterMode, string> = {
+  off: 'Sem filtro',
+  smoothing: 'Suavizar',
+  kalman: 'Kalman',
+};
+
+const LEVEL_ICONS: Record<LocationQualityLevel, typeof GpsFixedIcon> = {
+  good: GpsFixedIcon,
+  fair: GpsNotFixedIcon,
+  poor: GpsNotFixedIcon,
+  none: GpsOffIcon,
+};
+
+/**
+ * Indicador de qualidade da localização: precisão horizontal, altitude,
+ * idade da leitura e origem/confiança da direção, com avisos quando a
+ * visualização AR não é confiável. O toque mostra os detalhes
+ */
+const LocationQualityIndicator: React.FC = () => {
+  const theme = useTheme();
+  const {
+    coordinates,
+    rawCoordinates,
+    lastFixTime,
+    speed,
+    isStationary,
+    headingSource,
+    headingConfidence,
+    visibleMarkers,
+    positionFilterMode,
+    setPositionFilterMode,
+  } = useARStore();
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(Date.now);
+
+  // Atualiza a idade da leitura a cada segundo
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const fixAge = lastFixTime === null ? null : Math.max(0, now - lastFixTime);
+  const nearestMarkerDistance = visibleMarkers.length
+    ? Math.min(...visibleMarkers.map(marker => marker.distance))
+    : null;
+
+  const { level, warnings } = getLocationQuality({
+    accuracy: coordinates.accuracy,
+    fixAge,
+    altitudeAvailable: rawCoordinates.altitude !== null,
+    nearestMarkerDistance,
+    headingSource,
+    headingConfidence,
+  });
+
+  const levelColor = {
+    good: theme.palette.success.main,
+    fair: theme.palette.warning.main,
+    poor: theme.palette.error.main,
+    none: theme.palette.text.disabled,
+  }[level];
+  const LevelIcon = LEVEL_ICONS[level];
+
+  return (
+    <Box
+      onClick={() => setExpanded(!expanded)}
+      sx={{
+        cursor: 'pointer',
+        backgroundColor: alpha(theme.palette.background.paper, 0.7),
+        borderRadius: 2,
+        padding: theme.spacing(1),
+        backdropFilter: 'blur(4px)',
+        border: `1px solid ${level === 'good' ? 'rgba(255,255,255,0.1)' : levelColor}`,
+        boxShadow: 2,
+        maxWidth: 240,
+      }}
+    >
+      {/* Resumo: precisão e confiança da direção */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ display: 'flex', color: levelColor }}>
+          <LevelIcon sx={{ fontSize: 18 }} />
+        </Box>
+        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+          {coordinates.accuracy !== null
+            ? `±${formatDistance(coordinates.accuracy)}`
+            : '--'}
+        </Typography>
+        <ExploreIcon sx={{ fontSize: 16, opacity: 0.7 }} />
+        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+          {headingSource ? `${Math.round(headingConfidence * 100)}%` : '--'}
+        </Typography>
+        {warnings.length > 0 && (
+          <WarningAmberIcon sx={{ fontSize: 16, color: levelColor }} />
+        )}
+      </Box>
+
+      <Collapse in={expanded}>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, mt: 1 }}>
+          <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+            Precisão:{' '}
+            {coordinates.accuracy !== null
+              ? `±${formatDistance(coordinates.accuracy)}`
+              : '--'}
+            {rawCoordinates.accuracy !== null &&
+              positionFilterMode !== 'off' &&
+              ` (GPS ±${formatDistance(rawCoordinates.accuracy)})`}
+          </Typography>
+          <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+            Altitude:{' '}
+            {rawCoordinates.altitude !== null
+              ? `${Math.round(rawCoordinates.altitude)}m`
+              : 'indisponível'}
+          </Typography>
+          <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+            Leitura: {fixAge !== null ? formatFixAge(fixAge) : '--'}
+          </Typography>
+          {speed !== null && (
+            <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+              Velocidade: {isStationary ? 'parado' : `${speed.toFixed(1)} m/s`}
+            </Typography>
+          )}
+          <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+            Direção:{' '}
+            {headingSource
+              ? `${HEADING_SOURCE_LABELS[headingSource]} · ${Math.round(headingConfidence * 100)}%`
+              : '--'}
+          </Typography>
+
+          {/* Avisos */}
+          {warnings.map(warning => (
+            <Typography
+              key={warning}
+              variant="caption"
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 0.5,
+                color: theme.palette.warning.main,
+              }}
+            >
+              <WarningAmberIcon sx={{ fontSize: 14 }} />
+              {WARNING_MESSAGES[warning]}
+            </Typography>
+          ))}
+
+          {/* Modelo do filtro de posição */}
+          <ToggleButtonGroup
+            value={positionFilterMode}
+            exclusive
+            size="small"
+            fullWidth
+            onClick={event => event.stopPropagation()}
+            onChange={(_, value: PositionFilterMode | null) =>
+              value && setPositionFilterMode(value)
+            }
+            sx={{ mt: 0.5 }}
+          >
+            {(Object.keys(FILTER_MODE_LABELS) as PositionFilterMode[]).map(
+              mode => (
+                <ToggleButton
+                  key={mode}
+                  value={mode}
+                  sx={{ py: 0.25, fontSize: '0.65rem' }}
+                >
+                  {FILTER_MODE_LABELS[mode]}
+                </ToggleButton>
+              ),
+            )}
+          </ToggleButtonGroup>
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default LocationQualityIndicator;
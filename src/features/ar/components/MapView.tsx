@@ -0,0 +1,685 @@
+// Path: features\ar\components\MapView.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Fab, Typography, Theme, useTheme, alpha } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import RemoveIcon from '@mui/icons-material/Remove';
+import MyLocationIcon from '@mui/icons-material/MyLocation';
+import ViewInArIcon from '@mui/icons-material/ViewInAr';
+import NavigationIcon from '@mui/icons-material/Navigation';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useARStore } from '../stores/arStore';
+import { Marker } from '../schemas/markerSchema';
+import InfoCard from './InfoCard';
+import LocationQualityIndicator from './LocationQualityIndicator';
+import NavigationHUD from './NavigationHUD';
+import GeofenceAlertStack from './GeofenceAlertStack';
+import { useScreenOrientation } from '../hooks/useScreenOrientation';
+import { useSensors } from '../hooks/useSensors';
+import { useInitialMarkers } from '../hooks/useInitialMarkers';
+import { useNavigationGuidance } from '../hooks/useNavigationGuidance';
+import { formatDistance, getGeometryVertices } from '../utils/arjsUtils';
+import { getTriggerRadius } from '../utils/geofences';
+import { queryRadius } from '../utils/spatialIndex';
+import {
+  estimateCameraFieldOfView,
+  getScreenFieldOfView,
+} from '../utils/fieldOfView';
+import {
+  DEFAULT_METERS_PER_PIXEL,
+  MapSize,
+  MapViewport,
+  fitViewport,
+  getScaleBar,
+  panViewport,
+  projectToMap,
+  zoomViewport,
+} from '../utils/mapProjection';
+
+/**
+ * Estado da navegação para o mapa: rota de volta para a visualização AR
+ * e se ela está em modo de simulação (sem GPS real)
+ */
+export interface MapRouteState {
+  returnTo: string;
+  simulation: boolean;
+}
+
+// Mapeamento de cores para categorias (mesmo usado no ARMarkerOverlay)
+const CATEGORY_COLORS: Record<string, string> = {
+  restaurante: '#FF5722', // Laranja
+  cafeteria: '#795548', // Marrom
+  loja: '#2196F3', // Azul
+  atracao: '#9C27B0', // Roxo
+  teatro: '#E91E63', // Rosa
+  servico: '#00BCD4', // Ciano
+  transporte: '#3F51B5', // Índigo
+  default: '#4CAF50', // Verde
+};
+
+const ACTION_FAB_SX = {
+  color: 'white',
+  backgroundColor: (theme: Theme) => alpha(theme.palette.background.paper, 0.7),
+  backdropFilter: 'blur(4px)',
+};
+
+// Fator de aproximação dos botões e da roda do mouse
+const ZOOM_STEP = 2;
+const WHEEL_ZOOM_STEP = 1.2;
+// Comprimento do cone de direção (pixels)
+const HEADING_CONE_LENGTH = 90;
+// Nomes dos pontos aparecem a partir desta escala (metros por pixel)
+const LABEL_MAX_METERS_PER_PIXEL = 2;
+// Deslocamento mínimo (pixels) para um toque virar arraste
+const DRAG_THRESHOLD = 6;
+// Acima deste raio da área exibida (metros), percorrer todos os marcadores
+// é mais barato que consultar o índice espacial
+const MAX_INDEXED_VIEW_RADIUS = 20000;
+
+type Point = { x: number; y: number };
+
+/**
+ * SVG path of a circular sector centered at `center`, pointing at `bearing`
+ * (degrees clockwise from north) with the given angular width
+ */
+function getSectorPath(
+  center: Point,
+  radius: number,
+  bearing: number,
+  width: number,
+): string {
+  const pointAt = (angle: number) => {
+    const radians = (angle * Math.PI) / 180;
+    return {
+      x: center.x + radius * Math.sin(radians),
+      y: center.y - radius * Math.cos(radians),
+    };
+  };
+  const start = pointAt(bearing - width / 2);
+  const end = pointAt(bearing + width / 2);
+  const largeArc = width > 180 ? 1 : 0;
+  return `M ${center.x} ${center.y} L ${start.x} ${start.y} A ${radius} ${radius} 0 ${largeArc} 1 ${end.x} ${end.y} Z`;
+}
+
+/**
+ * Mapa 2D (vetorial, sem camadas da internet) com os mesmos marcadores da
+ * visualização AR, a posição do usuário com o círculo de precisão e o cone
+ * de direção com o campo de visão da câmera
+ */
+const MapView: React.FC = () => {
+  const theme = useTheme();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { returnTo = '/', simulation = false } =
+    (location.state as MapRouteState | null) ?? {};
+  const { orientation, dimensions } = useScreenOrientation();
+  const {
+    coordinates,
+    heading,
+    arFieldOfView,
+    allMarkers,
+    markerIndex,
+    visibleMarkers,
+    selectedMarkerId,
+    selectMarker,
+  } = useARStore();
+
+  const [locationEnabled, setLocationEnabled] = useState(false);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  // O mapa acompanha o usuário até ser arrastado
+  const [following, setFollowing] = useState(selectedMarkerId === null);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const draggedRef = useRef(false);
+
+  // Apenas GPS e orientação; na simulação as leituras vêm da visualização AR
+  const { requestLocationPermission } = useSensors({
+    enabled: locationEnabled,
+    simulation,
+    replaying: false,
+  });
+
+  useInitialMarkers();
+
+  const navigationGuidance = useNavigationGuidance();
+
+  useEffect(() => {
+    if (simulation) return;
+    requestLocationPermission().then(setLocationEnabled);
+  }, []);
+
+  const size: MapSize = dimensions;
+  const hasLocation =
+    coordinates.latitude !== null && coordinates.longitude !== null;
+
+  // Centraliza no usuário enquanto o acompanhamento estiver ativo
+  useEffect(() => {
+    if (!following || !hasLocation) return;
+    setViewport(current => ({
+      latitude: coordinates.latitude!,
+      longitude: coordinates.longitude!,
+      metersPerPixel: current?.metersPerPixel ?? DEFAULT_METERS_PER_PIXEL,
+    }));
+  }, [following, hasLocation, coordinates.latitude, coordinates.longitude]);
+
+  // Vindo da visualização AR com um marcador selecionado, centraliza nele;
+  // sem posição do usuário, enquadra todos os marcadores
+  useEffect(() => {
+    if (viewport) return;
+    const selected = allMarkers.find(marker => marker.id === selectedMarkerId);
+    if (selected) {
+      const [longitude, latitude] = getGeometryVertices(selected.geometry)[0];
+      setViewport({
+        latitude,
+        longitude,
+        metersPerPixel: DEFAULT_METERS_PER_PIXEL,
+      });
+    } else if (!hasLocation) {
+      setViewport(
+        fitViewport(
+          allMarkers.flatMap(marker => getGeometryVertices(marker.geometry)),
+          size,
+        ),
+      );
+    }
+  }, [viewport, allMarkers, hasLocation]);
+
+  const fieldOfView =
+    arFieldOfView ??
+    getScreenFieldOfView(
+      estimateCameraFieldOfView(null),
+      null,
+      size.width,
+      size.height,
+    );
+
+  const selectedMarker = selectedMarkerId
+    ? visibleMarkers.find(marker => marker.id === selectedMarkerId)
+    : null;
+
+  // Projeção das geometrias na tela
+  // Com o índice espacial, apenas as que estão na área exibida
+  const projectedMarkers = useMemo(() => {
+    if (!viewport) return [];
+    const viewRadius =
+      (Math.hypot(size.width, size.height) / 2) * viewport.metersPerPixel;
+    const markers =
+      markerIndex && viewRadius <= MAX_INDEXED_VIEW_RADIUS
+        ? queryRadius(
+            markerIndex,
+            viewport.latitude,
+            viewport.longitude,
+            viewRadius,
+          )
+        : allMarkers;
+    return markers.map(marker => ({
+      marker,
+      points: getGeometryVertices(marker.geometry).map(position =>
+        projectToMap(position, viewport, size),
+      ),
+    }));
+  }, [allMarkers, markerIndex, viewport, size.width, size.height]);
+
+  const userPoint =
+    viewport && hasLocation
+      ? projectToMap(
+          [coordinates.longitude!, coordinates.latitude!, 0],
+          viewport,
+          size,
+        )
+      : null;
+
+  const scaleBar = viewport ? getScaleBar(viewport.metersPerPixel) : null;
+
+  // Acompanhando o usuário, a aproximação mantém o usuário no centro
+  const zoomAt = (factor: number, anchor: Point) => {
+    const center = { x: size.width / 2, y: size.height / 2 };
+    setViewport(current =>
+      current
+        ? zoomViewport(current, factor, following ? center : anchor, size)
+        : current,
+    );
+  };
+
+  const zoomAtCenter = (factor: number) =>
+    zoomAt(factor, { x: size.width / 2, y: size.height / 2 });
+
+  const toLocalPoint = (event: React.PointerEvent | React.WheelEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return {
+      x: event.clientX - (rect?.left ?? 0),
+      y: event.clientY - (rect?.top ?? 0),
+    };
+  };
+
+  // Arraste com um dedo e pinça com dois
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    pointersRef.current.set(event.pointerId, toLocalPoint(event));
+    if (pointersRef.current.size === 1) draggedRef.current = false;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+    const point = toLocalPoint(event);
+
+    if (pointers.size === 1) {
+      const dx = point.x - previous.x;
+      const dy = point.y - previous.y;
+      if (!draggedRef.current && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      if (!draggedRef.current) {
+        draggedRef.current = true;
+        svgRef.current?.setPointerCapture(event.pointerId);
+      }
+      pointers.set(event.pointerId, point);
+      setFollowing(false);
+      setViewport(current =>
+        current ? panViewport(current, dx, dy) : current,
+      );
+      return;
+    }
+
+    if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(
+        ([id]) => id !== event.pointerId,
+      )![1];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(point.x - other.x, point.y - other.y);
+      pointers.set(event.pointerId, point);
+      draggedRef.current = true;
+      if (before > 0) {
+        zoomAt(after / before, {
+          x: (point.x + other.x) / 2,
+          y: (point.y + other.y) / 2,
+        });
+      }
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    pointersRef.current.delete(event.pointerId);
+  };
+
+  const handleWheel = (event: React.WheelEvent<SVGSVGElement>) => {
+    zoomAt(
+      event.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP,
+      toLocalPoint(event),
+    );
+  };
+
+  const handleMarkerClick = (marker: Marker) => {
+    // Ignora o toque que encerra um arraste
+    if (draggedRef.current) return;
+    selectMarker(marker.id);
+  };
+
+  const recenter = () => {
+    setFollowing(true);
+  };
+
+  const switchToAR = () => navigate(returnTo);
+
+  const showLabels =
+    viewport !== null && viewport.metersPerPixel <= LABEL_MAX_METERS_PER_PIXEL;
+
+  return (
+    <Box
+      sx={{
+        position: 'fixed',
+        inset: 0,
+        overflow: 'hidden',
+        backgroundColor: theme.palette.background.paper,
+        touchAction: 'none',
+        userSelect: 'none',
+      }}
+    >
+      <svg
+        ref={svgRef}
+        width={size.width}
+        height={size.height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+        style={{ display: 'block' }}
+      >
+        {/* Anéis de distância ao redor do usuário */}
+        {userPoint &&
+          scaleBar &&
+          [1, 2, 3, 4].map(ring => (
+            <g key={ring}>
+              <circle
+                cx={userPoint.x}
+                cy={userPoint.y}
+                r={scaleBar.width * ring}
+                fill="none"
+                stroke={alpha(theme.palette.text.primary, 0.12)}
+                strokeDasharray="4 6"
+              />
+              <text
+                x={userPoint.x + 4}
+                y={userPoint.y - scaleBar.width * ring - 4}
+                fill={alpha(theme.palette.text.primary, 0.4)}
+                fontSize={10}
+              >
+                {formatDistance(scaleBar.meters * ring)}
+              </text>
+            </g>
+          ))}
+
+        {/* Raios de ativação dos pontos */}
+        {viewport &&
+          projectedMarkers.map(({ marker, points }) => {
+            const radius = getTriggerRadius(marker);
+            if (marker.geometry.type !== 'Point' || radius === null) {
+              return null;
+            }
+            return (
+              <circle
+                key={marker.id}
+                cx={points[0].x}
+                cy={points[0].y}
+                r={radius / viewport.metersPerPixel}
+                fill="none"
+                stroke={alpha(theme.palette.success.main, 0.6)}
+                strokeDasharray="3 4"
+                pointerEvents="none"
+              />
+            );
+          })}
+
+        {/* Linhas e polígonos */}
+        {projectedMarkers.map(({ marker, points }) => {
+          if (marker.geometry.type === 'Point') return null;
+          const color =
+            CATEGORY_COLORS[marker.properties.category] ||
+            CATEGORY_COLORS.default;
+          const selected = marker.id === selectedMarkerId;
+          const path = points.map(point => `${point.x},${point.y}`).join(' ');
+          const common = {
+            stroke: color,
+            strokeWidth: selected ? 4 : 2,
+            onClick: () => handleMarkerClick(marker),
+            style: { cursor: 'pointer' },
+          };
+          return marker.geometry.type === 'Polygon' ? (
+            <polygon
+              key={marker.id}
+              points={path}
+              fill={alpha(color, selected ? 0.35 : 0.2)}
+              {...common}
+            />
+          ) : (
+            <polyline key={marker.id} points={path} fill="none" {...common} />
+          );
+        })}
+
+        {/* Rota ou linha reta até o destino da navegação */}
+        {userPoint && viewport && navigationGuidance && (
+          <polyline
+            points={(
+              navigationGuidance.route?.path.slice(1) ?? [
+                navigationGuidance.targetPosition,
+              ]
+            )
+              .map(position => projectToMap(position, viewport, size))
+              .reduce(
+                (path, point) => `${path} ${point.x},${point.y}`,
+                `${userPoint.x},${userPoint.y}`,
+              )}
+            fill="none"
+            stroke={theme.palette.primary.main}
+            strokeWidth={3}
+            strokeDasharray={navigationGuidance.route ? undefined : '8 6'}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            pointerEvents="none"
+          />
+        )}
+
+        {/* Cone de direção e precisão do usuário */}
+        {userPoint && viewport && (
+          <g pointerEvents="none">
+            {coordinates.accuracy !== null && (
+              <circle
+                cx={userPoint.x}
+                cy={userPoint.y}
+                r={coordinates.accuracy / viewport.metersPerPixel}
+                fill={alpha(theme.palette.primary.main, 0.15)}
+                stroke={alpha(theme.palette.primary.main, 0.5)}
+              />
+            )}
+            {heading !== null && (
+              <path
+                d={getSectorPath(
+                  userPoint,
+                  HEADING_CONE_LENGTH,
+                  heading,
+                  fieldOfView.horizontal,
+                )}
+                fill={alpha(theme.palette.primary.main, 0.3)}
+                stroke={alpha(theme.palette.primary.main, 0.6)}
+              />
+            )}
+            <circle
+              cx={userPoint.x}
+              cy={userPoint.y}
+              r={7}
+              fill={theme.palette.primary.main}
+              stroke="white"
+              strokeWidth={2}
+            />
+          </g>
+        )}
+
+        {/* Pontos e rótulos */}
+        {projectedMarkers.map(({ marker, points }) => {
+          const color =
+            CATEGORY_COLORS[marker.properties.category] ||
+            CATEGORY_COLORS.default;
+          const selected = marker.id === selectedMarkerId;
+          const [point] = points;
+          return (
+            <g
+              key={marker.id}
+              onClick={() => handleMarkerClick(marker)}
+              style={{ cursor: 'pointer' }}
+            >
+              {marker.geometry.type === 'Point' && (
+                <circle
+                  cx={point.x}
+                  cy={point.y}
+                  r={selected ? 10 : 7}
+                  fill={color}
+                  stroke="white"
+                  strokeWidth={selected ? 3 : 1.5}
+                />
+              )}
+              {(showLabels || selected) && (
+                <text
+                  x={point.x + 10}
+                  y={point.y + 4}
+                  fill={theme.palette.text.primary}
+                  fontSize={12}
+                  fontWeight={selected ? 700 : 400}
+                  stroke={theme.palette.background.paper}
+                  strokeWidth={3}
+                  paintOrder="stroke"
+                >
+                  {marker.properties.name}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Norte e escala */}
+      <Box
+        sx={{
+          position: 'absolute',
+          top: 16,
+          right: 16,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          backgroundColor: alpha(theme.palette.background.paper, 0.7),
+          backdropFilter: 'blur(4px)',
+          borderRadius: 2,
+          px: 1,
+          py: 0.5,
+        }}
+      >
+        <NavigationIcon sx={{ fontSize: 20 }} />
+        <Typography variant="caption" fontWeight="bold">
+          N
+        </Typography>
+      </Box>
+
+      {scaleBar && (
+        <Box
+          sx={{
+            position: 'absolute',
+            bottom: 24,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            pointerEvents: 'none',
+          }}
+        >
+          <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+            {formatDistance(scaleBar.meters)}
+          </Typography>
+          <Box
+            sx={{
+              width: scaleBar.width,
+              height: 6,
+              border: `2px solid ${theme.palette.text.primary}`,
+              borderTop: 'none',
+            }}
+          />
+        </Box>
+      )}
+
+      {!viewport && (
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{
+            position: 'absolute',
+            top: '50%',
+            width: '100%',
+            textAlign: 'center',
+          }}
+        >
+          Aguardando posição ou marcadores
+        </Typography>
+      )}
+
+      {/* HUD da navegação, acima da escala */}
+      {!selectedMarkerId && navigationGuidance && (
+        <Box
+          sx={{
+            position: 'absolute',
+            bottom: 80,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 20,
+          }}
+        >
+          <NavigationHUD guidance={navigationGuidance} />
+        </Box>
+      )}
+
+      {!selectedMarkerId && <GeofenceAlertStack />}
+
+      {/* Qualidade da localização */}
+      {!selectedMarkerId && (
+        <Box sx={{ position: 'absolute', top: 16, left: 16, zIndex: 20 }}>
+          <LocationQualityIndicator />
+        </Box>
+      )}
+
+      {/* Ações: voltar para AR, aproximar, afastar e centralizar */}
+      {!selectedMarkerId && (
+        <>
+          <Box
+            sx={{
+              position: 'absolute',
+              bottom: 24,
+              left: 16,
+              zIndex: 20,
+            }}
+          >
+            <Fab
+              size="medium"
+              aria-label="Ver em AR"
+              onClick={switchToAR}
+              sx={ACTION_FAB_SX}
+            >
+              <ViewInArIcon />
+            </Fab>
+          </Box>
+          <Box
+            sx={{
+              position: 'absolute',
+              bottom: 24,
+              right: 16,
+              zIndex: 20,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1.5,
+            }}
+          >
+            <Fab
+              size="small"
+              aria-label="Aproximar"
+              onClick={() => zoomAtCenter(ZOOM_STEP)}
+              disabled={!viewport}
+              sx={ACTION_FAB_SX}
+            >
+              <AddIcon />
+            </Fab>
+            <Fab
+              size="small"
+              aria-label="Afastar"
+              onClick={() => zoomAtCenter(1 / ZOOM_STEP)}
+              disabled={!viewport}
+              sx={ACTION_FAB_SX}
+            >
+              <RemoveIcon />
+            </Fab>
+            <Fab
+              size="medium"
+              aria-label="Centralizar na posição atual"
+              onClick={recenter}
+              disabled={!hasLocation}
+              sx={{
+                ...ACTION_FAB_SX,
+                ...(following && hasLocation && { color: 'primary.main' }),
+              }}
+            >
+              <MyLocationIcon />
+            </Fab>
+          </Box>
+        </>
+      )}
+
+      {selectedMarker && (
+        <InfoCard
+          marker={selectedMarker}
+          orientation={orientation}
+          isTablet={dimensions.width >= 768}
+          viewSwitch={{ target: 'ar', onSwitch: switchToAR }}
+          canNavigate
+        />
+      )}
+    </Box>
+  );
+};
+
+export default MapView;
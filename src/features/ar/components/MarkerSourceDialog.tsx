@@ -0,0 +1,359 @@
+// Path: features\ar\components\MarkerSourceDialog.tsx
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  Alert,
+  Box,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { useARStore } from '../stores/arStore';
+import {
+  MarkerSource,
+  MarkerLoadMode,
+  listBundledDatasets,
+} from '../utils/markerSources';
+import {
+  MARKER_FILE_ACCEPT,
+  detectMarkerFileFormat,
+} from '../utils/markerImport';
+import {
+  CsvColumnMapping,
+  CsvMappedField,
+  detectCsvColumnMapping,
+  readCsvHeaders,
+} from '../utils/importers/csvImporter';
+import { CachedDatasetSummary } from '../utils/datasetCache';
+import CachedDatasetList from './CachedDatasetList';
+
+interface MarkerSourceDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type SourceType = MarkerSource['type'];
+
+// Campos do mapeamento de colunas CSV
+const CSV_FIELD_LABELS: Record<CsvMappedField, string> = {
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  altitude: 'Altitude',
+  id: 'Identificador',
+  name: 'Nome',
+  category: 'Categoria',
+  description: 'Descrição',
+};
+
+// Rótulos das opções de combinação
+const LOAD_MODE_LABELS: Record<MarkerLoadMode, string> = {
+  replace: 'Substituir',
+  merge: 'Mesclar',
+  append: 'Acrescentar',
+};
+
+/**
+ * Diálogo para carregar marcadores de um dataset empacotado,
+ * de um arquivo local, de uma URL ou dos datasets salvos no aparelho
+ */
+const MarkerSourceDialog: React.FC<MarkerSourceDialogProps> = ({
+  open,
+  onClose,
+}) => {
+  const {
+    markerSource,
+    markersLoading,
+    markersError,
+    markerClustering,
+    geodesyMode,
+    loadMarkers,
+    setMarkerClustering,
+    setGeodesyMode,
+  } = useARStore();
+  const bundledDatasets = useMemo(() => listBundledDatasets(), []);
+
+  const [sourceType, setSourceType] = useState<SourceType>(
+    bundledDatasets.length ? 'bundled' : 'file',
+  );
+  const [datasetName, setDatasetName] = useState(bundledDatasets[0] ?? '');
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState(import.meta.env.VITE_API_URL ?? '');
+  const [cachedDataset, setCachedDataset] =
+    useState<CachedDatasetSummary | null>(null);
+  const [mode, setMode] = useState<MarkerLoadMode>('replace');
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvMapping, setCsvMapping] = useState<Partial<CsvColumnMapping>>({});
+
+  // Para arquivos CSV, lê o cabeçalho e sugere o mapeamento de colunas
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setCsvHeaders([]);
+    setCsvMapping({});
+
+    if (selected && detectMarkerFileFormat(selected.name) === 'csv') {
+      const headers = readCsvHeaders(await selected.text());
+      setCsvHeaders(headers);
+      setCsvMapping(detectCsvColumnMapping(headers) ?? {});
+    }
+  };
+
+  const isCsvMappingComplete =
+    !csvHeaders.length || (!!csvMapping.latitude && !!csvMapping.longitude);
+
+  // Monta a origem escolhida, se os campos necessários estiverem preenchidos
+  const selectedSource = useMemo((): MarkerSource | null => {
+    switch (sourceType) {
+      case 'bundled':
+        return datasetName ? { type: 'bundled', name: datasetName } : null;
+      case 'file':
+        if (!file || !isCsvMappingComplete) return null;
+        return csvHeaders.length
+          ? {
+              type: 'file',
+              file,
+              options: { csvMapping: csvMapping as CsvColumnMapping },
+            }
+          : { type: 'file', file };
+      case 'url':
+        return url.trim() ? { type: 'url', url: url.trim() } : null;
+      case 'cached':
+        return cachedDataset
+          ? { type: 'cached', id: cachedDataset.id, label: cachedDataset.label }
+          : null;
+      case 'sample':
+        return { type: 'sample' };
+    }
+  }, [
+    sourceType,
+    datasetName,
+    file,
+    url,
+    cachedDataset,
+    csvHeaders,
+    csvMapping,
+    isCsvMappingComplete,
+  ]);
+
+  const handleLoad = async () => {
+    if (!selectedSource) return;
+    await loadMarkers(selectedSource, { mode });
+    if (!useARStore.getState().markersError) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Carregar marcadores</DialogTitle>
+
+      <DialogContent
+        sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}
+      >
+        <Typography variant="body2" color="text.secondary">
+          Origem atual: <strong>{markerSource.label}</strong>
+        </Typography>
+
+        <ToggleButtonGroup
+          value={sourceType}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: SourceType | null) =>
+            value && setSourceType(value)
+          }
+        >
+          <ToggleButton value="bundled" disabled={!bundledDatasets.length}>
+            Dataset
+          </ToggleButton>
+          <ToggleButton value="file">Arquivo</ToggleButton>
+          <ToggleButton value="url">URL</ToggleButton>
+          <ToggleButton value="cached">Salvos</ToggleButton>
+          <ToggleButton value="sample">Exemplo</ToggleButton>
+        </ToggleButtonGroup>
+
+        {sourceType === 'bundled' && (
+          <TextField
+            select
+            label="Dataset"
+            value={datasetName}
+            onChange={event => setDatasetName(event.target.value)}
+          >
+            {bundledDatasets.map(name => (
+              <MenuItem key={name} value={name}>
+                {name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        {sourceType === 'file' && (
+          <Button
+            component="label"
+            variant="outlined"
+            startIcon={<UploadFileIcon />}
+            sx={{ justifyContent: 'flex-start', textTransform: 'none' }}
+          >
+            {file
+              ? file.name
+              : 'Escolher arquivo (GeoJSON, KML, KMZ, GPX, CSV)'}
+            <input
+              hidden
+              type="file"
+              accept={MARKER_FILE_ACCEPT}
+              onChange={event =>
+                handleFileChange(event.target.files?.[0] ?? null)
+              }
+            />
+          </Button>
+        )}
+
+        {sourceType === 'file' && csvHeaders.length > 0 && (
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: '1fr 1fr',
+              gap: 1.5,
+            }}
+          >
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ gridColumn: '1 / -1' }}
+            >
+              Colunas do CSV
+            </Typography>
+            {(Object.keys(CSV_FIELD_LABELS) as CsvMappedField[]).map(field => {
+              const required = field === 'latitude' || field === 'longitude';
+              return (
+                <TextField
+                  key={field}
+                  select
+                  size="small"
+                  required={required}
+                  label={CSV_FIELD_LABELS[field]}
+                  value={csvMapping[field] ?? ''}
+                  onChange={event =>
+                    setCsvMapping(current => ({
+                      ...current,
+                      [field]: event.target.value || undefined,
+                    }))
+                  }
+                >
+                  {!required && (
+                    <MenuItem value="">
+                      <em>Nenhuma</em>
+                    </MenuItem>
+                  )}
+                  {csvHeaders.map(header => (
+                    <MenuItem key={header} value={header}>
+                      {header}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              );
+            })}
+          </Box>
+        )}
+
+        {sourceType === 'url' && (
+          <TextField
+            label="URL dos dados"
+            value={url}
+            onChange={event => setUrl(event.target.value)}
+            placeholder="https://exemplo.com/pontos.geojson"
+            helperText="GeoJSON, KML, KMZ, GPX ou CSV"
+            type="url"
+          />
+        )}
+
+        {sourceType === 'cached' && (
+          <CachedDatasetList
+            selectedId={cachedDataset?.id ?? null}
+            onSelect={setCachedDataset}
+          />
+        )}
+
+        {sourceType === 'sample' && (
+          <Typography variant="body2" color="text.secondary">
+            Gera pontos aleatórios ao redor da sua posição atual.
+          </Typography>
+        )}
+
+        {sourceType !== 'sample' && (
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Marcadores existentes
+            </Typography>
+            <ToggleButtonGroup
+              value={mode}
+              exclusive
+              size="small"
+              fullWidth
+              onChange={(_, value: MarkerLoadMode | null) =>
+                value && setMode(value)
+              }
+            >
+              {(Object.keys(LOAD_MODE_LABELS) as MarkerLoadMode[]).map(
+                value => (
+                  <ToggleButton key={value} value={value}>
+                    {LOAD_MODE_LABELS[value]}
+                  </ToggleButton>
+                ),
+              )}
+            </ToggleButtonGroup>
+          </Box>
+        )}
+
+        {markersError && <Alert severity="error">{markersError}</Alert>}
+
+        {/* Exibição, aplicada imediatamente */}
+        <FormControlLabel
+          control={
+            <Switch
+              checked={markerClustering}
+              onChange={event => setMarkerClustering(event.target.checked)}
+            />
+          }
+          label="Agrupar marcadores próximos na visualização AR"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={geodesyMode === 'accurate'}
+              onChange={event =>
+                setGeodesyMode(event.target.checked ? 'accurate' : 'fast')
+              }
+            />
+          }
+          label="Cálculo preciso (elipsoide WGS84, curvatura e refração)"
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleLoad}
+          disabled={!selectedSource || markersLoading}
+          startIcon={
+            markersLoading ? <CircularProgress size={16} /> : undefined
+          }
+        >
+          Carregar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MarkerSourceDialog;
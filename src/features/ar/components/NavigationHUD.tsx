@@ -0,0 +1,132 @@
+// Path: features\ar\components\NavigationHUD.tsx
+import React, { useState } from 'react';
+import { Box, Typography, IconButton, useTheme, alpha } from '@mui/material';
+import NavigationIcon from '@mui/icons-material/Navigation';
+import FlagIcon from '@mui/icons-material/Flag';
+import TuneIcon from '@mui/icons-material/Tune';
+import CloseIcon from '@mui/icons-material/Close';
+import { useARStore } from '../stores/arStore';
+import { NavigationGuidance } from '../hooks/useNavigationGuidance';
+import { azimuthToCardinal, formatDistance } from '../utils/arjsUtils';
+import { describeTurn, formatDuration } from '../utils/navigation';
+import NavigationSettingsDialog from './NavigationSettingsDialog';
+
+interface NavigationHUDProps {
+  guidance: NavigationGuidance;
+}
+
+/**
+ * HUD compacto da navegação até o marcador, no lugar do InfoCard
+ * Mostra a seta de giro, a distância restante, o tempo estimado e o aviso
+ * de chegada; o toque no nome abre o InfoCard do destino
+ */
+const NavigationHUD: React.FC<NavigationHUDProps> = ({ guidance }) => {
+  const theme = useTheme();
+  const { visibleMarkers, navigationMode, selectMarker, cancelNavigation } =
+    useARStore();
+  const [showSettings, setShowSettings] = useState(false);
+
+  const { target, distance, bearing, relativeBearing, timeRemaining } =
+    guidance;
+  const arrived = guidance.arrived || target.arrivedAt !== null;
+  const color = arrived
+    ? theme.palette.success.main
+    : theme.palette.primary.main;
+  const canSelect = visibleMarkers.some(
+    marker => marker.id === target.markerId,
+  );
+
+  // Sem bússola, a seta aponta a direção absoluta (norte para cima)
+  const instruction = arrived
+    ? 'Você chegou'
+    : relativeBearing !== null
+      ? describeTurn(relativeBearing)
+      : `Siga para ${azimuthToCardinal(bearing)}`;
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          pl: 1.5,
+          pr: 0.5,
+          py: 0.75,
+          width: 300,
+          maxWidth: 'calc(100vw - 160px)',
+          minWidth: 220,
+          borderRadius: 3,
+          border: `1px solid ${alpha(color, 0.6)}`,
+          backgroundColor: alpha(theme.palette.background.paper, 0.8),
+          backdropFilter: 'blur(4px)',
+          boxShadow: 3,
+        }}
+      >
+        {arrived ? (
+          <FlagIcon sx={{ fontSize: 32, color }} />
+        ) : (
+          <NavigationIcon
+            sx={{
+              fontSize: 32,
+              color,
+              transform: `rotate(${relativeBearing ?? bearing}deg)`,
+              transition: 'transform 0.2s linear',
+            }}
+          />
+        )}
+
+        <Box
+          onClick={() => canSelect && selectMarker(target.markerId)}
+          sx={{
+            flex: 1,
+            minWidth: 0,
+            cursor: canSelect ? 'pointer' : 'default',
+          }}
+        >
+          <Typography variant="body2" fontWeight="bold" noWrap>
+            {target.name}
+          </Typography>
+          <Typography
+            variant="caption"
+            component="div"
+            noWrap
+            sx={{ fontFamily: 'monospace' }}
+          >
+            {formatDistance(distance)} · {formatDuration(timeRemaining)}
+            {guidance.route && ' · rota'}
+          </Typography>
+          <Typography variant="caption" component="div" noWrap sx={{ color }}>
+            {instruction}
+            {!arrived &&
+              navigationMode === 'network' &&
+              !guidance.route &&
+              ' (sem rota)'}
+          </Typography>
+        </Box>
+
+        <IconButton
+          size="small"
+          aria-label="Configurar navegação"
+          onClick={() => setShowSettings(true)}
+        >
+          <TuneIcon fontSize="small" />
+        </IconButton>
+        <IconButton
+          size="small"
+          aria-label="Encerrar navegação"
+          onClick={cancelNavigation}
+        >
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <NavigationSettingsDialog
+        open={showSettings}
+        onClose={() => setShowSettings(false)}
+      />
+    </>
+  );
+};
+
+export default NavigationHUD;
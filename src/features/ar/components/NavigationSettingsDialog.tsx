@@ -0,0 +1,169 @@
+// Path: features\ar\components\NavigationSettingsDialog.tsx
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  Alert,
+  Box,
+  CircularProgress,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { useARStore } from '../stores/arStore';
+import { loadMarkerSource } from '../utils/markerSources';
+import { MARKER_FILE_ACCEPT } from '../utils/markerImport';
+import { buildPathNetwork } from '../utils/pathNetwork';
+import { ARRIVAL_RADII, NavigationMode } from '../utils/navigation';
+
+interface NavigationSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Rótulos dos modos de navegação
+const NAVIGATION_MODE_LABELS: Record<NavigationMode, string> = {
+  straight: 'Linha reta',
+  network: 'Rede de caminhos',
+};
+
+/**
+ * Diálogo de configuração da navegação: raio de chegada, modo (linha reta
+ * ou rota) e a rede de caminhos, carregada de um arquivo local com linhas
+ */
+const NavigationSettingsDialog: React.FC<NavigationSettingsDialogProps> = ({
+  open,
+  onClose,
+}) => {
+  const {
+    arrivalRadius,
+    navigationMode,
+    pathNetwork,
+    setArrivalRadius,
+    setNavigationMode,
+    setPathNetwork,
+  } = useARStore();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleNetworkFile = async (file: File | null) => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { collection } = await loadMarkerSource({ type: 'file', file });
+      const network = buildPathNetwork(file.name, collection.features);
+      if (!network.edgeCount) {
+        throw new Error('O arquivo não contém linhas para a rede de caminhos');
+      }
+      setPathNetwork(network);
+      setNavigationMode('network');
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : 'Falha ao carregar a rede de caminhos',
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Navegação</DialogTitle>
+
+      <DialogContent
+        sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}
+      >
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            Raio de chegada
+          </Typography>
+          <ToggleButtonGroup
+            value={arrivalRadius}
+            exclusive
+            size="small"
+            fullWidth
+            onChange={(_, value: number | null) =>
+              value !== null && setArrivalRadius(value)
+            }
+          >
+            {ARRIVAL_RADII.map(radius => (
+              <ToggleButton key={radius} value={radius}>
+                {radius} m
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            Caminho
+          </Typography>
+          <ToggleButtonGroup
+            value={navigationMode}
+            exclusive
+            size="small"
+            fullWidth
+            onChange={(_, value: NavigationMode | null) =>
+              value && setNavigationMode(value)
+            }
+          >
+            {(Object.keys(NAVIGATION_MODE_LABELS) as NavigationMode[]).map(
+              value => (
+                <ToggleButton key={value} value={value}>
+                  {NAVIGATION_MODE_LABELS[value]}
+                </ToggleButton>
+              ),
+            )}
+          </ToggleButtonGroup>
+        </Box>
+
+        {navigationMode === 'network' && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              {pathNetwork
+                ? `Rede: ${pathNetwork.name} (${pathNetwork.edgeCount} trechos)`
+                : 'Nenhuma rede carregada: a navegação segue em linha reta.'}
+            </Typography>
+            <Button
+              component="label"
+              variant="outlined"
+              disabled={loading}
+              startIcon={
+                loading ? <CircularProgress size={16} /> : <UploadFileIcon />
+              }
+              sx={{ justifyContent: 'flex-start', textTransform: 'none' }}
+            >
+              Carregar rede de caminhos (linhas em GeoJSON, KML, GPX...)
+              <input
+                hidden
+                type="file"
+                accept={MARKER_FILE_ACCEPT}
+                onChange={event =>
+                  handleNetworkFile(event.target.files?.[0] ?? null)
+                }
+              />
+            </Button>
+            <Typography variant="caption" color="text.secondary">
+              A rede fica disponível até o aplicativo ser fechado.
+            </Typography>
+          </>
+        )}
+
+        {error && <Alert severity="error">{error}</Alert>}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Fechar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default NavigationSettingsDialog;
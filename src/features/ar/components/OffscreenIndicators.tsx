@@ -0,0 +1,213 @@
+// Path: features\ar\components\OffscreenIndicators.tsx
+import React, { useMemo } from 'react';
+import { Box, Typography, useTheme, alpha } from '@mui/material';
+import NavigationIcon from '@mui/icons-material/Navigation';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import { MarkerWithDistance } from '../schemas/markerSchema';
+import { ScreenFieldOfView } from '../utils/fieldOfView';
+import { useARStore } from '../stores/arStore';
+import { formatDistance } from '../utils/arjsUtils';
+import {
+  OffscreenIndicator,
+  getOffscreenIndicator,
+} from '../utils/offscreenIndicators';
+import { getScreenRoll } from '../utils/orientation';
+import { isWithinMarkerRange } from '../utils/markerRange';
+
+interface OffscreenIndicatorsProps {
+  markers: MarkerWithDistance[];
+  heading: number;
+  fieldOfView: ScreenFieldOfView;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+  // Rotação da interface (useScreenOrientation), compensada no giro do aparelho
+  screenAngle?: number;
+}
+
+// Mapeamento de categorias para cores (mesmo usado no ARMarkerOverlay)
+const CATEGORY_COLORS: Record<string, string> = {
+  restaurante: '#FF5722', // Laranja
+  cafeteria: '#795548', // Marrom
+  loja: '#2196F3', // Azul
+  atracao: '#9C27B0', // Roxo
+  teatro: '#E91E63', // Rosa
+  servico: '#00BCD4', // Ciano
+  transporte: '#3F51B5', // Índigo
+  default: '#4CAF50', // Verde
+};
+
+// Quantidade de setas para os marcadores mais próximos fora da tela
+const MAX_INDICATORS = 5;
+// Distância das setas até a borda da tela (pixels)
+const EDGE_MARGIN = 36;
+
+/**
+ * Setas na borda da tela para os marcadores fora do campo de visão: o
+ * marcador sendo localizado (sempre, em destaque) e os mais próximos
+ * Mostram o giro até o marcador, a distância e se está acima ou abaixo;
+ * o toque abre o InfoCard
+ */
+const OffscreenIndicators: React.FC<OffscreenIndicatorsProps> = ({
+  markers,
+  heading,
+  fieldOfView,
+  dimensions,
+  screenAngle = 0,
+}) => {
+  const theme = useTheme();
+  const { pitch, roll, locatedMarkerId, selectMarker, geodesyMode } =
+    useARStore();
+  const screenRoll = getScreenRoll(roll ?? 0, screenAngle);
+
+  const indicators = useMemo(() => {
+    const located = markers.find(marker => marker.id === locatedMarkerId);
+    const nearest = markers
+      .filter(
+        marker =>
+          marker.id !== locatedMarkerId &&
+          // Mesmo alcance do ARMarkerOverlay
+          isWithinMarkerRange(marker, geodesyMode),
+      )
+      .sort((a, b) => a.distance - b.distance);
+
+    const items: Array<{
+      marker: MarkerWithDistance;
+      indicator: OffscreenIndicator;
+      located: boolean;
+    }> = [];
+
+    // O marcador localizado é avaliado primeiro e não conta no limite
+    const limit = located ? MAX_INDICATORS + 1 : MAX_INDICATORS;
+    for (const marker of located ? [located, ...nearest] : nearest) {
+      if (items.length >= limit) break;
+      const indicator = getOffscreenIndicator({
+        relativeBearing: ((marker.bearing - heading + 540) % 360) - 180,
+        verticalAngle: marker.verticalAngle ?? 0,
+        pitch: pitch ?? 0,
+        roll: screenRoll,
+        horizontalFieldOfView: fieldOfView.horizontal,
+        verticalFieldOfView: fieldOfView.vertical,
+        width: dimensions.width,
+        height: dimensions.height,
+        margin: EDGE_MARGIN,
+      });
+      // Marcadores na tela já aparecem no ARMarkerOverlay
+      if (indicator) {
+        items.push({
+          marker,
+          indicator,
+          located: marker.id === locatedMarkerId,
+        });
+      }
+    }
+
+    // O marcador localizado fica acima dos demais
+    return items.reverse();
+  }, [
+    markers,
+    heading,
+    pitch,
+    screenRoll,
+    locatedMarkerId,
+    geodesyMode,
+    fieldOfView.horizontal,
+    fieldOfView.vertical,
+    dimensions.width,
+    dimensions.height,
+  ]);
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        inset: 0,
+        pointerEvents: 'none',
+        zIndex: 12,
+      }}
+    >
+      {indicators.map(({ marker, indicator, located }) => {
+        const color = located
+          ? theme.palette.primary.main
+          : CATEGORY_COLORS[marker.properties.category] ||
+            CATEGORY_COLORS.default;
+        const turn = Math.round(Math.abs(indicator.turnAngle));
+
+        return (
+          <Box
+            key={marker.id}
+            onClick={() => selectMarker(marker.id)}
+            sx={{
+              position: 'absolute',
+              left: indicator.x,
+              top: indicator.y,
+              transform: 'translate(-50%, -50%)',
+              pointerEvents: 'auto',
+              cursor: 'pointer',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              opacity: located ? 1 : 0.8,
+              transition: 'left 0.15s linear, top 0.15s linear',
+            }}
+          >
+            <NavigationIcon
+              sx={{
+                fontSize: located ? 36 : 24,
+                color,
+                transform: `rotate(${indicator.rotation}deg)`,
+                filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.6))',
+              }}
+            />
+            <Box
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                px: 0.75,
+                borderRadius: 1,
+                backgroundColor: alpha(theme.palette.background.paper, 0.75),
+                border: located ? `1px solid ${color}` : 'none',
+                backdropFilter: 'blur(4px)',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {indicator.vertical === 'up' && (
+                <KeyboardArrowUpIcon sx={{ fontSize: 14 }} />
+              )}
+              {indicator.vertical === 'down' && (
+                <KeyboardArrowDownIcon sx={{ fontSize: 14 }} />
+              )}
+              <Typography
+                variant="caption"
+                sx={{
+                  fontFamily: 'monospace',
+                  fontSize: located ? '0.75rem' : '0.65rem',
+                }}
+              >
+                {indicator.turnAngle < 0 ? '↶' : '↷'} {turn}° ·{' '}
+                {formatDistance(marker.distance)}
+              </Typography>
+            </Box>
+            {located && (
+              <Typography
+                variant="caption"
+                noWrap
+                sx={{
+                  maxWidth: 120,
+                  fontSize: '0.65rem',
+                  textShadow: '0 1px 2px rgba(0,0,0,0.8)',
+                }}
+              >
+                {marker.properties.name}
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default OffscreenIndicators;
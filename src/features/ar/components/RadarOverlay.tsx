@@ -0,0 +1,212 @@
+// Path: features\ar\components\RadarOverlay.tsx
+import React from 'react';
+import { Box, Typography, useTheme, alpha } from '@mui/material';
+import { MarkerWithDistance } from '../schemas/markerSchema';
+import { useARStore } from '../stores/arStore';
+import { formatDistance } from '../utils/arjsUtils';
+import { isWithinUncertainty } from '../utils/locationQuality';
+import {
+  RADAR_RING_COUNT,
+  getNextRadarRange,
+  getRadarBlipPosition,
+} from '../utils/radar';
+
+interface RadarOverlayProps {
+  markers: MarkerWithDistance[];
+  heading: number;
+  // Campo de visão horizontal exibido na tela (graus)
+  horizontalFieldOfView: number;
+}
+
+// Mapeamento de categorias para cores (mesmo usado no ARMarkerOverlay)
+const CATEGORY_COLORS: Record<string, string> = {
+  restaurante: '#FF5722', // Laranja
+  cafeteria: '#795548', // Marrom
+  loja: '#2196F3', // Azul
+  atracao: '#9C27B0', // Roxo
+  teatro: '#E91E63', // Rosa
+  servico: '#00BCD4', // Ciano
+  transporte: '#3F51B5', // Índigo
+  default: '#4CAF50', // Verde
+};
+
+// Dimensões do radar (pixels)
+const RADAR_SIZE = 150;
+const RADAR_RADIUS = 66;
+const BLIP_RADIUS = 4;
+// Área de toque de cada ponto, maior que o desenho
+const BLIP_HIT_RADIUS = 10;
+
+/**
+ * Radar circular com todos os marcadores dentro do alcance, posicionados
+ * pela direção e distância em relação à direção atual (para cima)
+ * Destaca o campo de visão da câmera e o marcador selecionado; o toque em
+ * um ponto seleciona o marcador e o toque no alcance alterna os anéis
+ */
+const RadarOverlay: React.FC<RadarOverlayProps> = React.memo(
+  ({ markers, heading, horizontalFieldOfView }) => {
+    const theme = useTheme();
+    const {
+      coordinates,
+      selectedMarkerId,
+      locatedMarkerId,
+      radarRange,
+      selectMarker,
+      setRadarRange,
+    } = useARStore();
+    // Destaca o marcador selecionado ou, com o InfoCard fechado, o localizado
+    const highlightedId = selectedMarkerId ?? locatedMarkerId;
+
+    const center = RADAR_SIZE / 2;
+    const halfFov = Math.min(horizontalFieldOfView, 359) / 2;
+    const fovRadians = (halfFov * Math.PI) / 180;
+    const fovLeft = {
+      x: center - RADAR_RADIUS * Math.sin(fovRadians),
+      y: center - RADAR_RADIUS * Math.cos(fovRadians),
+    };
+    const fovRight = {
+      x: center + RADAR_RADIUS * Math.sin(fovRadians),
+      y: fovLeft.y,
+    };
+
+    // Norte na borda do radar
+    const northAngle = (-heading * Math.PI) / 180;
+    const north = {
+      x: center + (RADAR_RADIUS + 8) * Math.sin(northAngle),
+      y: center - (RADAR_RADIUS + 8) * Math.cos(northAngle),
+    };
+
+    const blips = markers
+      .map(marker => ({
+        marker,
+        position: getRadarBlipPosition(
+          marker.bearing,
+          marker.distance,
+          heading,
+          radarRange,
+          RADAR_RADIUS,
+        ),
+      }))
+      .filter(
+        (blip): blip is typeof blip & { position: { x: number; y: number } } =>
+          blip.position !== null,
+      )
+      // O destacado é desenhado por último, acima dos demais
+      .sort(
+        (a, b) =>
+          Number(a.marker.id === highlightedId) -
+          Number(b.marker.id === highlightedId),
+      );
+
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          backgroundColor: alpha(theme.palette.background.paper, 0.6),
+          borderRadius: '50%',
+          backdropFilter: 'blur(4px)',
+          boxShadow: 2,
+          width: RADAR_SIZE,
+          height: RADAR_SIZE,
+          position: 'relative',
+        }}
+      >
+        <svg width={RADAR_SIZE} height={RADAR_SIZE}>
+          {/* Campo de visão */}
+          <path
+            d={`M ${center} ${center} L ${fovLeft.x} ${fovLeft.y} A ${RADAR_RADIUS} ${RADAR_RADIUS} 0 ${halfFov > 90 ? 1 : 0} 1 ${fovRight.x} ${fovRight.y} Z`}
+            fill={alpha(theme.palette.primary.main, 0.25)}
+          />
+
+          {/* Anéis de distância */}
+          {Array.from({ length: RADAR_RING_COUNT }, (_, index) => (
+            <circle
+              key={index}
+              cx={center}
+              cy={center}
+              r={(RADAR_RADIUS * (index + 1)) / RADAR_RING_COUNT}
+              fill="none"
+              stroke={alpha(theme.palette.text.primary, 0.2)}
+              strokeDasharray={index + 1 < RADAR_RING_COUNT ? '2 3' : undefined}
+            />
+          ))}
+
+          <text
+            x={north.x}
+            y={north.y}
+            fill={theme.palette.error.main}
+            fontSize={10}
+            fontWeight="bold"
+            textAnchor="middle"
+            dominantBaseline="central"
+          >
+            N
+          </text>
+
+          {/* Marcadores */}
+          {blips.map(({ marker, position }) => {
+            const selected = marker.id === highlightedId;
+            const color =
+              CATEGORY_COLORS[marker.properties.category] ||
+              CATEGORY_COLORS.default;
+            const x = center + position.x;
+            const y = center + position.y;
+            return (
+              <g
+                key={marker.id}
+                onClick={() => selectMarker(marker.id)}
+                style={{ cursor: 'pointer' }}
+                opacity={
+                  isWithinUncertainty(marker.distance, coordinates.accuracy)
+                    ? 0.4
+                    : 1
+                }
+              >
+                <circle cx={x} cy={y} r={BLIP_HIT_RADIUS} fill="transparent" />
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={selected ? BLIP_RADIUS + 2 : BLIP_RADIUS}
+                  fill={color}
+                  stroke={selected ? 'white' : alpha('#000', 0.5)}
+                  strokeWidth={selected ? 2 : 1}
+                />
+              </g>
+            );
+          })}
+
+          {/* Usuário */}
+          <circle
+            cx={center}
+            cy={center}
+            r={3}
+            fill={theme.palette.primary.main}
+            stroke="white"
+          />
+        </svg>
+
+        {/* Alcance: o toque alterna entre os alcances disponíveis */}
+        <Typography
+          variant="caption"
+          onClick={() => setRadarRange(getNextRadarRange(radarRange))}
+          sx={{
+            position: 'absolute',
+            bottom: -4,
+            px: 0.75,
+            borderRadius: 1,
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+            fontSize: '0.65rem',
+            backgroundColor: alpha(theme.palette.background.paper, 0.85),
+          }}
+        >
+          {formatDistance(radarRange)}
+        </Typography>
+      </Box>
+    );
+  },
+);
+
+export default RadarOverlay;
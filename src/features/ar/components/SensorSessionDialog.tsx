@@ -0,0 +1,255 @@
+// Path: features\ar\components\SensorSessionDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import StopIcon from '@mui/icons-material/Stop';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { SensorSession } from '../schemas/sensorSessionSchema';
+import { SensorReplay } from '../hooks/useSensorReplay';
+import { downloadTextFile } from '../utils/markerExport';
+import {
+  REPLAY_SPEEDS,
+  ReplaySpeed,
+  getRecordedSampleCount,
+  getSessionDuration,
+  getSessionFileName,
+  parseSensorSession,
+  startSensorRecording,
+  stopSensorRecording,
+} from '../utils/sensorSession';
+
+interface SensorSessionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  recording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  replay: SensorReplay | null;
+  replayProgress: number;
+  onReplayStart: (replay: SensorReplay) => void;
+  onReplayStop: () => void;
+}
+
+type SessionMode = 'record' | 'replay';
+
+const formatDuration = (milliseconds: number) => {
+  const seconds = Math.round(milliseconds / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Gravação das leituras de GPS e orientação em um arquivo de sessão e
+ * reprodução de uma sessão gravada para depuração
+ */
+const SensorSessionDialog: React.FC<SensorSessionDialogProps> = ({
+  open,
+  onClose,
+  recording,
+  onRecordingChange,
+  replay,
+  replayProgress,
+  onReplayStart,
+  onReplayStop,
+}) => {
+  const [mode, setMode] = useState<SessionMode>('record');
+  const [sampleCount, setSampleCount] = useState(0);
+  const [session, setSession] = useState<SensorSession | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const [error, setError] = useState<string | null>(null);
+
+  // Contador de amostras gravadas enquanto o diálogo está aberto
+  useEffect(() => {
+    if (!open || !recording) return;
+    setSampleCount(getRecordedSampleCount());
+    const interval = window.setInterval(
+      () => setSampleCount(getRecordedSampleCount()),
+      1000,
+    );
+    return () => window.clearInterval(interval);
+  }, [open, recording]);
+
+  const handleStartRecording = () => {
+    startSensorRecording();
+    setSampleCount(0);
+    onRecordingChange(true);
+  };
+
+  const handleStopRecording = () => {
+    const recorded = stopSensorRecording();
+    onRecordingChange(false);
+    if (!recorded) return;
+
+    const timestamp = new Date();
+    downloadTextFile(
+      JSON.stringify(recorded),
+      getSessionFileName(timestamp),
+      'application/json',
+    );
+  };
+
+  const handleFileChange = async (selected: File | null) => {
+    setSession(null);
+    setError(null);
+    setFileName(selected?.name ?? null);
+    if (!selected) return;
+
+    try {
+      setSession(parseSensorSession(await selected.text(), selected.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Sessão de sensores</DialogTitle>
+
+      <DialogContent
+        sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}
+      >
+        <ToggleButtonGroup
+          value={mode}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: SessionMode | null) => value && setMode(value)}
+        >
+          <ToggleButton value="record">Gravar</ToggleButton>
+          <ToggleButton value="replay">Reproduzir</ToggleButton>
+        </ToggleButtonGroup>
+
+        {mode === 'record' && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Grava as posições do GPS e os eventos de orientação e movimento do
+              aparelho. Ao parar, a sessão é salva em um arquivo JSON.
+            </Typography>
+            {recording && (
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {sampleCount} amostras gravadas
+              </Typography>
+            )}
+            {recording ? (
+              <Button
+                variant="contained"
+                color="error"
+                startIcon={<StopIcon />}
+                onClick={handleStopRecording}
+              >
+                Parar e salvar
+              </Button>
+            ) : (
+              <Button
+                variant="contained"
+                startIcon={<FiberManualRecordIcon />}
+                onClick={handleStartRecording}
+                disabled={!!replay}
+              >
+                Iniciar gravação
+              </Button>
+            )}
+          </>
+        )}
+
+        {mode === 'replay' && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Reproduz uma sessão gravada no lugar dos sensores, mantendo os
+              intervalos originais entre as leituras.
+            </Typography>
+            <Button
+              component="label"
+              variant="outlined"
+              startIcon={<UploadFileIcon />}
+              sx={{ justifyContent: 'flex-start', textTransform: 'none' }}
+              disabled={!!replay}
+            >
+              {fileName ?? 'Escolher arquivo de sessão (JSON)'}
+              <input
+                hidden
+                type="file"
+                accept=".json,application/json"
+                onChange={event =>
+                  handleFileChange(event.target.files?.[0] ?? null)
+                }
+              />
+            </Button>
+
+            {error && <Alert severity="error">{error}</Alert>}
+
+            {session && (
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {session.samples.length} amostras ·{' '}
+                {formatDuration(getSessionDuration(session))}
+                <br />
+                Gravada em {new Date(session.recordedAt).toLocaleString()}
+              </Typography>
+            )}
+
+            <ToggleButtonGroup
+              value={speed}
+              exclusive
+              size="small"
+              fullWidth
+              disabled={!!replay}
+              onChange={(_, value: ReplaySpeed | null) =>
+                value && setSpeed(value)
+              }
+            >
+              {REPLAY_SPEEDS.map(value => (
+                <ToggleButton key={value} value={value}>
+                  {value}×
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+
+            {replay && (
+              <LinearProgress
+                variant="determinate"
+                value={replayProgress * 100}
+              />
+            )}
+
+            {replay ? (
+              <Button
+                variant="contained"
+                color="error"
+                startIcon={<StopIcon />}
+                onClick={onReplayStop}
+              >
+                Parar reprodução
+              </Button>
+            ) : (
+              <Button
+                variant="contained"
+                startIcon={<PlayArrowIcon />}
+                onClick={() => session && onReplayStart({ session, speed })}
+                disabled={!session || recording}
+              >
+                Reproduzir
+              </Button>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Fechar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SensorSessionDialog;
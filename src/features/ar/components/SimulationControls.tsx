@@ -0,0 +1,157 @@
+// Path: features\ar\components\SimulationControls.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Slider,
+  TextField,
+  IconButton,
+  Collapse,
+  alpha,
+} from '@mui/material';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import {
+  SIMULATION_PITCH_LIMIT,
+  SimulationState,
+  applySimulationKey,
+} from '../utils/simulation';
+import { azimuthToCardinal } from '../utils/arjsUtils';
+
+interface SimulationControlsProps {
+  state: SimulationState;
+  onChange: (state: SimulationState) => void;
+}
+
+/**
+ * Painel de controle do modo de simulação: posição, direção e inclinação
+ * por controles na tela ou pelo teclado
+ */
+const SimulationControls: React.FC<SimulationControlsProps> = ({
+  state,
+  onChange,
+}) => {
+  const [expanded, setExpanded] = useState(true);
+
+  // Atalhos de teclado (ignorados enquanto um campo de texto tem o foco)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const next = applySimulationKey(state, event.key, event.shiftKey);
+      if (next) {
+        event.preventDefault();
+        onChange(next);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [state, onChange]);
+
+  const handleCoordinateChange =
+    (field: 'latitude' | 'longitude' | 'altitude') =>
+    (event: React.FocusEvent<HTMLInputElement>) => {
+      const value = Number(event.target.value);
+      if (event.target.value !== '' && Number.isFinite(value)) {
+        onChange({ ...state, [field]: value });
+      }
+    };
+
+  return (
+    <Paper
+      sx={{
+        position: 'absolute',
+        bottom: 24,
+        right: 16,
+        zIndex: 25,
+        width: 260,
+        p: 1.5,
+        backgroundColor: theme => alpha(theme.palette.background.paper, 0.85),
+        backdropFilter: 'blur(4px)',
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        <Typography variant="subtitle2">Simulação</Typography>
+        <IconButton size="small" onClick={() => setExpanded(!expanded)}>
+          {expanded ? <ExpandMoreIcon /> : <ExpandLessIcon />}
+        </IconButton>
+      </Box>
+
+      <Collapse in={expanded}>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+          <Typography variant="caption">
+            Direção: {Math.round(state.heading)}°{' '}
+            {azimuthToCardinal(state.heading)}
+          </Typography>
+          <Slider
+            size="small"
+            min={0}
+            max={359}
+            value={Math.round(state.heading)}
+            onChange={(_, value) =>
+              onChange({ ...state, heading: value as number })
+            }
+          />
+
+          <Typography variant="caption">
+            Inclinação: {Math.round(state.pitch)}°
+          </Typography>
+          <Slider
+            size="small"
+            min={-SIMULATION_PITCH_LIMIT}
+            max={SIMULATION_PITCH_LIMIT}
+            value={Math.round(state.pitch)}
+            onChange={(_, value) =>
+              onChange({ ...state, pitch: value as number })
+            }
+          />
+
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              size="small"
+              type="number"
+              label="Latitude"
+              defaultValue={state.latitude}
+              key={`lat-${state.latitude}`}
+              onBlur={handleCoordinateChange('latitude')}
+              inputProps={{ step: 0.0001 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Longitude"
+              defaultValue={state.longitude}
+              key={`lng-${state.longitude}`}
+              onBlur={handleCoordinateChange('longitude')}
+              inputProps={{ step: 0.0001 }}
+            />
+          </Box>
+          <TextField
+            size="small"
+            type="number"
+            label="Altitude (m)"
+            defaultValue={state.altitude}
+            key={`alt-${state.altitude}`}
+            onBlur={handleCoordinateChange('altitude')}
+          />
+
+          <Typography variant="caption" color="text.secondary">
+            ←/→ girar · ↑/↓ andar · A/D lateral · W/S inclinar · Shift: passo
+            menor
+          </Typography>
+        </Box>
+      </Collapse>
+    </Paper>
+  );
+};
+
+export default SimulationControls;
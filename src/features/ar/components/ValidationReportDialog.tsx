@@ -0,0 +1,80 @@
+// Path: features\ar\components\ValidationReportDialog.tsx
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { ValidationReport } from '../utils/markerValidation';
+
+interface ValidationReportDialogProps {
+  open: boolean;
+  report: ValidationReport | null;
+  onClose: () => void;
+}
+
+/**
+ * Lista as feições ignoradas no último carregamento e o motivo de cada uma
+ */
+const ValidationReportDialog: React.FC<ValidationReportDialogProps> = ({
+  open,
+  report,
+  onClose,
+}) => {
+  if (!report) return null;
+
+  const skipped = report.total - report.valid;
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Relatório de validação</DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          {report.source}: {report.valid} de {report.total} feições válidas,{' '}
+          {skipped} ignorada{skipped === 1 ? '' : 's'}.
+        </Typography>
+
+        <TableContainer className="allow-scrollbar" sx={{ maxHeight: '60vh' }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>#</TableCell>
+                <TableCell>Id</TableCell>
+                <TableCell>Campo</TableCell>
+                <TableCell>Motivo</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.issues.map((issue, index) => (
+                <TableRow key={`${issue.index}-${issue.path}-${index}`}>
+                  <TableCell>{issue.index}</TableCell>
+                  <TableCell>{issue.id ?? '—'}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>
+                    {issue.path}
+                  </TableCell>
+                  <TableCell>{issue.reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Fechar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ValidationReportDialog;
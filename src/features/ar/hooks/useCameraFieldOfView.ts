@@ -0,0 +1,87 @@
+// Path: features\ar\hooks\useCameraFieldOfView.ts
+import { useEffect, useMemo, useState } from 'react';
+import { useARStore } from '../stores/arStore';
+import {
+  CameraTrackInfo,
+  estimateCameraFieldOfView,
+  getCameraCalibrationKey,
+  getScreenFieldOfView,
+} from '../utils/fieldOfView';
+
+/**
+ * Reads the settings of the camera track used by the AR.js video element
+ */
+function readCameraTrack(): CameraTrackInfo | null {
+  const videos = Array.from(document.querySelectorAll('video'));
+  for (const video of videos) {
+    if (!(video.srcObject instanceof MediaStream)) continue;
+    const [track] = video.srcObject.getVideoTracks();
+    if (!track) continue;
+
+    const settings = track.getSettings();
+    const width = settings.width ?? video.videoWidth;
+    const height = settings.height ?? video.videoHeight;
+    if (width && height) {
+      return { width, height, deviceId: settings.deviceId ?? null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Hook that resolves the camera field of view: the per-device calibration
+ * when available, otherwise an estimate from the video track settings
+ */
+export const useCameraFieldOfView = (
+  enabled: boolean,
+  dimensions: { width: number; height: number },
+) => {
+  const { fieldOfViewCalibrations } = useARStore();
+  const [track, setTrack] = useState<CameraTrackInfo | null>(null);
+
+  // Aguarda o AR.js criar o elemento de vídeo da câmera
+  useEffect(() => {
+    if (!enabled) return;
+
+    const update = () => {
+      const next = readCameraTrack();
+      setTrack(current =>
+        current?.width === next?.width &&
+        current?.height === next?.height &&
+        current?.deviceId === next?.deviceId
+          ? current
+          : next,
+      );
+    };
+
+    update();
+    const interval = window.setInterval(update, 2000);
+    return () => window.clearInterval(interval);
+  }, [enabled]);
+
+  const calibrationKey = getCameraCalibrationKey(track);
+  const calibration = fieldOfViewCalibrations[calibrationKey] ?? null;
+
+  const cameraFieldOfView = useMemo(
+    () => calibration ?? estimateCameraFieldOfView(track),
+    [calibration, track],
+  );
+
+  const fieldOfView = useMemo(
+    () =>
+      getScreenFieldOfView(
+        cameraFieldOfView,
+        track,
+        dimensions.width,
+        dimensions.height,
+      ),
+    [cameraFieldOfView, track, dimensions.width, dimensions.height],
+  );
+
+  return {
+    track,
+    calibrationKey,
+    isCalibrated: calibration !== null,
+    fieldOfView,
+  };
+};
@@ -0,0 +1,41 @@
+// Path: features\ar\hooks\useInitialMarkers.ts
+import { useEffect } from 'react';
+import { useARStore } from '../stores/arStore';
+import {
+  getCachedDatasetSource,
+  getDefaultMarkerSource,
+} from '../utils/markerSources';
+import { getLastUsedDataset } from '../utils/datasetCache';
+
+/**
+ * Hook that loads the markers when a view opens: reopens the last used
+ * dataset (saved on the device) or the default source (VITE_API_URL)
+ * Does nothing when markers were already loaded by another view
+ */
+export const useInitialMarkers = () => {
+  useEffect(() => {
+    const { markersGenerated, loadMarkers } = useARStore.getState();
+    if (markersGenerated) return;
+
+    // Carregamento pendente já durante a consulta ao cache: a primeira
+    // leitura do GPS não gera pontos de exemplo que seriam substituídos
+    useARStore.setState({ markersLoading: true });
+
+    getLastUsedDataset().then(dataset => {
+      const source = dataset
+        ? getCachedDatasetSource(dataset)
+        : getDefaultMarkerSource();
+      if (source.type !== 'sample') {
+        loadMarkers(source, {
+          fallbackToSample: import.meta.env.VITE_SAMPLE_FALLBACK === 'true',
+        });
+        return;
+      }
+
+      // Nada salvo nem configurado: pontos de exemplo, gerados agora se a
+      // localização já chegou ou na primeira leitura do GPS
+      useARStore.setState({ markersLoading: false });
+      loadMarkers(source);
+    });
+  }, []);
+};
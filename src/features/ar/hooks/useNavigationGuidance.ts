@@ -0,0 +1,199 @@
+// Path: features\ar\hooks\useNavigationGuidance.ts
+import { useEffect, useMemo, useRef } from 'react';
+import { useARStore } from '../stores/arStore';
+import { calculateBearing, calculateDistance } from '../utils/arjsUtils';
+import {
+  PathNetwork,
+  Route,
+  RouteProgress,
+  findRoute,
+  getNextWaypoint,
+  getRouteProgress,
+} from '../utils/pathNetwork';
+import {
+  NAVIGATION_ARRIVAL_EVENT,
+  NavigationTarget,
+  OFF_ROUTE_DISTANCE,
+  WAYPOINT_RADIUS,
+  estimateTimeRemaining,
+} from '../utils/navigation';
+
+// [longitude, latitude, altitude]
+type Position = [number, number, number];
+
+/**
+ * Estado da navegação até o destino, recalculado a cada posição
+ */
+export interface NavigationGuidance {
+  target: NavigationTarget;
+  // Posição atual do destino (ponto mais próximo, para linhas e polígonos)
+  targetPosition: Position;
+  // Restante da rota sobre a rede de caminhos, a partir do usuário; null no
+  // modo linha reta ou sem rota
+  route: Route | null;
+  // Distância restante (metros), pela rota quando houver
+  distance: number;
+  // Direção até o próximo ponto da rota ou até o destino (graus)
+  bearing: number;
+  // Giro a partir da direção atual (-180 a 180), null sem bússola
+  relativeBearing: number | null;
+  // Tempo estimado até a chegada (segundos)
+  timeRemaining: number;
+  arrived: boolean;
+}
+
+// Rota calculada e o último segmento alcançado nela
+interface RouteState {
+  network: PathNetwork;
+  markerId: string;
+  route: Route;
+  index: number;
+}
+
+/**
+ * Hook that guides the user to the navigation target: remaining distance,
+ * direction to walk and ETA, following the loaded path network when the
+ * 'network' mode is on
+ * The route is kept while the user follows it and only recalculated when
+ * the user leaves it (OFF_ROUTE_DISTANCE) or the destination point moves
+ * Marks the arrival once the target is within the arrival radius (vibrates
+ * and dispatches NAVIGATION_ARRIVAL_EVENT)
+ * Returns null when not navigating or without a position
+ */
+export const useNavigationGuidance = (): NavigationGuidance | null => {
+  const {
+    coordinates,
+    heading,
+    speed,
+    isStationary,
+    visibleMarkers,
+    navigationTarget,
+    navigationMode,
+    arrivalRadius,
+    pathNetwork,
+    markNavigationArrived,
+  } = useARStore();
+  const { latitude, longitude } = coordinates;
+  const routeRef = useRef<RouteState | null>(null);
+
+  const marker = useMemo(
+    () =>
+      navigationTarget
+        ? visibleMarkers.find(item => item.id === navigationTarget.markerId)
+        : undefined,
+    [visibleMarkers, navigationTarget],
+  );
+
+  const guidance = useMemo((): NavigationGuidance | null => {
+    if (!navigationTarget || latitude === null || longitude === null) {
+      return null;
+    }
+
+    // Sem os marcadores carregados, usa a posição guardada ao iniciar
+    const targetPosition = marker?.anchor ?? navigationTarget.position;
+    const userPosition: Position = [longitude, latitude, 0];
+    const straightDistance =
+      marker?.distance ??
+      calculateDistance(
+        latitude,
+        longitude,
+        targetPosition[1],
+        targetPosition[0],
+      );
+
+    let progress: RouteProgress | null = null;
+    if (navigationMode === 'network' && pathNetwork) {
+      const previous = routeRef.current;
+      if (
+        previous &&
+        previous.network === pathNetwork &&
+        previous.markerId === navigationTarget.markerId &&
+        calculateDistance(
+          previous.route.path[previous.route.path.length - 1][1],
+          previous.route.path[previous.route.path.length - 1][0],
+          targetPosition[1],
+          targetPosition[0],
+        ) <= WAYPOINT_RADIUS
+      ) {
+        progress = getRouteProgress(
+          previous.route,
+          userPosition,
+          previous.index,
+        );
+      }
+      if (!progress || progress.distanceFromRoute > OFF_ROUTE_DISTANCE) {
+        const route = findRoute(pathNetwork, userPosition, targetPosition);
+        progress = route && getRouteProgress(route, userPosition);
+        routeRef.current = route && {
+          network: pathNetwork,
+          markerId: navigationTarget.markerId,
+          route,
+          index: 0,
+        };
+      }
+      if (progress && routeRef.current) {
+        routeRef.current.index = progress.index;
+      }
+    } else {
+      routeRef.current = null;
+    }
+
+    const route = progress?.remaining ?? null;
+    const waypoint = route
+      ? getNextWaypoint(route, userPosition, WAYPOINT_RADIUS)
+      : targetPosition;
+    const distance = route?.distance ?? straightDistance;
+    const bearing = calculateBearing(
+      latitude,
+      longitude,
+      waypoint[1],
+      waypoint[0],
+    );
+
+    return {
+      target: navigationTarget,
+      targetPosition,
+      route,
+      distance,
+      bearing,
+      relativeBearing:
+        heading !== null ? ((bearing - heading + 540) % 360) - 180 : null,
+      timeRemaining: estimateTimeRemaining(
+        distance,
+        isStationary ? null : speed,
+      ),
+      arrived: straightDistance <= arrivalRadius,
+    };
+  }, [
+    navigationTarget,
+    navigationMode,
+    pathNetwork,
+    marker,
+    latitude,
+    longitude,
+    heading,
+    speed,
+    isStationary,
+    arrivalRadius,
+  ]);
+
+  const arrived = guidance?.arrived ?? false;
+  const pendingArrival = navigationTarget?.arrivedAt === null;
+
+  // Avisa a chegada uma única vez por destino
+  useEffect(() => {
+    if (!arrived || !pendingArrival) return;
+    const { navigationTarget } = useARStore.getState();
+    if (!navigationTarget) return;
+
+    markNavigationArrived();
+    navigator.vibrate?.([200, 100, 200]);
+    window.dispatchEvent(
+      new CustomEvent(NAVIGATION_ARRIVAL_EVENT, {
+        detail: { markerId: navigationTarget.markerId },
+      }),
+    );
+  }, [arrived, pendingArrival, markNavigationArrived]);
+
+  return guidance;
+};
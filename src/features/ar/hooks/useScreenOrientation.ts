@@ -8,8 +8,12 @@ interface ScreenDimensions {
   height: number;
 }
 
+// Rotação da interface em relação à orientação natural do aparelho
+// (0, 90, 180 ou 270 graus)
+const getScreenAngle = () => window.screen.orientation?.angle ?? 0;
+
 /**
- * Hook to detect screen orientation and dimensions
+ * Hook to detect screen orientation, dimensions and rotation angle
  */
 export const useScreenOrientation = () => {
   const [orientation, setOrientation] = useState<Orientation>(
@@ -21,12 +25,15 @@ export const useScreenOrientation = () => {
     height: window.innerHeight,
   });
 
+  const [screenAngle, setScreenAngle] = useState(getScreenAngle);
+
   const updateDimensions = useCallback(() => {
     const width = window.innerWidth;
     const height = window.innerHeight;
 
     setDimensions({ width, height });
     setOrientation(width > height ? 'landscape' : 'portrait');
+    setScreenAngle(getScreenAngle());
   }, []);
 
   useEffect(() => {
@@ -45,5 +52,5 @@ export const useScreenOrientation = () => {
     };
   }, [updateDimensions]);
 
-  return { orientation, dimensions };
+  return { orientation, dimensions, screenAngle };
 };
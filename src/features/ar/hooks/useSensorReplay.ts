@@ -0,0 +1,54 @@
+// Path: features\ar\hooks\useSensorReplay.ts
+import { useEffect, useRef, useState } from 'react';
+import { useARStore } from '../stores/arStore';
+import { SensorSession } from '../schemas/sensorSessionSchema';
+import { emitReplaySample, replaySensorSession } from '../utils/sensorSession';
+
+export interface SensorReplay {
+  session: SensorSession;
+  speed: number;
+}
+
+/**
+ * Hook that replays a recorded sensor session through the same pipeline as
+ * the live sensors: positions go to setCoordinates and orientation/motion
+ * samples to the orientation sensor. Returns the replay progress (0 to 1)
+ */
+export const useSensorReplay = (
+  replay: SensorReplay | null,
+  onEnd: () => void,
+) => {
+  const { setCoordinates, resetPositionFilter } = useARStore();
+  const [progress, setProgress] = useState(0);
+  const onEndRef = useRef(onEnd);
+  onEndRef.current = onEnd;
+
+  useEffect(() => {
+    if (!replay) return;
+
+    setProgress(0);
+    // O filtro de posição recomeça com os tempos da sessão gravada
+    resetPositionFilter();
+    return replaySensorSession(replay.session, {
+      speed: replay.speed,
+      onSample: sample => {
+        if (sample.type === 'position') {
+          setCoordinates(
+            sample.latitude,
+            sample.longitude,
+            sample.accuracy,
+            sample.altitude,
+            sample.timestamp,
+          );
+        } else {
+          emitReplaySample(sample);
+        }
+      },
+      // Atualiza o progresso em passos de 1% para evitar renderizações a cada amostra
+      onProgress: value => setProgress(Math.floor(value * 100) / 100),
+      onEnd: () => onEndRef.current(),
+    });
+  }, [replay, setCoordinates, resetPositionFilter]);
+
+  return progress;
+};
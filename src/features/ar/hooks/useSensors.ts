@@ -0,0 +1,78 @@
+// Path: features\ar\hooks\useSensors.ts
+import { useCallback, useEffect, useMemo } from 'react';
+import { createGeolocationSensor } from '../sensors/geolocationSensor';
+import { createOrientationSensor } from '../sensors/orientationSensor';
+import { createCameraSensor } from '../sensors/cameraSensor';
+
+interface UseSensorsOptions {
+  // Inicia a leitura (após as permissões serem concedidas)
+  enabled: boolean;
+  // Posição e câmera simuladas: GPS e câmera reais não são usados
+  simulation: boolean;
+  // Sessão gravada em reprodução no lugar do GPS e da orientação
+  replaying: boolean;
+}
+
+/**
+ * Hook that owns the lifecycle of the sensor providers. Readings and sensor
+ * states are published to the AR store; components subscribe to the store
+ */
+export const useSensors = ({
+  enabled,
+  simulation,
+  replaying,
+}: UseSensorsOptions) => {
+  const providers = useMemo(
+    () => ({
+      geolocation: createGeolocationSensor(),
+      orientation: createOrientationSensor(),
+      camera: createCameraSensor(),
+    }),
+    [],
+  );
+
+  // Acompanhamento contínuo da posição
+  useEffect(() => {
+    if (!enabled || simulation || replaying) return;
+    providers.geolocation.start();
+    return () => providers.geolocation.stop();
+  }, [enabled, simulation, replaying, providers]);
+
+  // Fusão de bússola, giroscópio e gravidade para direção, inclinação e rolagem
+  useEffect(() => {
+    if (!enabled) return;
+    const sensor = replaying
+      ? createOrientationSensor({ replaying: true })
+      : providers.orientation;
+    sensor.start();
+    return () => sensor.stop();
+  }, [enabled, replaying, providers]);
+
+  // Erros da câmera durante a transmissão do AR.js
+  useEffect(() => {
+    if (!enabled || simulation) return;
+    providers.camera.start();
+    return () => providers.camera.stop();
+  }, [enabled, simulation, providers]);
+
+  /**
+   * Requests the location permission (orientation is best effort, iOS only
+   * grants it after a user gesture). Used by the views without camera
+   */
+  const requestLocationPermission = useCallback(async () => {
+    const locationPermitted = await providers.geolocation.requestPermission();
+    await providers.orientation.requestPermission();
+    return locationPermitted;
+  }, [providers]);
+
+  /**
+   * Requests camera and location permissions. Resolves with whether AR can start
+   */
+  const requestPermissions = useCallback(async () => {
+    const cameraPermitted = await providers.camera.requestPermission();
+    const locationPermitted = await requestLocationPermission();
+    return cameraPermitted && locationPermitted;
+  }, [providers, requestLocationPermission]);
+
+  return { requestPermissions, requestLocationPermission };
+};
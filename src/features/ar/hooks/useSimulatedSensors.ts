@@ -0,0 +1,75 @@
+// Path: features\ar\hooks\useSimulatedSensors.ts
+import { useEffect, useRef } from 'react';
+import { useARStore } from '../stores/arStore';
+import { applyHeadingOffset } from '../utils/compassCalibration';
+import {
+  SIMULATION_ACCURACY,
+  SimulationState,
+  getSimulatedOrientationAngles,
+  stepTowardsAngle,
+} from '../utils/simulation';
+
+// Frequência dos eventos de orientação simulados (Hz)
+const ORIENTATION_RATE = 30;
+// Velocidade máxima de giro simulada (graus/s), evita saltos bruscos no filtro
+const MAX_TURN_RATE = 360;
+
+/**
+ * Hook that feeds a simulated position and orientation into the app the same
+ * way real sensors do: positions go through setCoordinates and orientation
+ * is dispatched as deviceorientationabsolute events for the orientation sensor
+ */
+export const useSimulatedSensors = (state: SimulationState | null) => {
+  const { setCoordinates, resetPositionFilter } = useARStore();
+  const targetRef = useRef(state);
+  targetRef.current = state;
+
+  const enabled = state !== null;
+  const latitude = state?.latitude;
+  const longitude = state?.longitude;
+  const altitude = state?.altitude;
+
+  // Posição simulada, equivalente a uma leitura do watchPosition
+  useEffect(() => {
+    if (latitude === undefined || longitude === undefined) return;
+    // A posição simulada é exata; saltos feitos nos controles não são filtrados
+    resetPositionFilter();
+    setCoordinates(latitude, longitude, SIMULATION_ACCURACY, altitude ?? 0);
+  }, [latitude, longitude, altitude, setCoordinates, resetPositionFilter]);
+
+  // Fluxo contínuo de eventos de orientação, como o sensor real
+  useEffect(() => {
+    if (!enabled) return;
+
+    let heading: number | null = null;
+    const maxStep = MAX_TURN_RATE / ORIENTATION_RATE;
+
+    const interval = window.setInterval(() => {
+      const target = targetRef.current;
+      if (!target) return;
+
+      // A bússola real mede o norte magnético; desfaz a declinação e o ajuste
+      // manual aplicados em setOrientation para que a direção exibida seja a
+      // simulada
+      const { magneticDeclination, headingOffset } = useARStore.getState();
+      const magneticHeading = applyHeadingOffset(
+        target.heading,
+        -((magneticDeclination ?? 0) + headingOffset),
+      );
+      heading =
+        heading === null
+          ? magneticHeading
+          : stepTowardsAngle(heading, magneticHeading, maxStep);
+
+      const angles = getSimulatedOrientationAngles(heading, target.pitch);
+      window.dispatchEvent(
+        new DeviceOrientationEvent('deviceorientationabsolute', {
+          ...angles,
+          absolute: true,
+        }),
+      );
+    }, 1000 / ORIENTATION_RATE);
+
+    return () => window.clearInterval(interval);
+  }, [enabled]);
+};
@@ -1,30 +1,130 @@
 // Path: features\ar\schemas\markerSchema.ts
-export interface PointGeometry {
-  type: 'Point';
-  coordinates: [number, number, number]; // [longitude, latitude, altitude]
-}
+import { z } from 'zod';
+
+// Coordinate components with WGS84 range checks
+const longitudeSchema = z
+  .number()
+  .finite()
+  .min(-180, 'Longitude fora do intervalo [-180, 180]')
+  .max(180, 'Longitude fora do intervalo [-180, 180]');
+
+const latitudeSchema = z
+  .number()
+  .finite()
+  .min(-90, 'Latitude fora do intervalo [-90, 90]')
+  .max(90, 'Latitude fora do intervalo [-90, 90]');
+
+const altitudeSchema = z.number().finite();
+
+// Schema for a point position, altitude defaults to 0 when omitted
+// (extra values such as measures are accepted and dropped)
+export const positionSchema = z
+  .tuple([longitudeSchema, latitudeSchema])
+  .rest(altitudeSchema)
+  .transform(([lng, lat, altitude]): [number, number, number] => [
+    lng,
+    lat,
+    altitude ?? 0,
+  ]);
+
+export const pointGeometrySchema = z.object({
+  type: z.literal('Point'),
+  coordinates: positionSchema, // [longitude, latitude, altitude]
+});
+
+export type PointGeometry = z.infer<typeof pointGeometrySchema>;
+
+// Linear features such as trails
+export const lineStringGeometrySchema = z.object({
+  type: z.literal('LineString'),
+  coordinates: z
+    .array(positionSchema)
+    .min(2, 'Uma linha precisa de pelo menos 2 posições'),
+});
+
+export type LineStringGeometry = z.infer<typeof lineStringGeometrySchema>;
+
+// Closed ring: at least 4 positions with the last repeating the first
+const linearRingSchema = z
+  .array(positionSchema)
+  .min(4, 'Um anel de polígono precisa de pelo menos 4 posições')
+  .refine(
+    ring =>
+      ring[0][0] === ring[ring.length - 1][0] &&
+      ring[0][1] === ring[ring.length - 1][1],
+    'O anel do polígono não está fechado',
+  );
+
+// Areal features such as boundaries, the first ring is the exterior
+export const polygonGeometrySchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z
+    .array(linearRingSchema)
+    .min(1, 'Um polígono precisa de um anel externo'),
+});
+
+export type PolygonGeometry = z.infer<typeof polygonGeometrySchema>;
+
+export const markerGeometrySchema = z.discriminatedUnion('type', [
+  pointGeometrySchema,
+  lineStringGeometrySchema,
+  polygonGeometrySchema,
+]);
+
+export type MarkerGeometry = z.infer<typeof markerGeometrySchema>;
+
+// Geofence radius in meters; KML and CSV imports provide it as text
+const triggerRadiusSchema = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.coerce
+    .number()
+    .finite()
+    .positive('Raio de ativação deve ser positivo')
+    .optional(),
+);
 
 // Schema for marker properties
-export interface MarkerProperties {
-  name: string;
-  category: string;
-  description?: string;
-  icon?: string;
-  altitude?: number; // Optional altitude property for backward compatibility
-}
+export const markerPropertiesSchema = z
+  .object({
+    name: z.string().min(1, 'Nome obrigatório'),
+    category: z.string().default('default'),
+    description: z.string().optional(),
+    icon: z.string().optional(),
+    altitude: altitudeSchema.optional(), // Optional altitude property for backward compatibility
+    triggerRadius: triggerRadiusSchema.optional(), // Geofence radius in meters
+  })
+  .passthrough();
+
+export type MarkerProperties = z.infer<typeof markerPropertiesSchema>;
+
+// GeoJSON ids may be strings or numbers, markers always use strings
+export const markerIdSchema = z
+  .union([z.string().min(1), z.number()])
+  .transform(String);
 
 // Schema for an individual marker (GeoJSON Feature)
-export interface Marker {
-  id: string;
-  type: 'Feature';
-  geometry: PointGeometry;
-  properties: MarkerProperties;
-}
+export const markerSchema = z.object({
+  id: markerIdSchema,
+  type: z.literal('Feature'),
+  geometry: markerGeometrySchema,
+  properties: markerPropertiesSchema,
+});
+
+export type Marker = z.infer<typeof markerSchema>;
 
 // Schema for a collection of markers (GeoJSON FeatureCollection)
-export interface MarkersCollection {
-  type: 'FeatureCollection';
-  features: Marker[];
+export const markersCollectionSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(markerSchema),
+});
+
+export type MarkersCollection = z.infer<typeof markersCollectionSchema>;
+
+// Closest part of a line or polygon to the user
+export interface NearestGeometryPart {
+  kind: 'vertex' | 'edge';
+  index: number; // Vertex index, or index of the edge's first vertex
+  inside?: boolean; // Polygons only: user is inside the area
 }
 
 // Extended type with distance and bearing information
@@ -32,4 +132,6 @@ export interface MarkerWithDistance extends Marker {
   distance: number; // Distance in meters
   bearing: number; // Direction in degrees (0-360)
   verticalAngle?: number; // Vertical angle to the marker in degrees (optional)
+  anchor: [number, number, number]; // Point used for distance/bearing [lng, lat, alt]
+  nearest?: NearestGeometryPart; // Only for LineString and Polygon markers
 }
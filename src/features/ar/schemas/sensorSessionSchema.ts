@@ -0,0 +1,66 @@
+// Path: features\ar\schemas\sensorSessionSchema.ts
+import { z } from 'zod';
+
+// Timestamps share the page clock (performance.now / Event.timeStamp), in ms
+const timestampSchema = z.number().finite().nonnegative();
+
+const angleSchema = z.number().finite().nullable();
+
+// Leitura de deviceorientation (ver OrientationSample)
+export const orientationSampleSchema = z.object({
+  type: z.literal('orientation'),
+  timestamp: timestampSchema,
+  alpha: angleSchema,
+  beta: angleSchema,
+  gamma: angleSchema,
+  absolute: z.boolean(),
+  webkitCompassHeading: z.number().finite().nullable().optional(),
+  webkitCompassAccuracy: z.number().finite().nullable().optional(),
+});
+
+// Leitura de devicemotion (ver MotionSample)
+export const motionSampleSchema = z.object({
+  type: z.literal('motion'),
+  timestamp: timestampSchema,
+  rotationRate: z
+    .object({
+      alpha: z.number().finite(),
+      beta: z.number().finite(),
+      gamma: z.number().finite(),
+    })
+    .nullable(),
+  gravity: z
+    .tuple([z.number().finite(), z.number().finite(), z.number().finite()])
+    .nullable(),
+});
+
+// Leitura do watchPosition, com os mesmos valores passados a setCoordinates
+export const positionSampleSchema = z.object({
+  type: z.literal('position'),
+  timestamp: timestampSchema,
+  latitude: z.number().finite().min(-90).max(90),
+  longitude: z.number().finite().min(-180).max(180),
+  accuracy: z.number().finite().nonnegative(),
+  // null quando o aparelho não informa a altitude
+  altitude: z.number().finite().nullable(),
+});
+
+export type PositionSample = z.infer<typeof positionSampleSchema>;
+
+export const sessionSampleSchema = z.discriminatedUnion('type', [
+  orientationSampleSchema,
+  motionSampleSchema,
+  positionSampleSchema,
+]);
+
+export type SessionSample = z.infer<typeof sessionSampleSchema>;
+
+// Sessão gravada, exportada como arquivo JSON
+export const sensorSessionSchema = z.object({
+  version: z.literal(1),
+  recordedAt: z.string(),
+  userAgent: z.string(),
+  samples: z.array(sessionSampleSchema),
+});
+
+export type SensorSession = z.infer<typeof sensorSessionSchema>;
@@ -0,0 +1,97 @@
+// Path: features\ar\sensors\cameraSensor.ts
+import { useARStore } from '../stores/arStore';
+import { SensorProvider, SensorStatus } from './types';
+
+/**
+ * Whether an error message comes from the camera used by A-Frame/AR.js
+ */
+function isCameraErrorMessage(message: string): boolean {
+  return (
+    message.includes('camera') ||
+    message.includes('video') ||
+    message.includes('getUserMedia') ||
+    message.includes('NotReadableError')
+  );
+}
+
+/**
+ * Camera provider: checks the camera permission and watches the errors
+ * raised while AR.js streams the video (AR.js owns the stream itself)
+ */
+export function createCameraSensor(): SensorProvider {
+  const setState = (status: SensorStatus, error: string | null = null) =>
+    useARStore.getState().setSensorState('camera', { status, error });
+
+  let cleanup: (() => void) | null = null;
+
+  return {
+    name: 'camera',
+
+    requestPermission: async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setState('unavailable', 'Camera not supported');
+        return false;
+      }
+
+      setState('requesting');
+      try {
+        const cameraStream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' }, // Prefer back camera
+        });
+
+        // Release the camera immediately after permission check
+        // to avoid blocking it for AR.js
+        cameraStream.getTracks().forEach(track => track.stop());
+        setState('ready');
+        return true;
+      } catch (err) {
+        console.log('Camera permission not granted:', err);
+        const message = err instanceof Error ? err.message : String(err);
+        setState(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'denied'
+            : 'error',
+          message || 'Camera permission denied',
+        );
+        return false;
+      }
+    },
+
+    start: () => {
+      if (cleanup) return;
+      setState('active');
+
+      // Helper to capture camera errors from A-Frame/AR.js
+      const handleCameraError = (event: ErrorEvent) => {
+        if (event.message && isCameraErrorMessage(event.message)) {
+          console.error('Camera error detected:', event);
+          setState('error', event.message || 'Camera access error');
+        }
+      };
+
+      // Also set up a specific handler for A-Frame's camera errors
+      const onArError = (event: Event) => {
+        const { detail } = event as CustomEvent<{ error?: string }>;
+        if (detail?.error) {
+          console.error('Camera error detected:', detail.error);
+          setState('error', `AR.js: ${detail.error}`);
+        }
+      };
+
+      window.addEventListener('error', handleCameraError);
+      document.addEventListener('ar-camera-error', onArError);
+
+      cleanup = () => {
+        window.removeEventListener('error', handleCameraError);
+        document.removeEventListener('ar-camera-error', onArError);
+      };
+    },
+
+    stop: () => {
+      if (!cleanup) return;
+      cleanup();
+      cleanup = null;
+      setState('idle');
+    },
+  };
+}
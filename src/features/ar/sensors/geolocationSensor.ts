@@ -0,0 +1,131 @@
+// Path: features\ar\sensors\geolocationSensor.ts
+import { useARStore } from '../stores/arStore';
+import { recordSensorSample } from '../utils/sensorSession';
+import { SensorProvider, SensorStatus } from './types';
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  maximumAge: 0,
+  timeout: 10000,
+};
+
+// Leitura única usada para verificar a permissão
+const PERMISSION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 5000,
+  maximumAge: 0,
+};
+
+/**
+ * Maps a GeolocationPositionError to the sensor status and message
+ */
+function describePositionError(error: GeolocationPositionError): {
+  status: SensorStatus;
+  error: string;
+} {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return { status: 'denied', error: 'Location permission denied' };
+    case error.POSITION_UNAVAILABLE:
+      return { status: 'unavailable', error: 'Location unavailable' };
+    case error.TIMEOUT:
+      return { status: 'error', error: 'Location request timed out' };
+    default:
+      return { status: 'error', error: 'Location error' };
+  }
+}
+
+/**
+ * Publishes a fix to the store (and to the sensor recording, if any)
+ */
+function publishPosition(position: GeolocationPosition) {
+  // Altitude is null when the device does not provide it
+  const { altitude } = position.coords;
+
+  recordSensorSample({
+    type: 'position',
+    timestamp: performance.now(),
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy,
+    altitude,
+  });
+
+  // Updates distances in real-time as the user moves
+  useARStore
+    .getState()
+    .setCoordinates(
+      position.coords.latitude,
+      position.coords.longitude,
+      position.coords.accuracy,
+      altitude,
+    );
+}
+
+/**
+ * GPS provider backed by navigator.geolocation
+ */
+export function createGeolocationSensor(): SensorProvider {
+  const setState = (status: SensorStatus, error: string | null = null) =>
+    useARStore.getState().setSensorState('geolocation', { status, error });
+
+  let watchId: number | null = null;
+
+  return {
+    name: 'geolocation',
+
+    requestPermission: async () => {
+      if (!navigator.geolocation) {
+        setState('unavailable', 'Geolocation not supported');
+        return false;
+      }
+
+      setState('requesting');
+      try {
+        // A primeira leitura também define a posição inicial
+        // (the store generates sample markers on the first fix when needed)
+        const position = await new Promise<GeolocationPosition>(
+          (resolve, reject) =>
+            navigator.geolocation.getCurrentPosition(
+              resolve,
+              reject,
+              PERMISSION_OPTIONS,
+            ),
+        );
+        publishPosition(position);
+        setState('ready');
+        return true;
+      } catch (err) {
+        console.log('Location permission not granted:', err);
+        const { status, error } = describePositionError(
+          err as GeolocationPositionError,
+        );
+        setState(status, error);
+        return false;
+      }
+    },
+
+    start: () => {
+      if (watchId !== null || !navigator.geolocation) return;
+
+      watchId = navigator.geolocation.watchPosition(
+        position => {
+          setState('active');
+          publishPosition(position);
+        },
+        err => {
+          const { status, error } = describePositionError(err);
+          setState(status, error);
+        },
+        WATCH_OPTIONS,
+      );
+    },
+
+    stop: () => {
+      if (watchId === null) return;
+      navigator.geolocation.clearWatch(watchId);
+      watchId = null;
+      setState('idle');
+    },
+  };
+}
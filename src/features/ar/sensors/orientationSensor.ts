@@ -0,0 +1,172 @@
+// Path: features\ar\sensors\orientationSensor.ts
+import { useARStore } from '../stores/arStore';
+import {
+  OrientationEstimate,
+  SensorSample,
+  createOrientationFilter,
+  getOrientationEstimate,
+  hasOrientationChanged,
+  updateOrientationFilter,
+} from '../utils/orientation';
+import {
+  recordSensorSample,
+  subscribeToReplaySamples,
+} from '../utils/sensorSession';
+import { SensorProvider, SensorStatus } from './types';
+
+interface OrientationSensorOptions {
+  // Lê as amostras da sessão em reprodução em vez dos eventos do aparelho
+  replaying?: boolean;
+}
+
+const toOrientationSample = (event: DeviceOrientationEvent): SensorSample => ({
+  type: 'orientation',
+  timestamp: event.timeStamp,
+  alpha: event.alpha,
+  beta: event.beta,
+  gamma: event.gamma,
+  absolute: event.type === 'deviceorientationabsolute' || event.absolute,
+  webkitCompassHeading: event.webkitCompassHeading,
+  webkitCompassAccuracy: event.webkitCompassAccuracy,
+});
+
+const toMotionSample = (event: DeviceMotionEvent): SensorSample => {
+  const { rotationRate, accelerationIncludingGravity: gravity } = event;
+
+  return {
+    type: 'motion',
+    timestamp: event.timeStamp,
+    rotationRate:
+      rotationRate &&
+      rotationRate.alpha !== null &&
+      rotationRate.beta !== null &&
+      rotationRate.gamma !== null
+        ? {
+            alpha: rotationRate.alpha,
+            beta: rotationRate.beta,
+            gamma: rotationRate.gamma,
+          }
+        : null,
+    gravity:
+      gravity && gravity.x !== null && gravity.y !== null && gravity.z !== null
+        ? [gravity.x, gravity.y, gravity.z]
+        : null,
+  };
+};
+
+/**
+ * Orientation provider: fuses compass, gyroscope and gravity readings and
+ * publishes heading, pitch, roll and heading confidence to the AR store
+ */
+export function createOrientationSensor({
+  replaying = false,
+}: OrientationSensorOptions = {}): SensorProvider {
+  const setState = (status: SensorStatus, error: string | null = null) =>
+    useARStore.getState().setSensorState('orientation', { status, error });
+
+  let cleanup: (() => void) | null = null;
+
+  return {
+    name: 'orientation',
+
+    requestPermission: async () => {
+      if (typeof DeviceOrientationEvent === 'undefined') {
+        setState('unavailable', 'Device orientation not supported');
+        return false;
+      }
+
+      // iOS exige permissão explícita, concedida apenas após um gesto do usuário
+      const orientationEvent =
+        DeviceOrientationEvent as unknown as DeviceOrientationEventsupport;
+      if (typeof orientationEvent.requestPermission !== 'function') {
+        setState('ready');
+        return true;
+      }
+
+      setState('requesting');
+      try {
+        const permission = await orientationEvent.requestPermission();
+        setState(
+          permission === 'granted' ? 'ready' : 'denied',
+          permission === 'granted'
+            ? null
+            : 'Device orientation permission denied',
+        );
+        return permission === 'granted';
+      } catch (err) {
+        // Sem gesto do usuário o pedido falha; a permissão continua pendente
+        console.log('Orientation permission not requested:', err);
+        setState('idle');
+        return false;
+      }
+    },
+
+    start: () => {
+      if (cleanup) return;
+
+      let filter = createOrientationFilter();
+      let published: OrientationEstimate | null = null;
+      let receiving = false;
+
+      const handleSample = (sample: SensorSample) => {
+        if (!receiving) {
+          receiving = true;
+          setState('active');
+        }
+
+        filter = updateOrientationFilter(filter, sample);
+
+        // Publica apenas mudanças perceptíveis para evitar renderizações a cada evento
+        const estimate = getOrientationEstimate(filter);
+        if (hasOrientationChanged(published, estimate)) {
+          published = estimate;
+          useARStore.getState().setOrientation(estimate);
+        }
+      };
+
+      // Reprodução: o filtro recomeça do zero para resultados determinísticos
+      if (replaying) {
+        cleanup = subscribeToReplaySamples(handleSample);
+        return;
+      }
+
+      const handleLiveSample = (sample: SensorSample) => {
+        recordSensorSample(sample);
+        handleSample(sample);
+      };
+      const handleOrientation = (event: DeviceOrientationEvent) =>
+        handleLiveSample(toOrientationSample(event));
+      const handleMotion = (event: DeviceMotionEvent) =>
+        handleLiveSample(toMotionSample(event));
+
+      window.addEventListener(
+        'deviceorientationabsolute',
+        handleOrientation,
+        true,
+      );
+      window.addEventListener('deviceorientation', handleOrientation, true);
+      window.addEventListener('devicemotion', handleMotion, true);
+
+      cleanup = () => {
+        window.removeEventListener(
+          'deviceorientationabsolute',
+          handleOrientation,
+          true,
+        );
+        window.removeEventListener(
+          'deviceorientation',
+          handleOrientation,
+          true,
+        );
+        window.removeEventListener('devicemotion', handleMotion, true);
+      };
+    },
+
+    stop: () => {
+      if (!cleanup) return;
+      cleanup();
+      cleanup = null;
+      setState('idle');
+    },
+  };
+}
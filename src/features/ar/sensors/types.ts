@@ -0,0 +1,35 @@
+// Path: features\ar\sensors\types.ts
+
+export type SensorName = 'geolocation' | 'orientation' | 'camera';
+
+/**
+ * Ciclo de vida de um sensor
+ * idle: não iniciado · requesting: aguardando permissão · ready: permissão
+ * concedida · active: lendo · denied/unavailable/error: falhas
+ */
+export type SensorStatus =
+  | 'idle'
+  | 'requesting'
+  | 'ready'
+  | 'active'
+  | 'denied'
+  | 'unavailable'
+  | 'error';
+
+export interface SensorState {
+  status: SensorStatus;
+  error: string | null;
+}
+
+/**
+ * Common interface of the sensor providers: each one owns its browser
+ * listeners and publishes readings and its state to the AR store
+ */
+export interface SensorProvider {
+  readonly name: SensorName;
+  // Solicita a permissão (pode abrir o diálogo do navegador)
+  requestPermission: () => Promise<boolean>;
+  // Inicia a leitura contínua; chamadas repetidas não têm efeito
+  start: () => void;
+  stop: () => void;
+}
@@ -0,0 +1,75 @@
+// Path: features\ar\stores\arStore.test.ts
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getLastUsedDataset } from '../utils/datasetCache';
+import { getCachedDatasetSource } from '../utils/markerSources';
+import { useARStore } from './arStore';
+
+/**
+ * GeoJSON file with one point per name, keyed by the given ids
+ */
+const geojsonFile = (name: string, points: Record<string, string>) =>
+  new File(
+    [
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: Object.entries(points).map(([id, pointName]) => ({
+          id,
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [-43.2, -22.9] },
+          properties: { name: pointName },
+        })),
+      }),
+    ],
+    name,
+    { type: 'application/geo+json' },
+  );
+
+const markerNames = () =>
+  useARStore.getState().allMarkers.map(marker => marker.properties.name);
+
+describe('loadMarkers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('reopens the merged markers offline as the last used dataset', async () => {
+    // Instantes distintos para a ordem dos datasets usados por último
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { loadMarkers } = useARStore.getState();
+
+    await loadMarkers({
+      type: 'file',
+      file: geojsonFile('centro.geojson', { a: 'Museu', b: 'Praça' }),
+    });
+    vi.advanceTimersByTime(1000);
+    await loadMarkers(
+      {
+        type: 'file',
+        file: geojsonFile('praia.geojson', { b: 'Praça nova', c: 'Farol' }),
+      },
+      { mode: 'merge' },
+    );
+
+    const label = 'centro.geojson + praia.geojson';
+    expect(markerNames()).toEqual(['Museu', 'Praça nova', 'Farol']);
+    expect(useARStore.getState().markerSource.label).toBe(label);
+    // O dataset é salvo sem bloquear o carregamento
+    await vi.waitFor(async () =>
+      expect((await getLastUsedDataset())?.label).toBe(label),
+    );
+
+    // Reabre o app sem conexão, como o useInitialMarkers
+    vi.stubGlobal('navigator', { onLine: false });
+    useARStore.setState(useARStore.getInitialState(), true);
+    const dataset = await getLastUsedDataset();
+    await useARStore.getState().loadMarkers(getCachedDatasetSource(dataset!));
+
+    expect(markerNames()).toEqual(['Museu', 'Praça nova', 'Farol']);
+    expect(useARStore.getState()).toMatchObject({
+      markerSource: { type: 'cached', label },
+      markersError: null,
+    });
+  });
+});
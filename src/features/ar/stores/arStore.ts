@@ -1,79 +1,387 @@
 // Path: features\ar\stores\arStore.ts
-import { create } from 'zustand';
+import { create, StateCreator } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { MarkerWithDistance, Marker } from '../schemas/markerSchema';
 import { samplePOIs, generateSamplePOIs } from '../data/samplePOIs';
 import { processMarkers } from '../utils/arjsUtils';
+import {
+  MarkerSource,
+  MarkerSourceInfo,
+  MarkerLoadMode,
+  combineMarkers,
+  describeMarkerSource,
+  getDefaultMarkerSource,
+  loadMarkerSource,
+} from '../utils/markerSources';
+import { ValidationReport } from '../utils/markerValidation';
+import {
+  getCachedDataset,
+  getCachedDatasetId,
+  saveCachedDataset,
+  touchCachedDataset,
+} from '../utils/datasetCache';
+import { HeadingSource, OrientationEstimate } from '../utils/orientation';
+import { applyHeadingOffset } from '../utils/compassCalibration';
+import { getMagneticDeclination } from '../utils/magneticDeclination';
+import { CameraFieldOfView, ScreenFieldOfView } from '../utils/fieldOfView';
+import { SensorName, SensorState } from '../sensors/types';
+import { DEFAULT_RADAR_RANGE } from '../utils/radar';
+import {
+  DEFAULT_ARRIVAL_RADIUS,
+  NavigationMode,
+  NavigationTarget,
+} from '../utils/navigation';
+import { PathNetwork } from '../utils/pathNetwork';
+import { GeodesyMode } from '../utils/geodesy';
+import {
+  SpatialIndex,
+  getProcessingCandidates,
+  indexMarkers,
+} from '../utils/spatialIndex';
+import {
+  MarkerProcessor,
+  createMarkerProcessor,
+} from '../workers/markerProcessor';
+import {
+  GEOFENCE_LOG_LIMIT,
+  GEOFENCE_MAX_ACCURACY,
+  GeofenceEvent,
+  GeofenceMarkerState,
+  announceGeofenceEvent,
+  updateGeofences,
+} from '../utils/geofences';
+import {
+  DEFAULT_POSITION_FILTER_CONFIG,
+  PositionFilterMode,
+  PositionFilterState,
+  getPositionEstimate,
+  hasPositionChanged,
+  updatePositionFilter,
+} from '../utils/positionFilter';
+
+interface LoadMarkersOptions {
+  mode?: MarkerLoadMode;
+  // Gera pontos de exemplo ao redor do usuário se o carregamento falhar
+  fallbackToSample?: boolean;
+}
+
+interface Coordinates {
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  altitude: number | null;
+}
+
+const EMPTY_COORDINATES: Coordinates = {
+  latitude: null,
+  longitude: null,
+  accuracy: null,
+  altitude: null,
+};
 
 interface ARState {
-  // Location state
-  coordinates: {
-    latitude: number | null;
-    longitude: number | null;
-    accuracy: number | null;
-    altitude: number | null;
-  };
+  // Location state: posição filtrada, usada nos cálculos dos marcadores
+  coordinates: Coordinates;
+  // Última leitura do GPS, sem filtragem (altitude null quando indisponível)
+  rawCoordinates: Coordinates;
+  // Instante da última leitura do GPS (Date.now)
+  lastFixTime: number | null;
+  positionFilter: PositionFilterState | null;
+  positionFilterMode: PositionFilterMode;
+  // Velocidade estimada (m/s), null quando o filtro não a estima
+  speed: number | null;
+  isStationary: boolean;
   heading: number | null;
+  pitch: number | null;
+  roll: number | null;
+  headingConfidence: number;
+  headingSource: HeadingSource | null;
+  compassAccuracy: number | null;
+  magneticDisturbance: boolean;
   compassCalibrated: boolean;
-  locationPermission: boolean | null;
-  locationError: string | null;
+  // Ajuste manual da direção (graus), definido mirando um marcador conhecido
+  headingOffset: number;
+  // Declinação magnética na posição atual (graus, positiva para leste)
+  magneticDeclination: number | null;
+  // Campo de visão calibrado por câmera do aparelho
+  fieldOfViewCalibrations: Record<string, CameraFieldOfView>;
+  // Campo de visão exibido na última visualização AR (usado no mapa 2D)
+  arFieldOfView: ScreenFieldOfView | null;
+  // Permissão, leitura e erros de cada sensor
+  sensors: Record<SensorName, SensorState>;
 
   // Markers state
   allMarkers: Marker[];
+  // Índice espacial dos marcadores, apenas para datasets grandes
+  markerIndex: SpatialIndex | null;
   visibleMarkers: MarkerWithDistance[];
   selectedMarkerId: string | null;
+  // Marcador indicado pelas setas na borda da tela após fechar o InfoCard
+  locatedMarkerId: string | null;
   markersGenerated: boolean;
+  markerSource: MarkerSourceInfo;
+  markersLoading: boolean;
+  markersError: string | null;
+  validationReport: ValidationReport | null;
+  // Alcance do radar de marcadores (metros)
+  radarRange: number;
+  // Agrupa marcadores próximos em direção e distância na visualização AR
+  markerClustering: boolean;
+  // Esfera (rápido) ou elipsoide WGS84 (preciso) nos cálculos dos marcadores
+  geodesyMode: GeodesyMode;
+
+  // Navigation state: destino mantido entre sessões até ser cancelado
+  navigationTarget: NavigationTarget | null;
+  navigationMode: NavigationMode;
+  // Distância ao destino considerada chegada (metros)
+  arrivalRadius: number;
+  // Rede de caminhos carregada para o modo 'network' (não persistida)
+  pathNetwork: PathNetwork | null;
+
+  // Geofence state: marcadores com o usuário dentro do raio de ativação
+  geofenceStates: Record<string, GeofenceMarkerState>;
+  // Alertas exibidos na tela, do mais recente para o mais antigo
+  geofenceAlerts: GeofenceEvent[];
+  // Histórico de eventos mantido entre sessões
+  geofenceLog: GeofenceEvent[];
+  geofenceNotifications: boolean;
 
   // Location actions
   setCoordinates: (
     lat: number,
     lng: number,
     accuracy: number,
-    altitude?: number,
+    altitude?: number | null,
+    timestamp?: number,
   ) => void;
+  setPositionFilterMode: (mode: PositionFilterMode) => void;
+  resetPositionFilter: () => void;
   setHeading: (heading: number) => void;
+  setOrientation: (orientation: OrientationEstimate) => void;
   setCompassCalibrated: (calibrated: boolean) => void;
-  setLocationPermission: (permission: boolean) => void;
-  setLocationError: (error: string | null) => void;
+  setHeadingOffset: (offset: number) => void;
+  setFieldOfViewCalibration: (
+    key: string,
+    fieldOfView: CameraFieldOfView | null,
+  ) => void;
+  setARFieldOfView: (fieldOfView: ScreenFieldOfView) => void;
+  setSensorState: (name: SensorName, state: Partial<SensorState>) => void;
 
   // Markers actions
   selectMarker: (id: string | null) => void;
+  locateMarker: (id: string | null) => void;
   generateMarkersAtLocation: (
     lat: number,
     lng: number,
     altitude?: number,
   ) => void;
+  loadMarkers: (
+    source: MarkerSource,
+    options?: LoadMarkersOptions,
+  ) => Promise<void>;
   updateVisibleMarkers: () => void;
+  clearValidationReport: () => void;
+  setRadarRange: (range: number) => void;
+  setMarkerClustering: (enabled: boolean) => void;
+  setGeodesyMode: (mode: GeodesyMode) => void;
+
+  // Navigation actions
+  startNavigation: (marker: MarkerWithDistance) => void;
+  cancelNavigation: () => void;
+  markNavigationArrived: () => void;
+  setNavigationMode: (mode: NavigationMode) => void;
+  setArrivalRadius: (radius: number) => void;
+  setPathNetwork: (network: PathNetwork | null) => void;
+
+  // Geofence actions
+  evaluateGeofences: () => void;
+  dismissGeofenceAlert: (id: string) => void;
+  clearGeofenceLog: () => void;
+  setGeofenceNotifications: (enabled: boolean) => void;
 }
 
-export const useARStore = create<ARState>((set, get) => ({
+// Alertas de proximidade exibidos ao mesmo tempo
+const MAX_GEOFENCE_ALERTS = 3;
+
+// Marcadores processados mesmo fora do raio do índice espacial
+const getPinnedMarkerIds = (state: ARState) =>
+  [
+    state.selectedMarkerId,
+    state.locatedMarkerId,
+    state.navigationTarget?.markerId,
+  ].filter((id): id is string => !!id);
+
+// Worker dos cálculos dos marcadores, criado na primeira atualização
+// (null sem suporte a workers ou após uma falha: o cálculo volta para a
+// thread principal)
+let markerProcessor: MarkerProcessor | null | undefined;
+
+const getMarkerProcessor = () => {
+  if (markerProcessor === undefined) {
+    markerProcessor = createMarkerProcessor({
+      // Apenas o resultado da posição mais recente chega aqui
+      onResult: markers => {
+        useARStore.setState({ visibleMarkers: markers });
+        useARStore.getState().evaluateGeofences();
+      },
+      onError: () => {
+        markerProcessor = null;
+        useARStore.getState().updateVisibleMarkers();
+      },
+    });
+  }
+  return markerProcessor;
+};
+
+// Estado e ações da loja; a persistência é aplicada em useARStore
+const createARStore: StateCreator<ARState, [['zustand/persist', unknown]]> = (
+  set,
+  get,
+) => ({
   // Initial location state
-  coordinates: {
-    latitude: null,
-    longitude: null,
-    accuracy: null,
-    altitude: null,
-  },
+  coordinates: EMPTY_COORDINATES,
+  rawCoordinates: EMPTY_COORDINATES,
+  lastFixTime: null,
+  positionFilter: null,
+  positionFilterMode: 'kalman',
+  speed: null,
+  isStationary: false,
   heading: null,
+  pitch: null,
+  roll: null,
+  headingConfidence: 0,
+  headingSource: null,
+  compassAccuracy: null,
+  magneticDisturbance: false,
   compassCalibrated: false,
-  locationPermission: null,
-  locationError: null,
+  headingOffset: 0,
+  magneticDeclination: null,
+  fieldOfViewCalibrations: {},
+  arFieldOfView: null,
+  sensors: {
+    geolocation: { status: 'idle', error: null },
+    orientation: { status: 'idle', error: null },
+    camera: { status: 'idle', error: null },
+  },
 
   // Initial markers state
   allMarkers: samplePOIs.features,
+  markerIndex: indexMarkers(samplePOIs.features),
   visibleMarkers: [],
   selectedMarkerId: null,
+  locatedMarkerId: null,
   markersGenerated: false,
+  markerSource: describeMarkerSource(getDefaultMarkerSource()),
+  markersLoading: false,
+  markersError: null,
+  validationReport: null,
+  radarRange: DEFAULT_RADAR_RANGE,
+  markerClustering: true,
+  geodesyMode: 'fast',
+
+  // Initial navigation state
+  navigationTarget: null,
+  navigationMode: 'straight',
+  arrivalRadius: DEFAULT_ARRIVAL_RADIUS,
+  pathNetwork: null,
+
+  // Initial geofence state
+  geofenceStates: {},
+  geofenceAlerts: [],
+  geofenceLog: [],
+  geofenceNotifications: false,
 
   // Location actions
-  setCoordinates: (latitude, longitude, accuracy, altitude = 0) => {
-    set({ coordinates: { latitude, longitude, accuracy, altitude } });
+  setCoordinates: (
+    rawLatitude,
+    rawLongitude,
+    rawAccuracy,
+    rawAltitude = 0,
+    timestamp = performance.now(),
+  ) => {
+    const { positionFilter, positionFilterMode, coordinates } = get();
+    const rawCoordinates = {
+      latitude: rawLatitude,
+      longitude: rawLongitude,
+      accuracy: rawAccuracy,
+      altitude: rawAltitude,
+    };
+    const fix = { ...rawCoordinates, altitude: rawAltitude ?? 0 };
+    set({ rawCoordinates, lastFixTime: Date.now() });
+
+    if (positionFilterMode === 'off') {
+      set({
+        coordinates: fix,
+        positionFilter: null,
+        speed: null,
+        isStationary: false,
+      });
+    } else {
+      // Suaviza a leitura e descarta saltos impossíveis
+      const config = {
+        ...DEFAULT_POSITION_FILTER_CONFIG,
+        mode: positionFilterMode,
+      };
+      const filter = updatePositionFilter(
+        positionFilter,
+        { ...fix, timestamp },
+        config,
+      );
+      const estimate = getPositionEstimate(filter, config);
 
-    // If we receive location for the first time and markers are not generated yet,
+      set({
+        positionFilter: filter,
+        speed: estimate.speed,
+        isStationary: estimate.isStationary,
+      });
+
+      // Parado, pequenas variações não são publicadas para que os
+      // azimutes dos marcadores próximos não girem (a primeira leitura
+      // após reiniciar o filtro é sempre publicada)
+      if (positionFilter && !hasPositionChanged(coordinates, estimate)) {
+        // A precisão continua atualizada (o instante da leitura já foi
+        // registrado em lastFixTime): a qualidade da localização e as
+        // cercas usam a precisão atual
+        if (coordinates.accuracy !== estimate.accuracy) {
+          set({ coordinates: { ...coordinates, accuracy: estimate.accuracy } });
+        }
+        // A permanência nos raios de ativação depende só do tempo
+        get().evaluateGeofences();
+        return;
+      }
+
+      set({
+        coordinates: {
+          latitude: estimate.latitude,
+          longitude: estimate.longitude,
+          accuracy: estimate.accuracy,
+          altitude: estimate.altitude,
+        },
+      });
+    }
+
+    const { latitude, longitude, altitude } = get().coordinates;
+    if (latitude === null || longitude === null) return;
+
+    set({
+      magneticDeclination: getMagneticDeclination(
+        latitude,
+        longitude,
+        altitude ?? 0,
+      ),
+    });
+
+    // If we receive location for the first time and the sample source is active,
     // generate markers around the user's current position
+    // (not while another source is loading, so they are not thrown away)
     const state = get();
     if (latitude && longitude) {
-      if (!state.markersGenerated) {
-        get().generateMarkersAtLocation(latitude, longitude, altitude);
+      if (
+        !state.markersGenerated &&
+        !state.markersLoading &&
+        state.markerSource.type === 'sample'
+      ) {
+        get().generateMarkersAtLocation(latitude, longitude, altitude ?? 0);
       } else {
         // Update the visible markers with new distance calculations
         get().updateVisibleMarkers();
@@ -81,13 +389,78 @@ export const useARStore = create<ARState>((set, get) => ({
     }
   },
 
+  setPositionFilterMode: mode => {
+    set({ positionFilterMode: mode });
+    get().resetPositionFilter();
+  },
+  // A próxima leitura reinicia o filtro (ex.: teletransporte na simulação)
+  resetPositionFilter: () => set({ positionFilter: null }),
+
   setHeading: heading => set({ heading }),
+  setOrientation: orientation => {
+    const { headingOffset, magneticDeclination, compassCalibrated } = get();
+    // A bússola aponta para o norte magnético; os azimutes dos marcadores
+    // usam o norte verdadeiro. Leituras relativas não têm referência de norte
+    const declination =
+      orientation.headingSource === 'relative' ? 0 : (magneticDeclination ?? 0);
+    set({
+      ...orientation,
+      heading:
+        orientation.heading === null
+          ? null
+          : applyHeadingOffset(
+              orientation.heading,
+              declination + headingOffset,
+            ),
+      // Interferência magnética invalida a calibração anterior
+      compassCalibrated: compassCalibrated && !orientation.magneticDisturbance,
+    });
+  },
   setCompassCalibrated: calibrated => set({ compassCalibrated: calibrated }),
-  setLocationPermission: permission => set({ locationPermission: permission }),
-  setLocationError: error => set({ locationError: error }),
+  setHeadingOffset: offset => {
+    const { heading, headingOffset } = get();
+    set({
+      headingOffset: offset,
+      // Reaplica o ajuste à direção atual sem esperar o próximo evento
+      heading:
+        heading === null
+          ? null
+          : applyHeadingOffset(heading, offset - headingOffset),
+    });
+  },
+  setFieldOfViewCalibration: (key, fieldOfView) => {
+    const calibrations = { ...get().fieldOfViewCalibrations };
+    if (fieldOfView) {
+      calibrations[key] = fieldOfView;
+    } else {
+      delete calibrations[key];
+    }
+    set({ fieldOfViewCalibrations: calibrations });
+  },
+  setARFieldOfView: fieldOfView => set({ arFieldOfView: fieldOfView }),
+  setSensorState: (name, state) => {
+    const { sensors } = get();
+    const current = sensors[name];
+    const next = { ...current, ...state };
+    // Leituras contínuas repetem o mesmo estado; evita renderizações
+    if (next.status === current.status && next.error === current.error) {
+      return;
+    }
+    set({ sensors: { ...sensors, [name]: next } });
+  },
 
   // Markers actions
-  selectMarker: id => set({ selectedMarkerId: id }),
+  selectMarker: id => {
+    set({ selectedMarkerId: id });
+    // Com o índice, marcadores distantes (ex.: escolhidos no mapa) só
+    // são processados quando selecionados
+    const { markerIndex, visibleMarkers } = get();
+    if (id && markerIndex && !visibleMarkers.some(marker => marker.id === id)) {
+      get().updateVisibleMarkers();
+    }
+  },
+  // Fecha o InfoCard e passa a indicar o marcador na visualização AR
+  locateMarker: id => set({ locatedMarkerId: id, selectedMarkerId: null }),
 
   // Generate new markers at the user's location
   generateMarkersAtLocation: (lat, lng, altitude = 0) => {
@@ -98,39 +471,279 @@ export const useARStore = create<ARState>((set, get) => ({
 
     set({
       allMarkers: newPOIs.features,
+      markerIndex: indexMarkers(newPOIs.features),
       markersGenerated: true,
+      markerSource: describeMarkerSource({ type: 'sample' }),
     });
 
     // Process markers with distance and bearing for UI
-    const state = get();
-    if (state.coordinates.latitude && state.coordinates.longitude) {
-      const processedMarkers = processMarkers(
-        newPOIs.features,
-        state.coordinates.latitude,
-        state.coordinates.longitude,
-        altitude,
+    get().updateVisibleMarkers();
+  },
+
+  // Load markers from a bundled dataset, a local file, a URL, the offline cache
+  // or the sample generator
+  loadMarkers: async (
+    source,
+    { mode = 'replace', fallbackToSample = false } = {},
+  ) => {
+    const { coordinates } = get();
+
+    if (source.type === 'sample') {
+      set({
+        markerSource: describeMarkerSource(source),
+        markersError: null,
+        validationReport: null,
+      });
+      // Sem localização, os pontos serão gerados na primeira leitura do GPS
+      if (coordinates.latitude && coordinates.longitude) {
+        get().generateMarkersAtLocation(
+          coordinates.latitude,
+          coordinates.longitude,
+          coordinates.altitude || 0,
+        );
+      } else {
+        set({
+          allMarkers: [],
+          markerIndex: null,
+          visibleMarkers: [],
+          markersGenerated: false,
+        });
+      }
+      return;
+    }
+
+    set({ markersLoading: true, markersError: null });
+
+    try {
+      const { collection, report } = await loadMarkerSource(source);
+      const current = get();
+      const allMarkers = combineMarkers(
+        current.allMarkers,
+        collection.features,
+        mode,
       );
 
-      set({ visibleMarkers: processedMarkers });
+      // Combinados, os marcadores exibidos vêm de mais de uma origem: o
+      // conjunto inteiro é salvo como um dataset e reaberto sem conexão
+      const combined =
+        mode !== 'replace' && current.allMarkers.length > 0
+          ? `${current.markerSource.label} + ${describeMarkerSource(source).label}`
+          : null;
+
+      set({
+        allMarkers,
+        markerIndex: indexMarkers(allMarkers),
+        markerSource: combined
+          ? { type: 'cached', label: combined }
+          : describeMarkerSource(source),
+        markersLoading: false,
+        validationReport: report,
+        // Impede que o gerador de exemplo sobrescreva os dados carregados
+        markersGenerated: true,
+      });
+      get().updateVisibleMarkers();
+
+      // Guarda o dataset no aparelho para uso sem conexão
+      const saved = combined
+        ? saveCachedDataset({
+            sourceType: 'combined',
+            label: combined,
+            collection: { type: 'FeatureCollection', features: allMarkers },
+          })
+        : source.type === 'cached'
+          ? touchCachedDataset(source.id)
+          : saveCachedDataset({
+              sourceType: source.type,
+              label: describeMarkerSource(source).label,
+              url: source.type === 'url' ? source.url : undefined,
+              collection,
+            });
+      saved.catch(error =>
+        console.warn('Could not cache marker dataset:', error),
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Falha ao carregar marcadores';
+      console.error('Error loading markers:', error);
+      set({
+        markersLoading: false,
+        markersError: message,
+        validationReport: null,
+      });
+
+      // Sem conexão, usa a cópia salva do mesmo dataset, se houver
+      if (source.type !== 'cached') {
+        const id = getCachedDatasetId(
+          source.type,
+          describeMarkerSource(source).label,
+        );
+        const cached = await getCachedDataset(id).catch(() => null);
+        if (cached) {
+          await get().loadMarkers(
+            { type: 'cached', id, label: cached.label },
+            { mode, fallbackToSample },
+          );
+          return;
+        }
+      }
+
+      if (fallbackToSample) {
+        await get().loadMarkers({ type: 'sample' });
+      }
     }
   },
 
   // Update visible markers when location changes
   updateVisibleMarkers: () => {
     const state = get();
-    if (
-      state.coordinates.latitude &&
-      state.coordinates.longitude &&
-      state.allMarkers.length > 0
-    ) {
+    const processor = getMarkerProcessor();
+    if (!state.allMarkers.length) {
+      // Descarta o resultado de um cálculo ainda em andamento
+      processor?.setMarkers(state.allMarkers);
+      set({ visibleMarkers: [] });
+      return;
+    }
+
+    const { latitude, longitude, altitude } = state.coordinates;
+    if (latitude && longitude) {
+      const pinnedIds = getPinnedMarkerIds(state);
+
+      // O worker publica o resultado quando terminar
+      if (processor) {
+        processor.setMarkers(state.allMarkers);
+        processor.process({
+          latitude,
+          longitude,
+          altitude: altitude || 0,
+          pinnedIds,
+          mode: state.geodesyMode,
+        });
+        return;
+      }
+
       const processedMarkers = processMarkers(
-        state.allMarkers,
-        state.coordinates.latitude,
-        state.coordinates.longitude,
-        state.coordinates.altitude || 0,
+        getProcessingCandidates(
+          state.allMarkers,
+          state.markerIndex,
+          latitude,
+          longitude,
+          pinnedIds,
+        ),
+        latitude,
+        longitude,
+        altitude || 0,
+        state.geodesyMode,
       );
 
       set({ visibleMarkers: processedMarkers });
+      get().evaluateGeofences();
+    }
+  },
+
+  clearValidationReport: () => set({ validationReport: null }),
+  setRadarRange: range => set({ radarRange: range }),
+  setMarkerClustering: enabled => set({ markerClustering: enabled }),
+  setGeodesyMode: mode => {
+    set({ geodesyMode: mode });
+    get().updateVisibleMarkers();
+  },
+
+  // Navigation actions
+  // Troca o InfoCard pelo HUD de navegação até o marcador
+  startNavigation: marker =>
+    set({
+      navigationTarget: {
+        markerId: marker.id,
+        name: marker.properties.name,
+        position: marker.anchor,
+        startedAt: Date.now(),
+        arrivedAt: null,
+      },
+      selectedMarkerId: null,
+      locatedMarkerId: null,
+    }),
+  cancelNavigation: () => set({ navigationTarget: null }),
+  markNavigationArrived: () => {
+    const { navigationTarget } = get();
+    if (navigationTarget && navigationTarget.arrivedAt === null) {
+      set({
+        navigationTarget: { ...navigationTarget, arrivedAt: Date.now() },
+      });
     }
   },
-}));
+  setNavigationMode: mode => set({ navigationMode: mode }),
+  setArrivalRadius: radius => set({ arrivalRadius: radius }),
+  setPathNetwork: network => set({ pathNetwork: network }),
+
+  // Geofence actions
+  // Gera os eventos de entrada, permanência e saída para a posição atual
+  evaluateGeofences: () => {
+    const {
+      coordinates,
+      visibleMarkers,
+      geofenceStates,
+      geofenceAlerts,
+      geofenceLog,
+      geofenceNotifications,
+    } = get();
+    // Com posição imprecisa, mantém a situação anterior
+    if (
+      coordinates.accuracy === null ||
+      coordinates.accuracy > GEOFENCE_MAX_ACCURACY
+    ) {
+      return;
+    }
+
+    const { states, events } = updateGeofences(
+      geofenceStates,
+      visibleMarkers,
+      Date.now(),
+    );
+    if (!events.length) {
+      set({ geofenceStates: states });
+      return;
+    }
+
+    const latest = [...events].reverse();
+    set({
+      geofenceStates: states,
+      geofenceAlerts: [...latest, ...geofenceAlerts].slice(
+        0,
+        MAX_GEOFENCE_ALERTS,
+      ),
+      geofenceLog: [...latest, ...geofenceLog].slice(0, GEOFENCE_LOG_LIMIT),
+    });
+    events.forEach(event =>
+      announceGeofenceEvent(event, geofenceNotifications),
+    );
+  },
+  dismissGeofenceAlert: id =>
+    set({
+      geofenceAlerts: get().geofenceAlerts.filter(alert => alert.id !== id),
+    }),
+  clearGeofenceLog: () => set({ geofenceLog: [] }),
+  setGeofenceNotifications: enabled => set({ geofenceNotifications: enabled }),
+});
+
+export const useARStore = create<ARState>()(
+  persist(createARStore, {
+    name: 'ar-location-settings',
+    // Calibrações da bússola e da câmera, o filtro de posição, o alcance
+    // do radar, o agrupamento, o modo geodésico, a navigação em andamento
+    // e o histórico de proximidade são mantidos entre sessões
+    partialize: state => ({
+      compassCalibrated: state.compassCalibrated,
+      headingOffset: state.headingOffset,
+      fieldOfViewCalibrations: state.fieldOfViewCalibrations,
+      positionFilterMode: state.positionFilterMode,
+      radarRange: state.radarRange,
+      markerClustering: state.markerClustering,
+      geodesyMode: state.geodesyMode,
+      navigationTarget: state.navigationTarget,
+      navigationMode: state.navigationMode,
+      arrivalRadius: state.arrivalRadius,
+      geofenceLog: state.geofenceLog,
+      geofenceNotifications: state.geofenceNotifications,
+    }),
+  }),
+);
@@ -1,5 +1,19 @@
 // Path: features\ar\utils\arjsUtils.ts
-import { Marker, MarkerWithDistance } from '../schemas/markerSchema';
+import {
+  Marker,
+  MarkerGeometry,
+  MarkerWithDistance,
+  NearestGeometryPart,
+  PolygonGeometry,
+} from '../schemas/markerSchema';
+import {
+  GeodesyMode,
+  calculateApparentElevation,
+  calculateSlantDistance,
+  vincentyInverse,
+} from './geodesy';
+
+type Position = [number, number, number];
 
 /**
  * Sets up AR.js custom components and utilities
@@ -150,13 +164,36 @@ export function calculateVerticalAngle(
   return Math.atan2(altDiff, distance2D) * (180 / Math.PI);
 }
 
+/**
+ * Altitude for the A-Frame entity of a marker: the scene is flat, so the
+ * height comes from the vertical angle at the horizontal distance of the
+ * anchor (with the curvature and refraction drop of the accurate geodesy
+ * mode) instead of the raw marker altitude
+ */
+export function getSceneAltitude(
+  { anchor, verticalAngle }: { anchor: Position; verticalAngle?: number },
+  userLat: number,
+  userLng: number,
+  userAlt: number,
+): number {
+  const [lng, lat, altitude = 0] = anchor;
+  // Diretamente acima/abaixo, o ângulo não define a altura
+  if (verticalAngle === undefined || Math.abs(verticalAngle) >= 90) {
+    return altitude;
+  }
+
+  const distance2D = calculateDistance(userLat, userLng, lat, lng);
+  return userAlt + distance2D * Math.tan((verticalAngle * Math.PI) / 180);
+}
+
 /**
  * Calculates the horizontal position of a marker on screen
+ * `fieldOfView` is the horizontal screen field of view (see useCameraFieldOfView)
  */
 export function calculateMarkerPosition(
   bearing: number,
   heading: number,
-  fieldOfView: number = 60,
+  fieldOfView: number,
 ): number {
   // Calcula posição considerando a orientação correta da bússola
   let relativeBearing = bearing - heading;
@@ -173,6 +210,62 @@ export function calculateMarkerPosition(
   return Math.max(0.05, Math.min(0.95, position));
 }
 
+/**
+ * Projects a marker direction onto the screen with a pinhole camera model
+ * Uses the bearing relative to the heading, the marker elevation angle and
+ * the camera pitch/roll, so elevated markers stay in place as the device tilts
+ *
+ * @returns Normalized screen coordinates (0-1, origin at the top left),
+ * or null when the marker is behind the camera
+ */
+export function projectMarkerToScreen({
+  relativeBearing,
+  verticalAngle,
+  pitch,
+  roll,
+  horizontalFieldOfView,
+  width,
+  height,
+}: {
+  relativeBearing: number;
+  verticalAngle: number;
+  pitch: number;
+  roll: number;
+  horizontalFieldOfView: number;
+  width: number;
+  height: number;
+}): { x: number; y: number } | null {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const bearing = toRadians(relativeBearing);
+  const elevation = toRadians(verticalAngle);
+  const tilt = toRadians(pitch);
+  const rotation = toRadians(roll);
+
+  // Direção do marcador alinhada à direção da câmera (frente, direita, cima)
+  const forward = Math.cos(elevation) * Math.cos(bearing);
+  const right = Math.cos(elevation) * Math.sin(bearing);
+  const up = Math.sin(elevation);
+
+  // Inclinação da câmera em torno do eixo lateral
+  const cameraForward = forward * Math.cos(tilt) + up * Math.sin(tilt);
+  const cameraUp = -forward * Math.sin(tilt) + up * Math.cos(tilt);
+  if (cameraForward <= 0.01) return null;
+
+  // Rotação da tela (aparelho girado no sentido horário)
+  const screenRight =
+    right * Math.cos(rotation) - cameraUp * Math.sin(rotation);
+  const screenUp = right * Math.sin(rotation) + cameraUp * Math.cos(rotation);
+
+  // Distância focal em pixels a partir do campo de visão horizontal
+  // (o campo de visão vertical decorre da proporção da tela)
+  const focal = width / 2 / Math.tan(toRadians(horizontalFieldOfView) / 2);
+
+  return {
+    x: 0.5 + (focal * (screenRight / cameraForward)) / width,
+    y: 0.5 - (focal * (screenUp / cameraForward)) / height,
+  };
+}
+
 /**
  * Formats distance with appropriate units
  */
@@ -192,6 +285,16 @@ export function formatAltitude(altitudeInMeters: number): string {
   return `${sign}${Math.round(altitudeInMeters)}m`;
 }
 
+/**
+ * Describes the nearest part of a line or polygon marker
+ */
+export function formatNearestPart(part: NearestGeometryPart): string {
+  if (part.inside) return 'dentro da área';
+  return part.kind === 'vertex'
+    ? `vértice ${part.index + 1}`
+    : `borda ${part.index + 1}–${part.index + 2}`;
+}
+
 /**
  * Converts azimuth (degrees) to cardinal direction
  * Ajustado para direção correta da bússola
@@ -202,15 +305,219 @@ export function azimuthToCardinal(azimuth: number): string {
   return cardinals[Math.round(azimuth / 45) % 8];
 }
 
+/**
+ * Converts a position to local east/north/up offsets in meters from an origin
+ * Uses an equirectangular approximation, suitable for distances of a few km
+ */
+export function toLocalOffset(
+  origin: Position,
+  position: Position,
+): { east: number; north: number; up: number } {
+  const R = 6371e3;
+  const φ0 = (origin[1] * Math.PI) / 180;
+  return {
+    east: (((position[0] - origin[0]) * Math.PI) / 180) * R * Math.cos(φ0),
+    north: (((position[1] - origin[1]) * Math.PI) / 180) * R,
+    up: position[2] - origin[2],
+  };
+}
+
+/**
+ * Returns the outline vertices of a geometry
+ * For polygons, the exterior ring without its closing position
+ */
+export function getGeometryVertices(geometry: MarkerGeometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'LineString':
+      return geometry.coordinates;
+    case 'Polygon':
+      return geometry.coordinates[0].slice(0, -1);
+  }
+}
+
+/**
+ * Checks whether a location is inside a polygon (ray casting, holes excluded)
+ */
+export function isPointInPolygon(
+  lat: number,
+  lng: number,
+  polygon: PolygonGeometry,
+): boolean {
+  const isInRing = (ring: Position[]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (
+        yi > lat !== yj > lat &&
+        lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  };
+
+  const [exterior, ...holes] = polygon.coordinates;
+  return isInRing(exterior) && !holes.some(isInRing);
+}
+
+/**
+ * Finds the closest vertex or edge point of a line or polygon to a location
+ * Altitude along an edge is interpolated linearly between its vertices
+ */
+export function findNearestGeometryPoint(
+  geometry: Exclude<MarkerGeometry, { type: 'Point' }>,
+  lat: number,
+  lng: number,
+): { position: Position; part: NearestGeometryPart } {
+  const origin: Position = [lng, lat, 0];
+  const paths =
+    geometry.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry.coordinates;
+
+  let best = {
+    distanceSq: Infinity,
+    position: paths[0][0],
+    part: { kind: 'vertex', index: 0 } as NearestGeometryPart,
+  };
+
+  paths.forEach(path => {
+    for (let i = 0; i < path.length - 1; i++) {
+      const a = toLocalOffset(origin, path[i]);
+      const b = toLocalOffset(origin, path[i + 1]);
+      const dx = b.east - a.east;
+      const dy = b.north - a.north;
+      const lengthSq = dx * dx + dy * dy;
+
+      // Projeção do usuário (origem) sobre o segmento, limitada às extremidades
+      const t =
+        lengthSq === 0
+          ? 0
+          : Math.max(0, Math.min(1, -(a.east * dx + a.north * dy) / lengthSq));
+      const x = a.east + t * dx;
+      const y = a.north + t * dy;
+      const distanceSq = x * x + y * y;
+
+      if (distanceSq < best.distanceSq) {
+        const [lng1, lat1, alt1] = path[i];
+        const [lng2, lat2, alt2] = path[i + 1];
+        best = {
+          distanceSq,
+          position: [
+            lng1 + t * (lng2 - lng1),
+            lat1 + t * (lat2 - lat1),
+            alt1 + t * (alt2 - alt1),
+          ],
+          part:
+            t === 0
+              ? { kind: 'vertex', index: i }
+              : t === 1
+                ? { kind: 'vertex', index: i + 1 }
+                : { kind: 'edge', index: i },
+        };
+      }
+    }
+  });
+
+  if (geometry.type === 'Polygon') {
+    // O último vértice do anel repete o primeiro
+    const ringLength = geometry.coordinates[0].length - 1;
+    if (best.part.kind === 'vertex' && best.part.index === ringLength) {
+      best.part.index = 0;
+    }
+    best.part.inside = isPointInPolygon(lat, lng, geometry);
+  }
+
+  return { position: best.position, part: best.part };
+}
+
+/**
+ * Returns the point of a marker used for distance, bearing and altitude:
+ * the point itself, or the nearest point of a line or polygon outline
+ */
+export function getMarkerAnchor(
+  marker: Marker,
+  userLat: number,
+  userLng: number,
+): { anchor: Position; nearest?: NearestGeometryPart } {
+  if (marker.geometry.type === 'Point') {
+    return { anchor: marker.geometry.coordinates };
+  }
+
+  const { position, part } = findNearestGeometryPoint(
+    marker.geometry,
+    userLat,
+    userLng,
+  );
+  return { anchor: position, nearest: part };
+}
+
+/**
+ * Distance, bearing and vertical angle from the user to a marker anchor
+ * 'fast' uses the spherical formulas; 'accurate' uses the WGS84 geodesic
+ * (spherical when Vincenty does not converge) and corrects the vertical
+ * angle for curvature and refraction
+ */
+function measureAnchor(
+  userLat: number,
+  userLng: number,
+  userAlt: number,
+  [lng, lat, altitude = 0]: Position,
+  mode: GeodesyMode,
+): { distance: number; bearing: number; verticalAngle: number } {
+  if (mode === 'accurate') {
+    const geodesic = vincentyInverse(userLat, userLng, lat, lng);
+    const distance2D =
+      geodesic?.distance ?? calculateDistance(userLat, userLng, lat, lng);
+    const bearing =
+      geodesic?.initialBearing ?? calculateBearing(userLat, userLng, lat, lng);
+
+    return {
+      distance: calculateSlantDistance(
+        userAlt,
+        altitude,
+        distance2D,
+        userLat,
+        bearing,
+      ),
+      bearing,
+      verticalAngle: calculateApparentElevation(
+        userAlt,
+        altitude,
+        distance2D,
+        userLat,
+        bearing,
+      ),
+    };
+  }
+
+  // Calculate 2D distance and bearing
+  const distance2D = calculateDistance(userLat, userLng, lat, lng);
+  const bearing = calculateBearing(userLat, userLng, lat, lng);
+
+  return {
+    // Calculate 3D distance including altitude
+    distance: calculateDistance(userLat, userLng, lat, lng, userAlt, altitude),
+    bearing,
+    // Calculate vertical angle (elevation)
+    verticalAngle: calculateVerticalAngle(userAlt, altitude, distance2D),
+  };
+}
+
 /**
  * Process markers to add distance and bearing information
- * Updated to handle altitude
+ * Updated to handle altitude and line/polygon geometries
  */
 export function processMarkers(
   markers: Marker[],
   userLat: number,
   userLng: number,
   userAlt: number = 0,
+  mode: GeodesyMode = 'fast',
 ): MarkerWithDistance[] {
   if (!userLat || !userLng || !markers?.length) {
     return [];
@@ -218,39 +525,27 @@ export function processMarkers(
 
   // Using a type assertion to fix the filtering issue
   return markers
-    .filter(marker => marker?.geometry?.coordinates?.length >= 2)
+    .filter(marker => marker?.geometry?.coordinates?.length >= 1)
     .map(marker => {
       try {
-        // Extract coordinates
-        const [lng, lat, altitude = 0] = marker.geometry.coordinates;
-
-        // Calculate 2D distance and bearing
-        const distance2D = calculateDistance(userLat, userLng, lat, lng);
-        const bearing = calculateBearing(userLat, userLng, lat, lng);
-
-        // Calculate 3D distance including altitude
-        const distance3D = calculateDistance(
+        // Extract coordinates (nearest point for lines and polygons)
+        const { anchor, nearest } = getMarkerAnchor(marker, userLat, userLng);
+        const { distance, bearing, verticalAngle } = measureAnchor(
           userLat,
           userLng,
-          lat,
-          lng,
-          userAlt,
-          altitude,
-        );
-
-        // Calculate vertical angle (elevation)
-        const verticalAngle = calculateVerticalAngle(
           userAlt,
-          altitude,
-          distance2D,
+          anchor,
+          mode,
         );
 
         // Create a properly typed MarkerWithDistance object
         const markerWithDistance: MarkerWithDistance = {
           ...marker,
-          distance: distance3D,
+          distance,
           bearing,
           verticalAngle,
+          anchor,
+          nearest,
         };
 
         return markerWithDistance;
@@ -0,0 +1,127 @@
+// Path: features\ar\utils\clustering.ts
+import { MarkerWithDistance } from '../schemas/markerSchema';
+
+// [longitude, latitude, altitude]
+type Position = [number, number, number];
+
+/**
+ * Grupo de marcadores próximos em direção e distância, exibido como um
+ * único indicador na visualização AR
+ */
+export interface MarkerCluster {
+  id: string;
+  markers: MarkerWithDistance[]; // Do mais próximo para o mais distante
+  bearing: number; // Direção média (graus)
+  distance: number; // Distância do marcador mais próximo (metros)
+  verticalAngle: number; // Ângulo vertical médio (graus)
+  anchor: Position; // Posição média dos marcadores
+  categories: Array<{ category: string; count: number }>; // Mais frequente primeiro
+}
+
+export interface ClusterOptions {
+  // Diferença máxima de direção para agrupar (graus)
+  bearingThreshold: number;
+  // Diferença máxima de distância: fração da distância, com um mínimo
+  distanceRatio?: number;
+  minDistanceGap?: number;
+}
+
+// Os ids dos grupos usam este prefixo para distingui-los dos marcadores
+// (ex.: no clique das entidades A-Frame)
+export const CLUSTER_ID_PREFIX = 'cluster:';
+// Fração do campo de visão horizontal usada como limiar de direção
+export const CLUSTER_FOV_FRACTION = 0.06;
+// Grupos até este tamanho se abrem em leque; maiores, em lista
+export const SPIDERFY_MAX_MARKERS = 8;
+
+const DEFAULT_DISTANCE_RATIO = 0.35;
+const DEFAULT_MIN_DISTANCE_GAP = 25;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const angleDifference = (a: number, b: number) =>
+  Math.abs(((a - b + 540) % 360) - 180);
+
+interface ClusterBuilder {
+  markers: MarkerWithDistance[];
+  sin: number;
+  cos: number;
+  bearing: number;
+}
+
+/**
+ * Groups markers that are close in bearing and distance, nearest first
+ * Only point markers are grouped: lines and polygons keep their outline
+ * and are always returned as single-marker clusters
+ */
+export function clusterMarkers(
+  markers: MarkerWithDistance[],
+  {
+    bearingThreshold,
+    distanceRatio = DEFAULT_DISTANCE_RATIO,
+    minDistanceGap = DEFAULT_MIN_DISTANCE_GAP,
+  }: ClusterOptions,
+): MarkerCluster[] {
+  const builders: ClusterBuilder[] = [];
+
+  const sorted = [...markers].sort((a, b) => a.distance - b.distance);
+  for (const marker of sorted) {
+    const builder =
+      marker.geometry.type === 'Point'
+        ? builders.find(candidate => {
+            const first = candidate.markers[0];
+            if (first.geometry.type !== 'Point') return false;
+            // Ordenados por distância: o mais distante do grupo é o último
+            const farthest =
+              candidate.markers[candidate.markers.length - 1].distance;
+            return (
+              angleDifference(candidate.bearing, marker.bearing) <=
+                bearingThreshold &&
+              marker.distance - farthest <=
+                Math.max(minDistanceGap, farthest * distanceRatio)
+            );
+          })
+        : undefined;
+
+    const sin = Math.sin(toRadians(marker.bearing));
+    const cos = Math.cos(toRadians(marker.bearing));
+    if (builder) {
+      builder.markers.push(marker);
+      builder.sin += sin;
+      builder.cos += cos;
+      builder.bearing =
+        ((Math.atan2(builder.sin, builder.cos) * 180) / Math.PI + 360) % 360;
+    } else {
+      builders.push({ markers: [marker], sin, cos, bearing: marker.bearing });
+    }
+  }
+
+  return builders.map(({ markers: members, bearing }) => {
+    const count = members.length;
+    const categoryCounts = new Map<string, number>();
+    members.forEach(member =>
+      categoryCounts.set(
+        member.properties.category,
+        (categoryCounts.get(member.properties.category) ?? 0) + 1,
+      ),
+    );
+
+    return {
+      id: count > 1 ? `${CLUSTER_ID_PREFIX}${members[0].id}` : members[0].id,
+      markers: members,
+      bearing,
+      distance: members[0].distance,
+      verticalAngle:
+        members.reduce((sum, member) => sum + (member.verticalAngle ?? 0), 0) /
+        count,
+      anchor: [0, 1, 2].map(
+        axis =>
+          members.reduce((sum, member) => sum + member.anchor[axis], 0) / count,
+      ) as Position,
+      categories: Array.from(categoryCounts, ([category, total]) => ({
+        category,
+        count: total,
+      })).sort((a, b) => b.count - a.count),
+    };
+  });
+}
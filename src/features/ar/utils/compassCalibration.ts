@@ -0,0 +1,129 @@
+// Path: features\ar\utils\compassCalibration.ts
+import {
+  OrientationEstimate,
+  angleDifference,
+  normalizeAngle,
+} from './orientation';
+
+/**
+ * Estado da bússola exibido ao usuário
+ */
+export type CompassStatus =
+  'unknown' | 'good' | 'low-accuracy' | 'interference' | 'uncalibrated';
+
+// Precisão da bússola (graus) acima da qual a leitura é considerada ruim
+export const LOW_ACCURACY_THRESHOLD = 20;
+// Confiança mínima da direção filtrada
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+// Fração dos movimentos em figura 8 necessária para concluir a calibração
+export const FIGURE_EIGHT_COMPLETE = 0.85;
+
+/**
+ * Classifies the compass state from the fused orientation estimate
+ */
+export function getCompassStatus(
+  estimate: Pick<
+    OrientationEstimate,
+    | 'headingSource'
+    | 'headingConfidence'
+    | 'compassAccuracy'
+    | 'magneticDisturbance'
+  >,
+): CompassStatus {
+  const { headingSource, headingConfidence, compassAccuracy } = estimate;
+
+  if (headingSource === null) return 'unknown';
+  if (estimate.magneticDisturbance) return 'interference';
+  // O iOS informa -1 enquanto a bússola não está calibrada
+  if (compassAccuracy !== null && compassAccuracy < 0) return 'uncalibrated';
+  if (
+    (compassAccuracy !== null && compassAccuracy > LOW_ACCURACY_THRESHOLD) ||
+    headingConfidence < LOW_CONFIDENCE_THRESHOLD
+  ) {
+    return 'low-accuracy';
+  }
+  return 'good';
+}
+
+/**
+ * Orientações já percorridas durante o movimento em figura 8
+ */
+export interface FigureEightProgress {
+  headingSectors: boolean[]; // 8 setores de 45°
+  pitchBands: boolean[]; // abaixo, nível e acima do horizonte
+  rollSides: boolean[]; // inclinado para a esquerda e para a direita
+  progress: number; // 0..1
+}
+
+export function createFigureEightProgress(): FigureEightProgress {
+  return {
+    headingSectors: Array(8).fill(false),
+    pitchBands: Array(3).fill(false),
+    rollSides: Array(2).fill(false),
+    progress: 0,
+  };
+}
+
+/**
+ * Records the current orientation in the figure-eight coverage
+ * The motion is complete once the device went through most headings
+ * and was tilted both ways on each axis
+ */
+export function updateFigureEightProgress(
+  current: FigureEightProgress,
+  {
+    heading,
+    pitch,
+    roll,
+  }: { heading: number | null; pitch: number | null; roll: number | null },
+): FigureEightProgress {
+  const headingSectors = [...current.headingSectors];
+  const pitchBands = [...current.pitchBands];
+  const rollSides = [...current.rollSides];
+
+  if (heading !== null) {
+    headingSectors[Math.floor(normalizeAngle(heading) / 45) % 8] = true;
+  }
+  if (pitch !== null) {
+    pitchBands[pitch < -20 ? 0 : pitch > 20 ? 2 : 1] = true;
+  }
+  if (roll !== null && Math.abs(roll) > 20) {
+    rollSides[roll < 0 ? 0 : 1] = true;
+  }
+
+  const covered = (values: boolean[]) =>
+    values.filter(Boolean).length / values.length;
+
+  return {
+    headingSectors,
+    pitchBands,
+    rollSides,
+    progress:
+      covered(headingSectors) * 0.5 +
+      covered(pitchBands) * 0.25 +
+      covered(rollSides) * 0.25,
+  };
+}
+
+/**
+ * Applies the manual heading offset to a fused heading
+ */
+export function applyHeadingOffset(heading: number, offset: number): number {
+  return normalizeAngle(heading + offset);
+}
+
+/**
+ * New manual offset (-180..180) so that the displayed heading matches the
+ * bearing of a landmark the user is aiming at
+ * `heading` is the displayed heading, already including `currentOffset`
+ */
+export function getLandmarkHeadingOffset(
+  currentOffset: number,
+  heading: number,
+  landmarkBearing: number,
+): number {
+  return angleDifference(
+    0,
+    currentOffset + angleDifference(heading, landmarkBearing),
+  );
+}
@@ -0,0 +1,189 @@
+// Path: features\ar\utils\datasetCache.ts
+import { MarkersCollection } from '../schemas/markerSchema';
+
+/**
+ * Dataset de marcadores guardado no IndexedDB para uso sem conexão
+ */
+export interface CachedDataset {
+  id: string;
+  label: string;
+  // Origem do dataset; URLs são recarregadas da rede quando há conexão
+  // (combined: marcadores de várias origens carregados com merge/append)
+  sourceType: 'bundled' | 'file' | 'url' | 'combined';
+  url?: string;
+  collection: MarkersCollection;
+  markerCount: number;
+  size: number; // bytes (JSON serializado)
+  cachedAt: number; // Date.now
+  lastUsedAt: number;
+}
+
+/**
+ * Resumo exibido na lista de datasets (sem os marcadores)
+ */
+export type CachedDatasetSummary = Omit<CachedDataset, 'collection'>;
+
+const DB_NAME = 'ar-location-datasets';
+const DB_VERSION = 1;
+const STORE_NAME = 'datasets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and creates on first use) the dataset database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB indisponível'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Permite nova tentativa se a abertura falhar
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request in a transaction on the dataset store
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const toSummary = ({
+  collection: _collection,
+  ...summary
+}: CachedDataset): CachedDatasetSummary => summary;
+
+/**
+ * Identifier of a dataset in the cache, derived from its origin
+ */
+export function getCachedDatasetId(
+  sourceType: CachedDataset['sourceType'],
+  label: string,
+): string {
+  return `${sourceType}:${label}`;
+}
+
+/**
+ * Stores (or refreshes) a loaded dataset and marks it as the last used
+ */
+export async function saveCachedDataset(
+  dataset: Pick<CachedDataset, 'sourceType' | 'label' | 'url' | 'collection'>,
+): Promise<CachedDatasetSummary> {
+  const now = Date.now();
+  const record: CachedDataset = {
+    ...dataset,
+    id: getCachedDatasetId(dataset.sourceType, dataset.label),
+    markerCount: dataset.collection.features.length,
+    size: new Blob([JSON.stringify(dataset.collection)]).size,
+    cachedAt: now,
+    lastUsedAt: now,
+  };
+  await runRequest('readwrite', store => store.put(record));
+  return toSummary(record);
+}
+
+/**
+ * Reads a cached dataset, or null when it is not stored
+ */
+export async function getCachedDataset(
+  id: string,
+): Promise<CachedDataset | null> {
+  const record = await runRequest<CachedDataset | undefined>(
+    'readonly',
+    store => store.get(id),
+  );
+  return record ?? null;
+}
+
+/**
+ * Marks a cached dataset as the last used
+ */
+export async function touchCachedDataset(id: string): Promise<void> {
+  const record = await getCachedDataset(id);
+  if (!record) return;
+  await runRequest('readwrite', store =>
+    store.put({ ...record, lastUsedAt: Date.now() }),
+  );
+}
+
+/**
+ * Lists the cached datasets, most recently used first
+ */
+export async function listCachedDatasets(): Promise<CachedDatasetSummary[]> {
+  const records = await runRequest<CachedDataset[]>('readonly', store =>
+    store.getAll(),
+  );
+  return records.map(toSummary).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * Returns the most recently used dataset, or null when the cache is empty
+ * or IndexedDB is unavailable
+ */
+export async function getLastUsedDataset(): Promise<CachedDatasetSummary | null> {
+  try {
+    const [last] = await listCachedDatasets();
+    return last ?? null;
+  } catch (error) {
+    console.warn('Dataset cache unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Removes a dataset from the cache
+ */
+export async function deleteCachedDataset(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+}
+
+/**
+ * Storage used and available to the app (IndexedDB and service worker
+ * caches), when the browser reports it
+ */
+export async function getStorageEstimate(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * Human-readable size ("850 B", "12,3 KB", "4,1 MB")
+ */
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${units[unit]}`;
+}
@@ -0,0 +1,219 @@
+// Path: features\ar\utils\fieldOfView.ts
+
+/**
+ * Campo de visão da câmera (graus) nos lados maior e menor do sensor,
+ * independente da orientação da tela
+ */
+export interface CameraFieldOfView {
+  long: number;
+  short: number;
+}
+
+/**
+ * Campo de visão efetivamente exibido na tela (graus)
+ */
+export interface ScreenFieldOfView {
+  horizontal: number;
+  vertical: number;
+}
+
+/**
+ * Configuração do vídeo da câmera obtida do MediaStreamTrack
+ */
+export interface CameraTrackInfo {
+  width: number;
+  height: number;
+  deviceId: string | null;
+}
+
+// Campo de visão típico do lado maior de câmeras traseiras de celulares
+export const DEFAULT_LONG_SIDE_FOV = 66;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Field of view of the side with `ratio` times the length of a side whose
+ * field of view is `fov` (pinhole camera, square pixels)
+ */
+function scaleFieldOfView(fov: number, ratio: number): number {
+  return toDegrees(2 * Math.atan(Math.tan(toRadians(fov) / 2) * ratio));
+}
+
+/**
+ * Initial camera field of view from the video track resolution and aspect
+ * ratio: cropped 16:9 streams keep the long side and narrow the short one
+ */
+export function estimateCameraFieldOfView(
+  track: Pick<CameraTrackInfo, 'width' | 'height'> | null,
+): CameraFieldOfView {
+  const long = DEFAULT_LONG_SIDE_FOV;
+  if (!track || !track.width || !track.height) {
+    return { long, short: scaleFieldOfView(long, 3 / 4) };
+  }
+
+  const ratio =
+    Math.min(track.width, track.height) / Math.max(track.width, track.height);
+  return { long, short: scaleFieldOfView(long, ratio) };
+}
+
+/**
+ * Field of view visible on screen, given that the video is scaled to cover
+ * the viewport (object-fit: cover) and cropped on one axis
+ */
+export function getScreenFieldOfView(
+  camera: CameraFieldOfView,
+  track: Pick<CameraTrackInfo, 'width' | 'height'> | null,
+  screenWidth: number,
+  screenHeight: number,
+): ScreenFieldOfView {
+  const isPortrait = screenHeight > screenWidth;
+  const videoFov = isPortrait
+    ? { horizontal: camera.short, vertical: camera.long }
+    : { horizontal: camera.long, vertical: camera.short };
+
+  // Dimensões do vídeo na mesma orientação da tela
+  const trackLong = track ? Math.max(track.width, track.height) : 4;
+  const trackShort = track ? Math.min(track.width, track.height) : 3;
+  const videoWidth = isPortrait ? trackShort : trackLong;
+  const videoHeight = isPortrait ? trackLong : trackShort;
+
+  // O vídeo é ampliado até cobrir a tela; o excedente é cortado
+  const scale = Math.max(screenWidth / videoWidth, screenHeight / videoHeight);
+
+  return {
+    horizontal: scaleFieldOfView(
+      videoFov.horizontal,
+      Math.min(1, screenWidth / (videoWidth * scale)),
+    ),
+    vertical: scaleFieldOfView(
+      videoFov.vertical,
+      Math.min(1, screenHeight / (videoHeight * scale)),
+    ),
+  };
+}
+
+/**
+ * Inverse of getScreenFieldOfView: camera field of view from a field of
+ * view measured on screen
+ */
+export function getCameraFieldOfView(
+  screen: ScreenFieldOfView,
+  track: Pick<CameraTrackInfo, 'width' | 'height'> | null,
+  screenWidth: number,
+  screenHeight: number,
+): CameraFieldOfView {
+  // O fator de corte não depende do campo de visão, apenas das proporções
+  const unit = getScreenFieldOfView(
+    { long: 90, short: 90 },
+    track,
+    screenWidth,
+    screenHeight,
+  );
+  const horizontal = scaleFieldOfView(
+    screen.horizontal,
+    1 / Math.tan(toRadians(unit.horizontal) / 2),
+  );
+  const vertical = scaleFieldOfView(
+    screen.vertical,
+    1 / Math.tan(toRadians(unit.vertical) / 2),
+  );
+
+  return screenHeight > screenWidth
+    ? { long: vertical, short: horizontal }
+    : { long: horizontal, short: vertical };
+}
+
+/**
+ * Focal length (pixels) for which the rays through two screen points are
+ * `angle` degrees apart, solved by bisection
+ * Returns null when the points are too close or the angle is out of range
+ */
+export function solveFocalLength(
+  first: { x: number; y: number },
+  second: { x: number; y: number },
+  angle: number,
+  screenWidth: number,
+  screenHeight: number,
+): number | null {
+  const target = toRadians(angle);
+  const distance = Math.hypot(first.x - second.x, first.y - second.y);
+  if (distance < 20 || target <= toRadians(1) || target >= toRadians(150)) {
+    return null;
+  }
+
+  const centerX = screenWidth / 2;
+  const centerY = screenHeight / 2;
+  const rayAngle = (focal: number) => {
+    const a = [first.x - centerX, first.y - centerY, focal];
+    const b = [second.x - centerX, second.y - centerY, focal];
+    const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+    return Math.acos(
+      Math.max(-1, Math.min(1, dot / (Math.hypot(...a) * Math.hypot(...b)))),
+    );
+  };
+
+  // O ângulo entre os raios diminui conforme a distância focal aumenta
+  let low = 1;
+  let high = screenWidth * 50;
+  if (rayAngle(low) < target || rayAngle(high) > target) return null;
+
+  for (let i = 0; i < 60; i++) {
+    const middle = (low + high) / 2;
+    if (rayAngle(middle) > target) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Screen field of view for a focal length in pixels
+ */
+export function getFieldOfViewFromFocalLength(
+  focal: number,
+  screenWidth: number,
+  screenHeight: number,
+): ScreenFieldOfView {
+  return {
+    horizontal: toDegrees(2 * Math.atan(screenWidth / 2 / focal)),
+    vertical: toDegrees(2 * Math.atan(screenHeight / 2 / focal)),
+  };
+}
+
+/**
+ * Angle (degrees) between the directions of two markers seen from the user
+ */
+export function getAngularSeparation(
+  first: { bearing: number; verticalAngle: number },
+  second: { bearing: number; verticalAngle: number },
+): number {
+  const direction = ({
+    bearing,
+    verticalAngle,
+  }: {
+    bearing: number;
+    verticalAngle: number;
+  }) => [
+    Math.cos(toRadians(verticalAngle)) * Math.sin(toRadians(bearing)),
+    Math.cos(toRadians(verticalAngle)) * Math.cos(toRadians(bearing)),
+    Math.sin(toRadians(verticalAngle)),
+  ];
+  const a = direction(first);
+  const b = direction(second);
+  const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  return toDegrees(Math.acos(Math.max(-1, Math.min(1, dot))));
+}
+
+/**
+ * Key used to store the calibration of a camera on this device
+ */
+export function getCameraCalibrationKey(track: CameraTrackInfo | null): string {
+  if (!track) return 'default';
+  const long = Math.max(track.width, track.height);
+  const short = Math.min(track.width, track.height);
+  return `${track.deviceId ?? 'camera'}:${long}x${short}`;
+}
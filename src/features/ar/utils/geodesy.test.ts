@@ -0,0 +1,197 @@
+// Path: features\ar\utils\geodesy.test.ts
+import { describe, expect, it } from 'vitest';
+import { calculateDistance } from './arjsUtils';
+import {
+  REFRACTION_COEFFICIENT,
+  calculateApparentElevation,
+  calculateSlantDistance,
+  radiusOfCurvature,
+  vincentyInverse,
+} from './geodesy';
+
+// Gerador pseudoaleatório com semente fixa, para casos reproduzíveis
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+const dms = (degrees: number, minutes: number, seconds: number) =>
+  Math.sign(degrees) * (Math.abs(degrees) + minutes / 60 + seconds / 3600);
+
+/**
+ * Random pairs of points anywhere on the globe (latitudes within ±85°)
+ */
+function randomPairs(count: number, seed: number) {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => ({
+    lat1: random() * 170 - 85,
+    lng1: random() * 360 - 180,
+    lat2: random() * 170 - 85,
+    lng2: random() * 360 - 180,
+  }));
+}
+
+// Linhas de referência no WGS84: Flinders Peak -> Buninyong é o exemplo
+// publicado por Vincenty (Geoscience Australia); os demais valores são da
+// GeographicLib (Karney), exata ao nanômetro
+const REFERENCE_LINES = [
+  {
+    name: 'Flinders Peak -> Buninyong',
+    from: [dms(-37, 57, 3.7203), dms(144, 25, 29.5244)],
+    to: [dms(-37, 39, 10.1561), dms(143, 55, 35.3839)],
+    distance: 54972.2711,
+    bearing: dms(306, 52, 5.37),
+  },
+  {
+    name: 'equator -> north pole (meridian quadrant)',
+    from: [0, 0],
+    to: [90, 0],
+    distance: 10001965.7293,
+    bearing: 0,
+  },
+  {
+    name: '90° along the equator',
+    from: [0, 0],
+    to: [0, 90],
+    distance: 10018754.1714,
+    bearing: 90,
+  },
+  {
+    name: 'JFK -> LHR',
+    from: [40.6413, -73.7781],
+    to: [51.47, -0.4543],
+    distance: 5554908.7905,
+    bearing: 51.381648,
+  },
+  {
+    name: 'Rio de Janeiro -> Brasília',
+    from: [-22.9068, -43.1729],
+    to: [-15.7939, -47.8828],
+    distance: 929739.5086,
+    bearing: 327.037456,
+  },
+  {
+    name: 'across the antimeridian',
+    from: [10, 170],
+    to: [-5, -170],
+    distance: 2769556.0608,
+    bearing: 125.908949,
+  },
+  {
+    name: '100 m north-east',
+    from: [-22.9068, -43.1729],
+    to: [-22.90616, -43.17221],
+    distance: 100.172,
+    bearing: 44.965295,
+  },
+];
+
+describe('vincentyInverse', () => {
+  it.each(REFERENCE_LINES)(
+    'matches the reference line $name',
+    ({ from, to, distance, bearing }) => {
+      const result = vincentyInverse(from[0], from[1], to[0], to[1])!;
+
+      expect(Math.abs(result.distance - distance)).toBeLessThan(0.001);
+      // 0,0001° ~ 0,36"
+      expect(Math.abs(result.initialBearing - bearing)).toBeLessThan(1e-4);
+    },
+  );
+
+  it('is symmetric', () => {
+    for (const { lat1, lng1, lat2, lng2 } of randomPairs(500, 7)) {
+      const there = vincentyInverse(lat1, lng1, lat2, lng2);
+      const back = vincentyInverse(lat2, lng2, lat1, lng1);
+      if (!there || !back) continue;
+
+      expect(Math.abs(there.distance - back.distance)).toBeLessThan(1e-6);
+    }
+  });
+
+  it('returns zero for identical points', () => {
+    for (const { lat1, lng1 } of randomPairs(200, 11)) {
+      expect(vincentyInverse(lat1, lng1, lat1, lng1)).toEqual({
+        distance: 0,
+        initialBearing: 0,
+      });
+    }
+  });
+
+  it('agrees with the spherical distance within 0.5%', () => {
+    let converged = 0;
+    for (const { lat1, lng1, lat2, lng2 } of randomPairs(500, 13)) {
+      const result = vincentyInverse(lat1, lng1, lat2, lng2);
+      if (!result) continue;
+      converged++;
+
+      const haversine = calculateDistance(lat1, lng1, lat2, lng2);
+      expect(
+        Math.abs(result.distance - haversine) / result.distance,
+      ).toBeLessThan(0.005);
+      expect(result.initialBearing).toBeGreaterThanOrEqual(0);
+      expect(result.initialBearing).toBeLessThan(360);
+    }
+    // Só pontos quase antípodas deixam de convergir
+    expect(converged).toBeGreaterThan(495);
+  });
+
+  it('returns null for nearly antipodal points and invalid input', () => {
+    expect(vincentyInverse(0, 0, 0.5, 179.7)).toBeNull();
+    expect(vincentyInverse(NaN, 0, 0, 0)).toBeNull();
+  });
+});
+
+describe('calculateApparentElevation', () => {
+  it('drops distant targets by d²(1 - k) / 2R', () => {
+    expect(REFRACTION_COEFFICIENT).toBe(0.13);
+    const random = createRandom(17);
+    for (let i = 0; i < 200; i++) {
+      const distance = 500 + random() * 30000;
+      const latitude = random() * 170 - 85;
+      const azimuth = random() * 360;
+      const radius = radiusOfCurvature(latitude, azimuth);
+
+      const angle = calculateApparentElevation(
+        0,
+        0,
+        distance,
+        latitude,
+        azimuth,
+      );
+      const drop = -Math.tan((angle * Math.PI) / 180) * distance;
+      const expected =
+        (distance * distance * (1 - REFRACTION_COEFFICIENT)) / (2 * radius);
+
+      expect(Math.abs(drop - expected) / expected).toBeLessThan(0.005);
+    }
+  });
+
+  it('matches the flat-earth angle for nearby targets', () => {
+    expect(calculateApparentElevation(10, 110, 100, -22.9, 45)).toBeCloseTo(
+      45,
+      2,
+    );
+    expect(calculateApparentElevation(0, 5, 0, -22.9, 45)).toBe(90);
+  });
+});
+
+describe('calculateSlantDistance', () => {
+  it('matches the straight line for nearby targets', () => {
+    expect(calculateSlantDistance(0, 30, 40, -22.9, 0)).toBeCloseTo(50, 3);
+  });
+
+  it('is shorter than the surface distance between points at sea level', () => {
+    const distance = 100000;
+    const radius = radiusOfCurvature(45, 90);
+    const chord = 2 * radius * Math.sin(distance / (2 * radius));
+
+    expect(calculateSlantDistance(0, 0, distance, 45, 90)).toBeCloseTo(
+      chord,
+      6,
+    );
+    expect(chord).toBeLessThan(distance);
+  });
+});
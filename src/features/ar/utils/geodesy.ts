@@ -0,0 +1,201 @@
+// Path: features\ar\utils\geodesy.ts
+
+/**
+ * Modo dos cálculos geodésicos dos marcadores
+ * - fast: esfera de raio médio (haversine), suficiente para poucos quilômetros
+ * - accurate: elipsoide WGS84 (Vincenty) com curvatura e refração no
+ *   ângulo vertical
+ */
+export type GeodesyMode = 'fast' | 'accurate';
+
+// Elipsoide WGS84
+export const WGS84_A = 6378137; // semieixo maior (metros)
+export const WGS84_F = 1 / 298.257223563; // achatamento
+export const WGS84_B = WGS84_A * (1 - WGS84_F); // semieixo menor (metros)
+const WGS84_E2 = WGS84_F * (2 - WGS84_F); // excentricidade ao quadrado
+
+// Coeficiente de refração atmosférica padrão (linha de visada terrestre)
+export const REFRACTION_COEFFICIENT = 0.13;
+
+// Critério de convergência de Vincenty (~0,006 mm) e limite de iterações
+const VINCENTY_TOLERANCE = 1e-12;
+const VINCENTY_MAX_ITERATIONS = 200;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Distância (metros) e direção inicial (graus, 0-360) da geodésica entre
+ * dois pontos
+ */
+export interface GeodesicInverse {
+  distance: number;
+  initialBearing: number;
+}
+
+/**
+ * Geodesic distance and initial bearing on the WGS84 ellipsoid using
+ * Vincenty's inverse formula
+ * Returns null when the iteration does not converge (nearly antipodal
+ * points), so the caller can fall back to the spherical formulas
+ */
+export function vincentyInverse(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): GeodesicInverse | null {
+  if ([lat1, lng1, lat2, lng2].some(value => !Number.isFinite(value))) {
+    return null;
+  }
+
+  // Diferença de longitude em -180..180 (pares que cruzam o antimeridiano)
+  const L = toRadians(((((lng2 - lng1) % 360) + 540) % 360) - 180);
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRadians(lat1));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const tanU2 = (1 - WGS84_F) * Math.tan(toRadians(lat2));
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 1;
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let sigma = 0;
+  let cosSqAlpha = 1;
+  let cos2SigmaM = 0;
+  let converged = false;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const sinSqSigma =
+      (cosU2 * sinLambda) ** 2 +
+      (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2;
+    // Pontos coincidentes
+    if (sinSqSigma < 1e-24) return { distance: 0, initialBearing: 0 };
+
+    sinSigma = Math.sqrt(sinSqSigma);
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Sobre o equador cosSqAlpha é 0
+    cos2SigmaM =
+      cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C =
+      (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+
+    const previous = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma +
+          C *
+            sinSigma *
+            (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    // Diverge para pontos quase antípodas
+    if (Math.abs(lambda) > Math.PI) return null;
+    if (Math.abs(lambda - previous) < VINCENTY_TOLERANCE) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!converged) return null;
+
+  const uSq =
+    (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) /
+    (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma =
+    B *
+    sinSigma *
+    (cos2SigmaM +
+      (B / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          (B / 6) *
+            cos2SigmaM *
+            (-3 + 4 * sinSigma * sinSigma) *
+            (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  const distance = WGS84_B * A * (sigma - deltaSigma);
+  const initialBearing = toDegrees(
+    Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda),
+  );
+
+  return { distance, initialBearing: (initialBearing + 360) % 360 };
+}
+
+/**
+ * Radius of curvature (meters) of the WGS84 ellipsoid at a latitude along
+ * an azimuth (Euler's formula, from the meridian and prime vertical radii)
+ */
+export function radiusOfCurvature(latitude: number, azimuth: number): number {
+  const sinLat = Math.sin(toRadians(latitude));
+  const w = 1 - WGS84_E2 * sinLat * sinLat;
+  const meridian = (WGS84_A * (1 - WGS84_E2)) / (w * Math.sqrt(w));
+  const primeVertical = WGS84_A / Math.sqrt(w);
+  const sinAz = Math.sin(toRadians(azimuth));
+  const cosAz = Math.cos(toRadians(azimuth));
+  return (
+    (meridian * primeVertical) /
+    (meridian * sinAz * sinAz + primeVertical * cosAz * cosAz)
+  );
+}
+
+/**
+ * Apparent elevation angle (degrees) from the user to a target `distance`
+ * meters away along the surface, on the sphere that osculates the
+ * ellipsoid in that direction
+ * The Earth's curvature lowers distant targets; atmospheric refraction
+ * (coefficient `refraction`) bends the line of sight and offsets part of it
+ */
+export function calculateApparentElevation(
+  userAlt: number,
+  targetAlt: number,
+  distance: number,
+  latitude: number,
+  azimuth: number,
+  refraction: number = REFRACTION_COEFFICIENT,
+): number {
+  if (distance === 0) return 90; // Directly above/below
+
+  // Raio efetivo: a refração equivale a uma Terra maior
+  const radius = radiusOfCurvature(latitude, azimuth) / (1 - refraction);
+  const angle = distance / radius;
+  const targetRadius = radius + targetAlt;
+  // Coordenadas do alvo no plano horizontal local do usuário
+  const horizontal = targetRadius * Math.sin(angle);
+  const vertical =
+    targetAlt - userAlt - 2 * targetRadius * Math.sin(angle / 2) ** 2;
+
+  return toDegrees(Math.atan2(vertical, horizontal));
+}
+
+/**
+ * Straight-line distance (meters) between the user and a target `distance`
+ * meters away along the surface, including both heights above the ellipsoid
+ */
+export function calculateSlantDistance(
+  userAlt: number,
+  targetAlt: number,
+  distance: number,
+  latitude: number,
+  azimuth: number,
+): number {
+  const radius = radiusOfCurvature(latitude, azimuth);
+  const halfAngle = distance / (2 * radius);
+  // Lei dos cossenos escrita com sin² para não perder precisão em ângulos
+  // pequenos
+  return Math.sqrt(
+    (targetAlt - userAlt) ** 2 +
+      4 * (radius + userAlt) * (radius + targetAlt) * Math.sin(halfAngle) ** 2,
+  );
+}
@@ -0,0 +1,169 @@
+// Path: features\ar\utils\geofences.ts
+import { Marker, MarkerWithDistance } from '../schemas/markerSchema';
+
+/**
+ * Eventos de proximidade de um marcador
+ * - enter: o usuário entrou no raio de ativação
+ * - dwell: permaneceu no raio por DWELL_TIME
+ * - exit: saiu do raio (com margem, para não oscilar na borda)
+ */
+export type GeofenceEventType = 'enter' | 'dwell' | 'exit';
+
+export interface GeofenceEvent {
+  id: string;
+  type: GeofenceEventType;
+  markerId: string;
+  markerName: string;
+  distance: number; // metros
+  timestamp: number; // Date.now
+}
+
+/**
+ * Situação do usuário em relação ao raio de um marcador
+ */
+export interface GeofenceMarkerState {
+  enteredAt: number;
+  dwellNotified: boolean;
+}
+
+// Raios de ativação por categoria, usados quando o marcador não define
+// a propriedade triggerRadius (metros)
+export const CATEGORY_TRIGGER_RADII: Record<string, number> = {
+  atracao: 30,
+  teatro: 25,
+  transporte: 20,
+};
+
+// Tempo no raio até o evento de permanência (ms)
+export const DWELL_TIME = 60000;
+// Precisão mínima da posição para avaliar os raios (metros)
+export const GEOFENCE_MAX_ACCURACY = 50;
+// Quantidade de eventos mantidos no histórico
+export const GEOFENCE_LOG_LIMIT = 200;
+// Evento disparado na window a cada entrada, permanência ou saída
+export const GEOFENCE_EVENT = 'ar-geofence';
+
+// Margem de saída: fração do raio, com um mínimo em metros
+const EXIT_HYSTERESIS_RATIO = 0.2;
+const MIN_EXIT_HYSTERESIS = 5;
+
+let eventCounter = 0;
+
+/**
+ * Trigger radius of a marker in meters: the triggerRadius property or the
+ * category default; null when the marker has no geofence
+ */
+export function getTriggerRadius(marker: Marker): number | null {
+  const { triggerRadius, category } = marker.properties;
+  if (triggerRadius !== undefined) return triggerRadius;
+  return CATEGORY_TRIGGER_RADII[category] ?? null;
+}
+
+/**
+ * Evaluates the geofences for a new position
+ * Returns the updated states (only markers the user is inside) and the
+ * events to announce. States of markers that are no longer loaded are
+ * dropped without an exit event
+ */
+export function updateGeofences(
+  states: Record<string, GeofenceMarkerState>,
+  markers: MarkerWithDistance[],
+  now: number,
+): { states: Record<string, GeofenceMarkerState>; events: GeofenceEvent[] } {
+  const nextStates: Record<string, GeofenceMarkerState> = {};
+  const events: GeofenceEvent[] = [];
+
+  const createEvent = (
+    type: GeofenceEventType,
+    marker: MarkerWithDistance,
+  ): GeofenceEvent => ({
+    id: `${now}-${++eventCounter}`,
+    type,
+    markerId: marker.id,
+    markerName: marker.properties.name,
+    distance: marker.distance,
+    timestamp: now,
+  });
+
+  for (const marker of markers) {
+    const radius = getTriggerRadius(marker);
+    if (radius === null) continue;
+    const state = states[marker.id];
+
+    if (!state) {
+      if (marker.distance <= radius) {
+        nextStates[marker.id] = { enteredAt: now, dwellNotified: false };
+        events.push(createEvent('enter', marker));
+      }
+      continue;
+    }
+
+    const exitRadius =
+      radius + Math.max(MIN_EXIT_HYSTERESIS, radius * EXIT_HYSTERESIS_RATIO);
+    if (marker.distance > exitRadius) {
+      events.push(createEvent('exit', marker));
+      continue;
+    }
+
+    if (!state.dwellNotified && now - state.enteredAt >= DWELL_TIME) {
+      nextStates[marker.id] = { ...state, dwellNotified: true };
+      events.push(createEvent('dwell', marker));
+    } else {
+      nextStates[marker.id] = state;
+    }
+  }
+
+  return { states: nextStates, events };
+}
+
+/**
+ * Message shown for an event
+ */
+export function describeGeofenceEvent(event: GeofenceEvent): string {
+  switch (event.type) {
+    case 'enter':
+      return `Você está em ${event.markerName}`;
+    case 'dwell':
+      return `Você continua em ${event.markerName}`;
+    case 'exit':
+      return `Você saiu de ${event.markerName}`;
+  }
+}
+
+/**
+ * Announces an event outside the alert stack: vibration, a window event
+ * and, when enabled and allowed, a system notification
+ */
+export function announceGeofenceEvent(
+  event: GeofenceEvent,
+  notificationsEnabled: boolean,
+) {
+  navigator.vibrate?.(event.type === 'exit' ? 100 : [150, 80, 150]);
+  window.dispatchEvent(new CustomEvent(GEOFENCE_EVENT, { detail: event }));
+
+  if (
+    !notificationsEnabled ||
+    !('Notification' in window) ||
+    Notification.permission !== 'granted'
+  ) {
+    return;
+  }
+
+  const title = describeGeofenceEvent(event);
+  const options: NotificationOptions = {
+    tag: `geofence-${event.markerId}`,
+    icon: `${import.meta.env.BASE_URL}icon.svg`,
+  };
+  // No Android, notificações só podem ser criadas pelo service worker
+  if (navigator.serviceWorker?.controller) {
+    navigator.serviceWorker.ready
+      .then(registration => registration.showNotification(title, options))
+      .catch(error => console.warn('Could not show notification:', error));
+  } else {
+    try {
+      new Notification(title, options);
+    } catch (error) {
+      console.warn('Could not show notification:', error);
+    }
+  }
+}
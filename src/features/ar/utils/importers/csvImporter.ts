@@ -0,0 +1,246 @@
+// Path: features\ar\utils\importers\csvImporter.ts
+import { Marker } from '../../schemas/markerSchema';
+import { FeatureValidationIssue } from '../markerValidation';
+import {
+  ImportResult,
+  checkLatLng,
+  createMarker,
+  parseDecimal,
+} from './importUtils';
+
+/**
+ * Colunas do CSV usadas para cada campo do marcador
+ */
+export interface CsvColumnMapping {
+  latitude: string;
+  longitude: string;
+  altitude?: string;
+  id?: string;
+  name?: string;
+  category?: string;
+  description?: string;
+}
+
+export type CsvMappedField = keyof CsvColumnMapping;
+
+// Nomes de coluna reconhecidos automaticamente (comparados sem acentos)
+const COLUMN_ALIASES: Record<CsvMappedField, string[]> = {
+  latitude: ['latitude', 'lat', 'y'],
+  longitude: ['longitude', 'lon', 'lng', 'long', 'x'],
+  altitude: ['altitude', 'alt', 'elevation', 'ele', 'elevacao', 'cota', 'z'],
+  id: ['id', 'codigo', 'code'],
+  name: ['name', 'nome', 'title', 'titulo'],
+  category: ['category', 'categoria', 'tipo', 'type'],
+  description: ['description', 'descricao', 'desc', 'obs', 'observacao'],
+};
+
+const normalizeHeader = (header: string): string =>
+  header
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Detects the delimiter from the header line (comma, semicolon or tab)
+ */
+export function detectCsvDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length
+      ? candidate
+      : best,
+  );
+}
+
+/**
+ * Parses CSV text into rows (RFC 4180 quoting), keeping the source line of
+ * each row for error reports
+ */
+export function parseCsvRows(
+  text: string,
+  delimiter = detectCsvDelimiter(text),
+): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    // Ignora linhas vazias
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ cells, line: rowLine });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length) endRow();
+  return rows;
+}
+
+/**
+ * Reads the header row of a CSV file
+ */
+export function readCsvHeaders(text: string): string[] {
+  return (parseCsvRows(text)[0]?.cells ?? []).map(header => header.trim());
+}
+
+/**
+ * Suggests a column mapping from common header names
+ * Returns null when latitude or longitude columns cannot be found
+ */
+export function detectCsvColumnMapping(
+  headers: string[],
+): CsvColumnMapping | null {
+  const normalized = headers.map(normalizeHeader);
+  const find = (field: CsvMappedField) => {
+    const index = normalized.findIndex(header =>
+      COLUMN_ALIASES[field].includes(header),
+    );
+    return index >= 0 ? headers[index] : undefined;
+  };
+
+  const latitude = find('latitude');
+  const longitude = find('longitude');
+  if (!latitude || !longitude) return null;
+
+  return {
+    latitude,
+    longitude,
+    altitude: find('altitude'),
+    id: find('id'),
+    name: find('name'),
+    category: find('category'),
+    description: find('description'),
+  };
+}
+
+/**
+ * Converts a CSV with latitude/longitude columns into point markers
+ * Unmapped columns are kept as marker properties
+ */
+export function importCsv(
+  text: string,
+  mapping?: CsvColumnMapping,
+  label = 'CSV',
+): ImportResult {
+  const delimiter = detectCsvDelimiter(text);
+  const [headerRow, ...dataRows] = parseCsvRows(text, delimiter);
+  if (!headerRow) throw new Error(`${label}: arquivo vazio`);
+
+  const headers = headerRow.cells.map(header => header.trim());
+  const columns = mapping ?? detectCsvColumnMapping(headers);
+  if (!columns) {
+    throw new Error(
+      `${label}: colunas de latitude/longitude não encontradas, informe o mapeamento`,
+    );
+  }
+
+  const missing = [columns.latitude, columns.longitude].filter(
+    column => !headers.includes(column),
+  );
+  if (missing.length) {
+    throw new Error(`${label}: coluna(s) ausente(s): ${missing.join(', ')}`);
+  }
+
+  const mappedColumns = new Set(Object.values(columns));
+  const features: Marker[] = [];
+  const issues: FeatureValidationIssue[] = [];
+
+  dataRows.forEach(({ cells, line }, index) => {
+    const row = Object.fromEntries(
+      headers.map((header, column) => [header, cells[column]?.trim() ?? '']),
+    );
+    const value = (column?: string) =>
+      column && row[column] ? row[column] : undefined;
+    const id = value(columns.id) ?? `linha-${line}`;
+
+    const lat = parseDecimal(row[columns.latitude]);
+    const lng = parseDecimal(row[columns.longitude]);
+    const reason = checkLatLng(lat, lng);
+    if (reason) {
+      issues.push({
+        index,
+        id,
+        line,
+        path: reason.startsWith('Latitude')
+          ? columns.latitude
+          : columns.longitude,
+        reason,
+      });
+      return;
+    }
+
+    const altitudeText = value(columns.altitude);
+    const altitude = parseDecimal(altitudeText);
+    if (altitudeText && altitude === null) {
+      issues.push({
+        index,
+        id,
+        line,
+        path: columns.altitude!,
+        reason: `Altitude inválida: "${altitudeText}"`,
+      });
+      return;
+    }
+
+    // Colunas não mapeadas são mantidas como propriedades extras
+    const extraProperties = Object.fromEntries(
+      headers
+        .filter(header => !mappedColumns.has(header) && row[header] !== '')
+        .map(header => [header, row[header]]),
+    );
+
+    features.push(
+      createMarker(
+        id,
+        { type: 'Point', coordinates: [lng!, lat!, altitude ?? 0] },
+        {
+          ...extraProperties,
+          name: value(columns.name),
+          category: value(columns.category),
+          description: value(columns.description),
+        },
+      ),
+    );
+  });
+
+  return {
+    collection: { type: 'FeatureCollection', features },
+    issues,
+    total: dataRows.length,
+  };
+}
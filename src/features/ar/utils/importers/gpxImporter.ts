@@ -0,0 +1,118 @@
+// Path: features\ar\utils\importers\gpxImporter.ts
+import { Marker } from '../../schemas/markerSchema';
+import { FeatureValidationIssue } from '../markerValidation';
+import {
+  ImportResult,
+  Position,
+  checkLatLng,
+  createMarker,
+  getChildElements,
+  getChildText,
+  parseDecimal,
+  parseXml,
+} from './importUtils';
+
+/**
+ * Reads a GPX point element (wpt, rtept, trkpt) as a position
+ */
+function parseGpxPoint(point: Element): Position {
+  const lat = parseDecimal(point.getAttribute('lat'));
+  const lng = parseDecimal(point.getAttribute('lon'));
+  const reason = checkLatLng(lat, lng);
+  if (reason) throw new Error(reason);
+  return [lng!, lat!, parseDecimal(getChildText(point, 'ele')) ?? 0];
+}
+
+/**
+ * Common GPX metadata mapped to marker properties
+ */
+function readGpxProperties(element: Element) {
+  return {
+    name: getChildText(element, 'name'),
+    description: getChildText(element, 'desc') ?? getChildText(element, 'cmt'),
+    category: getChildText(element, 'type'),
+    icon: getChildText(element, 'sym'),
+  };
+}
+
+/**
+ * Converts a GPX file from handheld receivers into markers
+ * Waypoints become points, routes and track segments become lines
+ */
+export function importGpx(text: string, label = 'GPX'): ImportResult {
+  const doc = parseXml(text, label);
+  const root = doc.documentElement;
+
+  const features: Marker[] = [];
+  const issues: FeatureValidationIssue[] = [];
+  let index = 0;
+
+  // Executa a conversão de um item, registrando o problema se falhar
+  const convert = (path: string, id: string, build: () => Marker) => {
+    try {
+      features.push(build());
+    } catch (error) {
+      issues.push({
+        index,
+        id,
+        path,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+    index++;
+  };
+
+  getChildElements(root, 'wpt').forEach((waypoint, i) => {
+    const id = `wpt-${i + 1}`;
+    convert(`wpt[${i + 1}]`, id, () =>
+      createMarker(
+        id,
+        { type: 'Point', coordinates: parseGpxPoint(waypoint) },
+        readGpxProperties(waypoint),
+      ),
+    );
+  });
+
+  getChildElements(root, 'rte').forEach((route, i) => {
+    const id = `rte-${i + 1}`;
+    convert(`rte[${i + 1}]`, id, () => {
+      const points = getChildElements(route, 'rtept').map(parseGpxPoint);
+      if (points.length < 2) throw new Error('Rota com menos de 2 pontos');
+      return createMarker(
+        id,
+        { type: 'LineString', coordinates: points },
+        readGpxProperties(route),
+      );
+    });
+  });
+
+  getChildElements(root, 'trk').forEach((track, i) => {
+    const segments = getChildElements(track, 'trkseg');
+    const properties = readGpxProperties(track);
+
+    segments.forEach((segment, j) => {
+      const id = segments.length > 1 ? `trk-${i + 1}-${j + 1}` : `trk-${i + 1}`;
+      convert(`trk[${i + 1}]/trkseg[${j + 1}]`, id, () => {
+        const points = getChildElements(segment, 'trkpt').map(parseGpxPoint);
+        if (points.length < 2) throw new Error('Trecho com menos de 2 pontos');
+        return createMarker(
+          id,
+          { type: 'LineString', coordinates: points },
+          {
+            ...properties,
+            name:
+              properties.name && segments.length > 1
+                ? `${properties.name} (${j + 1})`
+                : properties.name,
+          },
+        );
+      });
+    });
+  });
+
+  return {
+    collection: { type: 'FeatureCollection', features },
+    issues,
+    total: index,
+  };
+}
@@ -0,0 +1,115 @@
+// Path: features\ar\utils\importers\importUtils.ts
+import { Marker, MarkersCollection } from '../../schemas/markerSchema';
+import { FeatureValidationIssue } from '../markerValidation';
+
+/**
+ * Resultado de um importador: feições convertidas e problemas por item
+ */
+export interface ImportResult {
+  collection: MarkersCollection;
+  issues: FeatureValidationIssue[];
+  total: number; // Quantidade de itens (placemarks, waypoints, linhas) lidos
+}
+
+// Posição [longitude, latitude, altitude]
+export type Position = [number, number, number];
+
+/**
+ * Parses an XML document, throwing a readable error on malformed input
+ */
+export function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new Error(
+      `${label}: XML inválido (${parserError.textContent?.trim()})`,
+    );
+  }
+  return doc;
+}
+
+/**
+ * Returns the direct children of an element with the given local name
+ * (namespace prefixes such as gx: or kml: are ignored)
+ */
+export function getChildElements(
+  parent: Element,
+  localName: string,
+): Element[] {
+  return Array.from(parent.children).filter(
+    child => child.localName === localName,
+  );
+}
+
+/**
+ * Returns the trimmed text of the first direct child with the given name
+ */
+export function getChildText(
+  parent: Element,
+  localName: string,
+): string | undefined {
+  const text = getChildElements(parent, localName)[0]?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+/**
+ * Parses a decimal number, accepting a decimal comma
+ */
+export function parseDecimal(value: string | undefined | null): number | null {
+  if (value === undefined || value === null) return null;
+  const normalized = value.trim().replace(',', '.');
+  if (!normalized) return null;
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Checks latitude/longitude ranges, returning the reason when invalid
+ */
+export function checkLatLng(
+  lat: number | null,
+  lng: number | null,
+): string | null {
+  if (lat === null) return 'Latitude ausente ou inválida';
+  if (lng === null) return 'Longitude ausente ou inválida';
+  if (lat < -90 || lat > 90) return 'Latitude fora do intervalo [-90, 90]';
+  if (lng < -180 || lng > 180) return 'Longitude fora do intervalo [-180, 180]';
+  return null;
+}
+
+/**
+ * Removes HTML markup from descriptions (KML balloons often contain it)
+ */
+export function stripHtml(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const plain = new DOMParser()
+    .parseFromString(text, 'text/html')
+    .body.textContent?.trim();
+  return plain ? plain : undefined;
+}
+
+/**
+ * Builds a marker from converted values
+ */
+export function createMarker(
+  id: string,
+  geometry: Marker['geometry'],
+  properties: Partial<Marker['properties']> & { name?: string },
+): Marker {
+  const altitude =
+    geometry.type === 'Point' ? geometry.coordinates[2] : undefined;
+
+  return {
+    id,
+    type: 'Feature',
+    geometry,
+    properties: {
+      ...properties,
+      name: properties.name || id,
+      category: properties.category || 'default',
+      ...(altitude !== undefined && properties.altitude === undefined
+        ? { altitude }
+        : {}),
+    },
+  };
+}
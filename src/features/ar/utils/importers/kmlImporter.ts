@@ -0,0 +1,201 @@
+// Path: features\ar\utils\importers\kmlImporter.ts
+import { Marker } from '../../schemas/markerSchema';
+import { FeatureValidationIssue } from '../markerValidation';
+import {
+  ImportResult,
+  Position,
+  checkLatLng,
+  createMarker,
+  getChildElements,
+  getChildText,
+  parseDecimal,
+  parseXml,
+  stripHtml,
+} from './importUtils';
+import { listZipEntries, readZipEntry } from './zipReader';
+
+// Geometrias KML suportadas
+const GEOMETRY_TAGS = ['Point', 'LineString', 'Polygon'];
+
+/**
+ * Parses a KML coordinates string ("lon,lat[,alt] lon,lat[,alt] ...")
+ */
+function parseKmlCoordinates(text: string | undefined): Position[] {
+  if (!text) throw new Error('Coordenadas ausentes');
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .map(tuple => {
+      const [lngText, latText, altText] = tuple.split(',');
+      const lng = parseDecimal(lngText);
+      const lat = parseDecimal(latText);
+      const reason = checkLatLng(lat, lng);
+      if (reason) throw new Error(`${reason} em "${tuple}"`);
+      return [lng!, lat!, parseDecimal(altText) ?? 0];
+    });
+}
+
+/**
+ * Converts a KML geometry element into a marker geometry
+ */
+function parseKmlGeometry(element: Element): Marker['geometry'] {
+  const coordinatesOf = (parent: Element | undefined) =>
+    parseKmlCoordinates(
+      parent ? getChildText(parent, 'coordinates') : undefined,
+    );
+
+  switch (element.localName) {
+    case 'Point':
+      return { type: 'Point', coordinates: coordinatesOf(element)[0] };
+
+    case 'LineString':
+      return { type: 'LineString', coordinates: coordinatesOf(element) };
+
+    default: {
+      // Polygon: anel externo seguido dos buracos
+      const rings = [
+        ...getChildElements(element, 'outerBoundaryIs'),
+        ...getChildElements(element, 'innerBoundaryIs'),
+      ].map(boundary =>
+        coordinatesOf(getChildElements(boundary, 'LinearRing')[0]),
+      );
+      if (!rings.length) throw new Error('Polígono sem anel externo');
+      return { type: 'Polygon', coordinates: rings };
+    }
+  }
+}
+
+/**
+ * Collects the geometries of a placemark, flattening MultiGeometry
+ */
+function collectKmlGeometries(parent: Element): Element[] {
+  return Array.from(parent.children).flatMap(child =>
+    child.localName === 'MultiGeometry'
+      ? collectKmlGeometries(child)
+      : GEOMETRY_TAGS.includes(child.localName)
+        ? [child]
+        : [],
+  );
+}
+
+/**
+ * Reads ExtendedData values (<Data name> and <SimpleData name>)
+ */
+function readExtendedData(placemark: Element): Record<string, string> {
+  const data: Record<string, string> = {};
+  const extended = getChildElements(placemark, 'ExtendedData')[0];
+  if (!extended) return data;
+
+  Array.from(extended.getElementsByTagName('*')).forEach(element => {
+    const name = element.getAttribute('name');
+    if (!name) return;
+    if (element.localName === 'Data') {
+      data[name] = getChildText(element, 'value') ?? '';
+    } else if (element.localName === 'SimpleData') {
+      data[name] = element.textContent?.trim() ?? '';
+    }
+  });
+
+  return data;
+}
+
+/**
+ * Name of the closest enclosing Folder, used as default category
+ */
+function getFolderName(placemark: Element): string | undefined {
+  let parent = placemark.parentElement;
+  while (parent) {
+    if (parent.localName === 'Folder') return getChildText(parent, 'name');
+    parent = parent.parentElement;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a KML document (e.g. exported from Google Earth) into markers
+ * Names, descriptions, altitude and ExtendedData become marker properties
+ */
+export function importKml(text: string, label = 'KML'): ImportResult {
+  const doc = parseXml(text, label);
+  const placemarks = Array.from(doc.getElementsByTagName('*')).filter(
+    element => element.localName === 'Placemark',
+  );
+
+  const features: Marker[] = [];
+  const issues: FeatureValidationIssue[] = [];
+
+  placemarks.forEach((placemark, index) => {
+    const id = placemark.getAttribute('id') || `placemark-${index + 1}`;
+    const name = getChildText(placemark, 'name');
+    const extendedData = readExtendedData(placemark);
+
+    const geometries = collectKmlGeometries(placemark);
+    if (!geometries.length) {
+      issues.push({
+        index,
+        id,
+        path: `Placemark[${index + 1}]`,
+        reason:
+          'Placemark sem geometria suportada (Point, LineString, Polygon)',
+      });
+      return;
+    }
+
+    geometries.forEach((element, geometryIndex) => {
+      try {
+        const geometry = parseKmlGeometry(element);
+        features.push(
+          createMarker(
+            geometries.length > 1 ? `${id}-${geometryIndex + 1}` : id,
+            geometry,
+            {
+              ...extendedData,
+              name,
+              description: stripHtml(getChildText(placemark, 'description')),
+              category:
+                extendedData.category ||
+                extendedData.categoria ||
+                getFolderName(placemark),
+            },
+          ),
+        );
+      } catch (error) {
+        issues.push({
+          index,
+          id,
+          path: `Placemark[${index + 1}]/${element.localName}`,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  });
+
+  return {
+    collection: { type: 'FeatureCollection', features },
+    issues,
+    total: placemarks.length,
+  };
+}
+
+/**
+ * Converts a KMZ archive: the main document is doc.kml or the first .kml entry
+ */
+export async function importKmz(
+  buffer: ArrayBuffer,
+  label = 'KMZ',
+): Promise<ImportResult> {
+  const kmlEntries = listZipEntries(buffer).filter(entry =>
+    entry.name.toLowerCase().endsWith('.kml'),
+  );
+  const mainEntry =
+    kmlEntries.find(entry => entry.name.toLowerCase() === 'doc.kml') ??
+    kmlEntries[0];
+
+  if (!mainEntry) {
+    throw new Error(`${label}: nenhum documento KML encontrado no arquivo`);
+  }
+
+  const content = await readZipEntry(buffer, mainEntry);
+  return importKml(new TextDecoder().decode(content), label);
+}
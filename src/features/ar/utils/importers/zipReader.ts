@@ -0,0 +1,94 @@
+// Path: features\ar\utils\importers\zipReader.ts
+
+/**
+ * Entrada do diretório central de um arquivo ZIP
+ */
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Assinaturas dos registros ZIP
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Lists the entries of a ZIP archive by reading its central directory
+ */
+export function listZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+
+  // O registro final fica nos últimos 22 bytes + comentário (até 64 KB)
+  let eocd = -1;
+  for (
+    let offset = buffer.byteLength - 22;
+    offset >= Math.max(0, buffer.byteLength - 22 - 0xffff);
+    offset--
+  ) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Arquivo ZIP inválido');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Diretório central do ZIP corrompido');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extracts an entry of a ZIP archive, inflating it with the browser's
+ * DecompressionStream (no network or extra libraries needed)
+ */
+export async function readZipEntry(
+  buffer: ArrayBuffer,
+  entry: ZipEntry,
+): Promise<Uint8Array> {
+  const view = new DataView(buffer);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Entrada ZIP corrompida: ${entry.name}`);
+  }
+
+  const dataStart =
+    offset +
+    30 +
+    view.getUint16(offset + 26, true) +
+    view.getUint16(offset + 28, true);
+  const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) {
+    throw new Error(`Compressão ZIP não suportada (método ${entry.method})`);
+  }
+
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
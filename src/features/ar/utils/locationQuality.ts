@@ -0,0 +1,119 @@
+// Path: features\ar\utils\locationQuality.ts
+import { HeadingSource } from './orientation';
+
+/**
+ * Confiabilidade geral da visualização AR
+ */
+export type LocationQualityLevel = 'good' | 'fair' | 'poor' | 'none';
+
+/**
+ * Situações que comprometem a posição ou a direção exibidas
+ */
+export type LocationWarning =
+  | 'no-fix'
+  | 'stale-fix'
+  | 'low-accuracy'
+  | 'accuracy-exceeds-nearest'
+  | 'no-altitude'
+  | 'no-heading'
+  | 'relative-heading'
+  | 'low-heading-confidence';
+
+export interface LocationQualityInput {
+  accuracy: number | null; // metros
+  fixAge: number | null; // ms desde a última leitura do GPS
+  altitudeAvailable: boolean;
+  nearestMarkerDistance: number | null; // metros
+  headingSource: HeadingSource | null;
+  headingConfidence: number; // 0..1
+}
+
+export interface LocationQuality {
+  level: LocationQualityLevel;
+  warnings: LocationWarning[];
+}
+
+// Leituras mais antigas que isso indicam que o GPS parou de responder (ms)
+export const STALE_FIX_AGE = 10000;
+// Precisões horizontais (metros) consideradas boas e aceitáveis
+export const GOOD_ACCURACY = 10;
+export const FAIR_ACCURACY = 30;
+// Confiança mínima da direção antes de alertar
+export const MIN_HEADING_CONFIDENCE = 0.3;
+
+// Avisos que tornam a visualização pouco confiável
+const POOR_WARNINGS: LocationWarning[] = [
+  'no-fix',
+  'stale-fix',
+  'accuracy-exceeds-nearest',
+  'no-heading',
+  'relative-heading',
+];
+
+/**
+ * Whether a marker is closer than the position uncertainty, so its
+ * bearing and distance are not meaningful
+ */
+export function isWithinUncertainty(
+  distance: number,
+  accuracy: number | null,
+): boolean {
+  return accuracy !== null && distance <= accuracy;
+}
+
+/**
+ * Evaluates how far the AR view can be trusted from the GPS fix and the
+ * heading estimate
+ */
+export function getLocationQuality({
+  accuracy,
+  fixAge,
+  altitudeAvailable,
+  nearestMarkerDistance,
+  headingSource,
+  headingConfidence,
+}: LocationQualityInput): LocationQuality {
+  const warnings: LocationWarning[] = [];
+
+  if (accuracy === null || fixAge === null) {
+    warnings.push('no-fix');
+  } else {
+    if (fixAge > STALE_FIX_AGE) warnings.push('stale-fix');
+    if (accuracy > FAIR_ACCURACY) warnings.push('low-accuracy');
+    if (
+      nearestMarkerDistance !== null &&
+      isWithinUncertainty(nearestMarkerDistance, accuracy)
+    ) {
+      warnings.push('accuracy-exceeds-nearest');
+    }
+    if (!altitudeAvailable) warnings.push('no-altitude');
+  }
+
+  if (headingSource === null) {
+    warnings.push('no-heading');
+  } else if (headingSource === 'relative') {
+    warnings.push('relative-heading');
+  } else if (headingConfidence < MIN_HEADING_CONFIDENCE) {
+    warnings.push('low-heading-confidence');
+  }
+
+  const level: LocationQualityLevel = warnings.includes('no-fix')
+    ? 'none'
+    : warnings.some(warning => POOR_WARNINGS.includes(warning))
+      ? 'poor'
+      : warnings.length > 0 || (accuracy ?? 0) > GOOD_ACCURACY
+        ? 'fair'
+        : 'good';
+
+  return { level, warnings };
+}
+
+/**
+ * Short description of a fix age ("agora", "há 12 s", "há 3 min")
+ */
+export function formatFixAge(age: number): string {
+  const seconds = Math.round(age / 1000);
+  if (seconds < 2) return 'agora';
+  if (seconds < 60) return `há ${seconds} s`;
+  return `há ${Math.round(seconds / 60)} min`;
+}
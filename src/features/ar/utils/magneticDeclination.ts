@@ -0,0 +1,149 @@
+// Path: features\ar\utils\magneticDeclination.ts
+import { WMM_2025 } from '../data/wmm2025';
+
+// Elipsoide WGS84 (km) e raio de referência do modelo geomagnético
+const WGS84_A = 6378.137;
+const WGS84_B = 6356.7523142;
+const GEOMAGNETIC_RADIUS = 6371.2;
+
+const MAX_DEGREE = 12;
+
+// Coeficientes organizados por [n][m], com a normalização de Schmidt aplicada
+const { g, h, gDot, hDot } = (() => {
+  const createTable = () =>
+    Array.from({ length: MAX_DEGREE + 1 }, () =>
+      new Array<number>(MAX_DEGREE + 1).fill(0),
+    );
+  const tables = {
+    g: createTable(),
+    h: createTable(),
+    gDot: createTable(),
+    hDot: createTable(),
+  };
+
+  // Fatores de Schmidt semi-normalizados
+  const schmidt = createTable();
+  schmidt[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    schmidt[n][0] = (schmidt[n - 1][0] * (2 * n - 1)) / n;
+    for (let m = 1; m <= n; m++) {
+      schmidt[n][m] =
+        schmidt[n][m - 1] *
+        Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+    }
+  }
+
+  WMM_2025.coefficients.forEach(([n, m, gnm, hnm, gnmDot, hnmDot]) => {
+    tables.g[n][m] = gnm * schmidt[n][m];
+    tables.h[n][m] = hnm * schmidt[n][m];
+    tables.gDot[n][m] = gnmDot * schmidt[n][m];
+    tables.hDot[n][m] = hnmDot * schmidt[n][m];
+  });
+
+  return tables;
+})();
+
+/**
+ * Converts a date to a decimal year (e.g. 2025-07-02 -> 2025.5)
+ */
+export function toDecimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Magnetic declination (degrees, positive east) from the World Magnetic
+ * Model 2025, computed offline for a geodetic position
+ * True heading = magnetic heading + declination
+ * The model is valid from 2025.0 to 2030.0; outside that range the secular
+ * variation is extrapolated and accuracy degrades
+ *
+ * @param latitude Geodetic latitude in degrees
+ * @param longitude Longitude in degrees
+ * @param altitude Altitude above the ellipsoid in meters
+ * @param date Date of the observation
+ */
+export function getMagneticDeclination(
+  latitude: number,
+  longitude: number,
+  altitude = 0,
+  date: Date = new Date(),
+): number {
+  const dt = toDecimalYear(date) - WMM_2025.epoch;
+  const altitudeKm = altitude / 1000;
+  const lat = (latitude * Math.PI) / 180;
+  const lon = (longitude * Math.PI) / 180;
+
+  // Conversão de coordenadas geodésicas para geocêntricas esféricas
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const a2 = WGS84_A * WGS84_A;
+  const b2 = WGS84_B * WGS84_B;
+  const c2 = a2 - b2;
+  const a4 = a2 * a2;
+  const c4 = a4 - b2 * b2;
+  const q = Math.sqrt(a2 - c2 * sinLat * sinLat);
+  const q1 = altitudeKm * q;
+  const q2 = ((q1 + a2) / (q1 + b2)) ** 2;
+  const cosTheta = sinLat / Math.sqrt(q2 * cosLat * cosLat + sinLat * sinLat);
+  const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+  const r = Math.sqrt(
+    altitudeKm * altitudeKm + 2 * q1 + (a4 - c4 * sinLat * sinLat) / (q * q),
+  );
+  const d = Math.sqrt(a2 * cosLat * cosLat + b2 * sinLat * sinLat);
+  const cosDelta = (altitudeKm + d) / r;
+  const sinDelta = (c2 * cosLat * sinLat) / (r * d);
+
+  // Funções de Legendre associadas e suas derivadas em relação a theta
+  const p: number[][] = [[1]];
+  const dp: number[][] = [[0]];
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    p[n] = [];
+    dp[n] = [];
+    for (let m = 0; m <= n; m++) {
+      if (m === n) {
+        p[n][m] = sinTheta * p[n - 1][m - 1];
+        dp[n][m] = sinTheta * dp[n - 1][m - 1] + cosTheta * p[n - 1][m - 1];
+      } else {
+        const k =
+          n > 1 ? ((n - 1) * (n - 1) - m * m) / ((2 * n - 1) * (2 * n - 3)) : 0;
+        const p2 = n > 1 && m <= n - 2 ? p[n - 2][m] : 0;
+        const dp2 = n > 1 && m <= n - 2 ? dp[n - 2][m] : 0;
+        p[n][m] = cosTheta * p[n - 1][m] - k * p2;
+        dp[n][m] = cosTheta * dp[n - 1][m] - sinTheta * p[n - 1][m] - k * dp2;
+      }
+    }
+  }
+
+  // Componentes do campo no referencial geocêntrico
+  let north = 0;
+  let east = 0;
+  let radial = 0;
+  const ratio = GEOMAGNETIC_RADIUS / r;
+  let power = ratio * ratio;
+
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    power *= ratio;
+    for (let m = 0; m <= n; m++) {
+      const gnm = g[n][m] + dt * gDot[n][m];
+      const hnm = h[n][m] + dt * hDot[n][m];
+      const cosM = Math.cos(m * lon);
+      const sinM = Math.sin(m * lon);
+
+      const cosTerm = gnm * cosM + hnm * sinM;
+      north += power * cosTerm * dp[n][m];
+      east += power * m * (gnm * sinM - hnm * cosM) * p[n][m];
+      radial += power * (n + 1) * cosTerm * p[n][m];
+    }
+  }
+
+  // Nos polos a componente leste é indefinida; usa o limite da série
+  east = sinTheta > 1e-10 ? east / sinTheta : 0;
+
+  // Rotação para o referencial geodésico
+  const x = north * cosDelta + -radial * sinDelta;
+
+  return (Math.atan2(east, x) * 180) / Math.PI;
+}
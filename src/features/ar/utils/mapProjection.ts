@@ -0,0 +1,143 @@
+// Path: features\ar\utils\mapProjection.ts
+import { toLocalOffset } from './arjsUtils';
+
+// [longitude, latitude, altitude]
+type Position = [number, number, number];
+
+/**
+ * Área exibida no mapa 2D: centro e escala (projeção equirretangular local,
+ * norte para cima)
+ */
+export interface MapViewport {
+  latitude: number;
+  longitude: number;
+  metersPerPixel: number;
+}
+
+export interface MapSize {
+  width: number;
+  height: number;
+}
+
+// Limites de aproximação do mapa (metros por pixel)
+export const MIN_METERS_PER_PIXEL = 0.05;
+export const MAX_METERS_PER_PIXEL = 500;
+// Escala inicial, centrada no usuário
+export const DEFAULT_METERS_PER_PIXEL = 1;
+
+const METERS_PER_DEGREE = (Math.PI / 180) * 6371e3;
+
+const clampMetersPerPixel = (value: number) =>
+  Math.min(MAX_METERS_PER_PIXEL, Math.max(MIN_METERS_PER_PIXEL, value));
+
+/**
+ * Screen position (pixels from the top-left corner) of a geographic position
+ */
+export function projectToMap(
+  position: Position,
+  viewport: MapViewport,
+  size: MapSize,
+): { x: number; y: number } {
+  const { east, north } = toLocalOffset(
+    [viewport.longitude, viewport.latitude, 0],
+    position,
+  );
+  return {
+    x: size.width / 2 + east / viewport.metersPerPixel,
+    y: size.height / 2 - north / viewport.metersPerPixel,
+  };
+}
+
+/**
+ * Moves the viewport center by a drag of (dx, dy) pixels
+ */
+export function panViewport(
+  viewport: MapViewport,
+  dx: number,
+  dy: number,
+): MapViewport {
+  const north = dy * viewport.metersPerPixel;
+  const east = -dx * viewport.metersPerPixel;
+  return {
+    ...viewport,
+    latitude: Math.max(
+      -85,
+      Math.min(85, viewport.latitude + north / METERS_PER_DEGREE),
+    ),
+    longitude:
+      viewport.longitude +
+      east /
+        (METERS_PER_DEGREE * Math.cos((viewport.latitude * Math.PI) / 180)),
+  };
+}
+
+/**
+ * Zooms by `factor` (> 1 zooms in) keeping the geographic point under the
+ * screen point `anchor` in place
+ */
+export function zoomViewport(
+  viewport: MapViewport,
+  factor: number,
+  anchor: { x: number; y: number },
+  size: MapSize,
+): MapViewport {
+  const metersPerPixel = clampMetersPerPixel(viewport.metersPerPixel / factor);
+  // Aproxima o centro do ponto de ancoragem na proporção da mudança de escala
+  const scale = 1 - metersPerPixel / viewport.metersPerPixel;
+  const panned = panViewport(
+    viewport,
+    -(anchor.x - size.width / 2) * scale,
+    -(anchor.y - size.height / 2) * scale,
+  );
+  return { ...panned, metersPerPixel };
+}
+
+/**
+ * Viewport that shows all the positions with a margin (pixels)
+ * Returns null when there are no positions
+ */
+export function fitViewport(
+  positions: Position[],
+  size: MapSize,
+  padding = 48,
+): MapViewport | null {
+  if (!positions.length) return null;
+
+  const longitudes = positions.map(position => position[0]);
+  const latitudes = positions.map(position => position[1]);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+
+  const center: Position = [(minLng + maxLng) / 2, (minLat + maxLat) / 2, 0];
+  const { east, north } = toLocalOffset(
+    [minLng, minLat, 0],
+    [maxLng, maxLat, 0],
+  );
+  const width = Math.max(1, size.width - 2 * padding);
+  const height = Math.max(1, size.height - 2 * padding);
+
+  return {
+    latitude: center[1],
+    longitude: center[0],
+    metersPerPixel: clampMetersPerPixel(
+      Math.max(east / width, north / height, DEFAULT_METERS_PER_PIXEL / 4),
+    ),
+  };
+}
+
+/**
+ * Round distance (1, 2 or 5 × 10ⁿ meters) that fits in `maxWidth` pixels,
+ * used for the scale bar and the distance rings
+ */
+export function getScaleBar(
+  metersPerPixel: number,
+  maxWidth = 100,
+): { meters: number; width: number } {
+  const maxMeters = metersPerPixel * maxWidth;
+  const magnitude = 10 ** Math.floor(Math.log10(maxMeters));
+  const step = [5, 2, 1].find(value => value * magnitude <= maxMeters) ?? 1;
+  const meters = step * magnitude;
+  return { meters, width: meters / metersPerPixel };
+}
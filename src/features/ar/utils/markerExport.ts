@@ -0,0 +1,319 @@
+// Path: features\ar\utils\markerExport.ts
+import { MarkerWithDistance } from '../schemas/markerSchema';
+import { getGeometryVertices } from './arjsUtils';
+
+/**
+ * Formatos disponíveis para exportação
+ */
+export type ExportFormat = 'geojson' | 'gpx' | 'csv';
+
+/**
+ * Posição e orientação do observador no momento da exportação
+ */
+export interface ExportContext {
+  observer: {
+    latitude: number | null;
+    longitude: number | null;
+    altitude: number | null;
+    accuracy: number | null;
+  };
+  heading: number | null;
+  timestamp: Date;
+}
+
+// Extensão e tipo MIME de cada formato
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { extension: string; mimeType: string; label: string }
+> = {
+  geojson: {
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+    label: 'GeoJSON',
+  },
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', label: 'GPX' },
+  csv: { extension: 'csv', mimeType: 'text/csv', label: 'CSV' },
+};
+
+const round = (value: number | null | undefined, digits: number) =>
+  value === null || value === undefined || !Number.isFinite(value)
+    ? null
+    : Number(value.toFixed(digits));
+
+/**
+ * Bearing relative to the device heading, normalized to -180..180
+ */
+function getRelativeBearing(bearing: number, heading: number | null) {
+  if (heading === null) return null;
+  return ((bearing - heading + 540) % 360) - 180;
+}
+
+/**
+ * Values computed for a marker from the observer position
+ */
+function getComputedValues(marker: MarkerWithDistance, context: ExportContext) {
+  return {
+    distance: round(marker.distance, 1),
+    bearing: round(marker.bearing, 1),
+    relativeBearing: round(
+      getRelativeBearing(marker.bearing, context.heading),
+      1,
+    ),
+    verticalAngle: round(marker.verticalAngle, 2),
+    nearestLongitude: round(marker.anchor[0], 7),
+    nearestLatitude: round(marker.anchor[1], 7),
+    nearestAltitude: round(marker.anchor[2], 1),
+  };
+}
+
+/**
+ * Exports markers as a GeoJSON FeatureCollection
+ * The observer is written as an extra Point feature with role "observer"
+ */
+export function exportToGeoJSON(
+  markers: MarkerWithDistance[],
+  context: ExportContext,
+): string {
+  const { observer, heading, timestamp } = context;
+  const features: object[] = markers.map(marker => ({
+    type: 'Feature',
+    id: marker.id,
+    geometry: marker.geometry,
+    properties: {
+      ...marker.properties,
+      ...getComputedValues(marker, context),
+    },
+  }));
+
+  if (observer.latitude !== null && observer.longitude !== null) {
+    features.unshift({
+      type: 'Feature',
+      id: 'observer',
+      geometry: {
+        type: 'Point',
+        coordinates: [
+          observer.longitude,
+          observer.latitude,
+          observer.altitude ?? 0,
+        ],
+      },
+      properties: {
+        role: 'observer',
+        name: 'Observador',
+        accuracy: round(observer.accuracy, 1),
+        heading: round(heading, 1),
+        timestamp: timestamp.toISOString(),
+      },
+    });
+  }
+
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      metadata: {
+        timestamp: timestamp.toISOString(),
+        observer,
+        heading: round(heading, 1),
+        count: markers.length,
+      },
+      features,
+    },
+    null,
+    2,
+  );
+}
+
+const escapeXml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Builds GPX extension elements from computed values
+ */
+const gpxExtensions = (values: Record<string, number | string | null>) =>
+  `<extensions>${Object.entries(values)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `<ar:${key}>${escapeXml(value)}</ar:${key}>`)
+    .join('')}</extensions>`;
+
+/**
+ * Exports markers as GPX 1.1: points become waypoints, lines and polygon
+ * outlines become tracks; computed values go into <extensions>
+ */
+export function exportToGPX(
+  markers: MarkerWithDistance[],
+  context: ExportContext,
+): string {
+  const { observer, heading, timestamp } = context;
+  const time = timestamp.toISOString();
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  if (observer.latitude !== null && observer.longitude !== null) {
+    waypoints.push(
+      `  <wpt lat="${observer.latitude}" lon="${observer.longitude}">` +
+        (observer.altitude !== null ? `<ele>${observer.altitude}</ele>` : '') +
+        `<time>${time}</time><name>Observador</name><type>observer</type>` +
+        gpxExtensions({
+          heading: round(heading, 1),
+          accuracy: round(observer.accuracy, 1),
+        }) +
+        '</wpt>',
+    );
+  }
+
+  markers.forEach(marker => {
+    const { name, category, description } = marker.properties;
+    const metadata =
+      `<name>${escapeXml(name)}</name>` +
+      (description ? `<desc>${escapeXml(description)}</desc>` : '') +
+      `<type>${escapeXml(category)}</type>` +
+      gpxExtensions({ id: marker.id, ...getComputedValues(marker, context) });
+
+    if (marker.geometry.type === 'Point') {
+      const [lng, lat, altitude] = marker.geometry.coordinates;
+      waypoints.push(
+        `  <wpt lat="${lat}" lon="${lng}"><ele>${altitude}</ele>${metadata}</wpt>`,
+      );
+      return;
+    }
+
+    const vertices = getGeometryVertices(marker.geometry);
+    // Fecha o contorno dos polígonos
+    const points =
+      marker.geometry.type === 'Polygon'
+        ? [...vertices, vertices[0]]
+        : vertices;
+    tracks.push(
+      `  <trk>${metadata}<trkseg>${points
+        .map(
+          ([lng, lat, altitude]) =>
+            `<trkpt lat="${lat}" lon="${lng}"><ele>${altitude}</ele></trkpt>`,
+        )
+        .join('')}</trkseg></trk>`,
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="AR Location Explorer" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ar="https://github.com/1cgeo/prototipo_location_ar">',
+    `  <metadata><time>${time}</time></metadata>`,
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+const escapeCsv = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Exports markers as CSV, one row per marker with the observer values
+ * repeated on every row (field log format)
+ */
+export function exportToCSV(
+  markers: MarkerWithDistance[],
+  context: ExportContext,
+): string {
+  const { observer, heading, timestamp } = context;
+  const header = [
+    'id',
+    'name',
+    'category',
+    'geometry_type',
+    'latitude',
+    'longitude',
+    'altitude',
+    'distance_m',
+    'bearing_deg',
+    'relative_bearing_deg',
+    'vertical_angle_deg',
+    'observer_latitude',
+    'observer_longitude',
+    'observer_altitude',
+    'observer_accuracy_m',
+    'heading_deg',
+    'timestamp',
+  ];
+
+  const rows = markers.map(marker => {
+    const values = getComputedValues(marker, context);
+    return [
+      marker.id,
+      marker.properties.name,
+      marker.properties.category,
+      marker.geometry.type,
+      values.nearestLatitude,
+      values.nearestLongitude,
+      values.nearestAltitude,
+      values.distance,
+      values.bearing,
+      values.relativeBearing,
+      values.verticalAngle,
+      observer.latitude,
+      observer.longitude,
+      observer.altitude,
+      round(observer.accuracy, 1),
+      round(heading, 1),
+      timestamp.toISOString(),
+    ];
+  });
+
+  return [header, ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Serializes markers in the requested format
+ */
+export function exportMarkers(
+  markers: MarkerWithDistance[],
+  format: ExportFormat,
+  context: ExportContext,
+): string {
+  switch (format) {
+    case 'geojson':
+      return exportToGeoJSON(markers, context);
+    case 'gpx':
+      return exportToGPX(markers, context);
+    case 'csv':
+      return exportToCSV(markers, context);
+  }
+}
+
+/**
+ * Builds a file name such as marcadores-20250405-143000.geojson
+ */
+export function getExportFileName(format: ExportFormat, timestamp: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${timestamp.getFullYear()}${pad(timestamp.getMonth() + 1)}${pad(timestamp.getDate())}`;
+  const time = `${pad(timestamp.getHours())}${pad(timestamp.getMinutes())}${pad(timestamp.getSeconds())}`;
+  return `marcadores-${date}-${time}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Triggers a browser download of text content
+ */
+export function downloadTextFile(
+  content: string,
+  fileName: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Libera o objeto depois que o navegador iniciar o download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
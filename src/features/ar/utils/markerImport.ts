@@ -0,0 +1,68 @@
+// Path: features\ar\utils\markerImport.ts
+import { importKml, importKmz } from './importers/kmlImporter';
+import { importGpx } from './importers/gpxImporter';
+import { CsvColumnMapping, importCsv } from './importers/csvImporter';
+import { ImportResult } from './importers/importUtils';
+
+/**
+ * Formatos de arquivo aceitos como origem de marcadores
+ */
+export type MarkerFileFormat = 'geojson' | 'kml' | 'kmz' | 'gpx' | 'csv';
+
+export interface ImportOptions {
+  csvMapping?: CsvColumnMapping;
+}
+
+// Extensões aceitas no seletor de arquivos
+export const MARKER_FILE_ACCEPT =
+  '.json,.geojson,.kml,.kmz,.gpx,.csv,application/json,application/geo+json';
+
+/**
+ * Detects the file format from its name, falling back to the content type
+ */
+export function detectMarkerFileFormat(
+  name: string,
+  contentType = '',
+): MarkerFileFormat {
+  const extension = name.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'kml':
+      return 'kml';
+    case 'kmz':
+      return 'kmz';
+    case 'gpx':
+      return 'gpx';
+    case 'csv':
+    case 'txt':
+      return 'csv';
+  }
+
+  if (contentType.includes('kml')) return 'kml';
+  if (contentType.includes('kmz')) return 'kmz';
+  if (contentType.includes('gpx')) return 'gpx';
+  if (contentType.includes('csv')) return 'csv';
+  return 'geojson';
+}
+
+/**
+ * Converts KML, KMZ, GPX or CSV content into a MarkersCollection
+ * Everything runs locally in the browser
+ */
+export async function importMarkerFile(
+  content: Blob,
+  format: Exclude<MarkerFileFormat, 'geojson'>,
+  label: string,
+  { csvMapping }: ImportOptions = {},
+): Promise<ImportResult> {
+  switch (format) {
+    case 'kml':
+      return importKml(await content.text(), label);
+    case 'kmz':
+      return importKmz(await content.arrayBuffer(), label);
+    case 'gpx':
+      return importGpx(await content.text(), label);
+    case 'csv':
+      return importCsv(await content.text(), csvMapping, label);
+  }
+}
@@ -0,0 +1,112 @@
+// Path: features\ar\utils\markerRange.test.ts
+import { describe, expect, it } from 'vitest';
+import { Marker } from '../schemas/markerSchema';
+import {
+  calculateDistance,
+  getSceneAltitude,
+  processMarkers,
+  projectMarkerToScreen,
+} from './arjsUtils';
+import {
+  MAX_MARKER_DISTANCE,
+  getMarkerMaxDistance,
+  isWithinMarkerRange,
+} from './markerRange';
+import { MAX_PROCESSING_DISTANCE } from './spatialIndex';
+
+const USER = { lat: -22.9, lng: -43.2, alt: 0 };
+// ~4,5 km ao norte, 50 m acima do usuário
+const DISTANCE = 4500;
+
+const landmark = (category: string): Marker =>
+  ({
+    id: category,
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [USER.lng, USER.lat + DISTANCE / 111200, 50],
+    },
+    properties: { name: category, category },
+  }) as Marker;
+
+const process = (marker: Marker, mode: 'fast' | 'accurate') => {
+  const [processed] = processMarkers(
+    [marker],
+    USER.lat,
+    USER.lng,
+    USER.alt,
+    mode,
+  );
+  return { ...processed, verticalAngle: processed.verticalAngle! };
+};
+
+const screenY = (verticalAngle: number) =>
+  projectMarkerToScreen({
+    relativeBearing: 0,
+    verticalAngle,
+    pitch: 0,
+    roll: 0,
+    horizontalFieldOfView: 60,
+    width: 1080,
+    height: 1920,
+  })!.y;
+
+describe('getMarkerMaxDistance', () => {
+  it('extends the range of landmarks only in the accurate mode', () => {
+    expect(getMarkerMaxDistance('atracao', 'accurate')).toBe(
+      MAX_PROCESSING_DISTANCE,
+    );
+    expect(getMarkerMaxDistance('atracao', 'fast')).toBe(MAX_MARKER_DISTANCE);
+    expect(getMarkerMaxDistance('restaurante', 'accurate')).toBe(
+      MAX_MARKER_DISTANCE,
+    );
+  });
+});
+
+describe('far landmarks', () => {
+  it('keeps a landmark at 4.5 km in range in the accurate mode', () => {
+    const accurate = process(landmark('atracao'), 'accurate');
+
+    expect(accurate.distance).toBeGreaterThan(4000);
+    expect(isWithinMarkerRange(accurate, 'accurate')).toBe(true);
+    expect(
+      isWithinMarkerRange(process(landmark('atracao'), 'fast'), 'fast'),
+    ).toBe(false);
+    expect(
+      isWithinMarkerRange(process(landmark('loja'), 'accurate'), 'accurate'),
+    ).toBe(false);
+  });
+
+  it('lowers the landmark by the curvature and refraction drop', () => {
+    const fast = process(landmark('atracao'), 'fast');
+    const accurate = process(landmark('atracao'), 'accurate');
+
+    expect(accurate.verticalAngle).toBeLessThan(fast.verticalAngle);
+
+    // A entidade fica na altura que reproduz o ângulo corrigido à distância
+    // usada pelo A-Frame, ~1,2 m abaixo da altitude do marcador
+    const fastAltitude = getSceneAltitude(fast, USER.lat, USER.lng, USER.alt);
+    const accurateAltitude = getSceneAltitude(
+      accurate,
+      USER.lat,
+      USER.lng,
+      USER.alt,
+    );
+    const sceneDistance = calculateDistance(
+      USER.lat,
+      USER.lng,
+      accurate.anchor[1],
+      accurate.anchor[0],
+    );
+    expect(fastAltitude).toBeCloseTo(50, 6);
+    expect(fastAltitude - accurateAltitude).toBeGreaterThan(1);
+    expect(
+      (Math.atan2(accurateAltitude - USER.alt, sceneDistance) * 180) / Math.PI,
+    ).toBeCloseTo(accurate.verticalAngle, 9);
+
+    // Mais abaixo na tela (y cresce para baixo)
+    expect(screenY(accurate.verticalAngle)).toBeGreaterThan(
+      screenY(fast.verticalAngle),
+    );
+  });
+});
@@ -0,0 +1,45 @@
+// Path: features\ar\utils\markerRange.ts
+import { GeodesyMode } from './geodesy';
+import { MAX_PROCESSING_DISTANCE } from './spatialIndex';
+
+// Alcance padrão dos marcadores na visualização AR (metros)
+export const MAX_MARKER_DISTANCE = 500;
+
+// Pontos de referência vistos de longe, até o horizonte
+const HORIZON_CATEGORIES = new Set(['atracao']);
+
+/**
+ * Maximum distance (meters) at which markers of a category are shown in
+ * the AR view
+ * In the accurate geodesy mode far landmarks stay visible up to
+ * MAX_PROCESSING_DISTANCE, the range where the curvature and refraction
+ * correction lowers them by meters instead of centimeters
+ */
+export function getMarkerMaxDistance(
+  category: string,
+  mode: GeodesyMode,
+): number {
+  return mode === 'accurate' && HORIZON_CATEGORIES.has(category)
+    ? MAX_PROCESSING_DISTANCE
+    : MAX_MARKER_DISTANCE;
+}
+
+/**
+ * Largest marker range in a geodesy mode, for queries that must cover
+ * every category
+ */
+export function getMaxMarkerRange(mode: GeodesyMode): number {
+  return mode === 'accurate' ? MAX_PROCESSING_DISTANCE : MAX_MARKER_DISTANCE;
+}
+
+/**
+ * Whether a marker is within the range of its category
+ */
+export function isWithinMarkerRange(
+  marker: { distance: number; properties: { category: string } },
+  mode: GeodesyMode,
+): boolean {
+  return (
+    marker.distance <= getMarkerMaxDistance(marker.properties.category, mode)
+  );
+}
@@ -0,0 +1,250 @@
+// Path: features\ar\utils\markerSources.ts
+import { Marker, MarkersCollection } from '../schemas/markerSchema';
+import {
+  ValidationReport,
+  validateMarkersCollection,
+} from './markerValidation';
+import {
+  ImportOptions,
+  detectMarkerFileFormat,
+  importMarkerFile,
+} from './markerImport';
+import { CachedDatasetSummary, getCachedDataset } from './datasetCache';
+
+/**
+ * Origem dos marcadores carregados no visualizador
+ */
+export type MarkerSource =
+  | { type: 'bundled'; name: string }
+  | { type: 'file'; file: File; options?: ImportOptions }
+  | { type: 'url'; url: string; options?: ImportOptions }
+  | { type: 'cached'; id: string; label: string }
+  | { type: 'sample' };
+
+/**
+ * Descrição serializável da origem atual (sem o objeto File)
+ */
+export interface MarkerSourceInfo {
+  type: MarkerSource['type'];
+  label: string;
+}
+
+/**
+ * Como os marcadores carregados são combinados com os existentes
+ * - replace: descarta os marcadores atuais
+ * - merge: substitui marcadores com o mesmo id e adiciona os novos
+ * - append: adiciona todos, renomeando ids repetidos
+ */
+export type MarkerLoadMode = 'replace' | 'merge' | 'append';
+
+// Datasets empacotados junto com a aplicação (carregados sob demanda)
+const bundledDatasets = import.meta.glob<MarkersCollection>(
+  '../data/datasets/*.json',
+  { import: 'default' },
+);
+
+/**
+ * Extracts the dataset name from a bundled file path
+ */
+const datasetNameFromPath = (path: string): string =>
+  path.replace(/^.*\//, '').replace(/\.json$/, '');
+
+/**
+ * Lists the names of the datasets bundled with the app
+ */
+export function listBundledDatasets(): string[] {
+  return Object.keys(bundledDatasets).map(datasetNameFromPath).sort();
+}
+
+/**
+ * Returns the source configured through VITE_API_URL, or the sample
+ * generator when no endpoint is configured
+ */
+export function getDefaultMarkerSource(): MarkerSource {
+  const url = import.meta.env.VITE_API_URL;
+  return url ? { type: 'url', url } : { type: 'sample' };
+}
+
+/**
+ * Source used to reopen a cached dataset: URLs are fetched again when
+ * online (falling back to the cached copy), other origins use the cache
+ */
+export function getCachedDatasetSource(
+  dataset: CachedDatasetSummary,
+): MarkerSource {
+  return dataset.sourceType === 'url' && dataset.url && navigator.onLine
+    ? { type: 'url', url: dataset.url }
+    : { type: 'cached', id: dataset.id, label: dataset.label };
+}
+
+/**
+ * Builds the serializable description of a source for the UI
+ */
+export function describeMarkerSource(source: MarkerSource): MarkerSourceInfo {
+  switch (source.type) {
+    case 'bundled':
+      return { type: source.type, label: source.name };
+    case 'file':
+      return { type: source.type, label: source.file.name };
+    case 'url':
+      return { type: source.type, label: source.url };
+    case 'cached':
+      return { type: source.type, label: source.label };
+    case 'sample':
+      return { type: source.type, label: 'Pontos de exemplo' };
+  }
+}
+
+/**
+ * Reads the raw content of a source
+ * The sample generator needs the user location and is handled by the store
+ */
+async function readMarkerSource(
+  source: Exclude<MarkerSource, { type: 'sample' }>,
+): Promise<{ content: Blob | unknown; name: string; contentType: string }> {
+  switch (source.type) {
+    case 'bundled': {
+      const entry = Object.entries(bundledDatasets).find(
+        ([path]) => datasetNameFromPath(path) === source.name,
+      );
+      if (!entry) {
+        throw new Error(`Dataset "${source.name}" não encontrado`);
+      }
+      return {
+        content: await entry[1](),
+        name: entry[0],
+        contentType: 'application/json',
+      };
+    }
+
+    case 'file':
+      return {
+        content: source.file,
+        name: source.file.name,
+        contentType: source.file.type,
+      };
+
+    case 'url': {
+      // Prefere GeoJSON de servidores que negociam o formato; os demais
+      // formatos suportados continuam aceitos
+      const response = await fetch(source.url, {
+        headers: {
+          Accept: 'application/geo+json, application/json, */*;q=0.1',
+        },
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Falha ao carregar ${source.url}: HTTP ${response.status}`,
+        );
+      }
+      return {
+        content: await response.blob(),
+        name: new URL(source.url, window.location.href).pathname,
+        contentType: response.headers.get('Content-Type') ?? '',
+      };
+    }
+
+    case 'cached': {
+      const dataset = await getCachedDataset(source.id);
+      if (!dataset) {
+        throw new Error(`Dataset "${source.label}" não está salvo no aparelho`);
+      }
+      return {
+        content: dataset.collection,
+        name: source.label,
+        contentType: 'application/json',
+      };
+    }
+  }
+}
+
+/**
+ * Loads a MarkersCollection from a bundled dataset, a local file, a URL
+ * or the offline dataset cache
+ * GeoJSON is read directly, KML/KMZ/GPX/CSV go through the importers
+ * Invalid features are skipped and described in the validation report
+ */
+export async function loadMarkerSource(
+  source: Exclude<MarkerSource, { type: 'sample' }>,
+): Promise<{ collection: MarkersCollection; report: ValidationReport }> {
+  const label = describeMarkerSource(source).label;
+  const { content, name, contentType } = await readMarkerSource(source);
+
+  if (!(content instanceof Blob)) {
+    return validateMarkersCollection(content, label);
+  }
+
+  const format = detectMarkerFileFormat(name, contentType);
+  if (format === 'geojson') {
+    let data: unknown;
+    try {
+      data = JSON.parse(await content.text());
+    } catch {
+      throw new Error(`${label} não contém JSON válido`);
+    }
+    return validateMarkersCollection(data, label);
+  }
+
+  const imported = await importMarkerFile(
+    content,
+    format,
+    label,
+    source.type === 'file' || source.type === 'url'
+      ? source.options
+      : undefined,
+  );
+  const { collection, report } = validateMarkersCollection(
+    imported.collection,
+    label,
+  );
+
+  return {
+    collection,
+    report: {
+      ...report,
+      total: imported.total,
+      issues: [...imported.issues, ...report.issues],
+    },
+  };
+}
+
+/**
+ * Combines loaded markers with the current ones according to the load mode
+ */
+export function combineMarkers(
+  current: Marker[],
+  incoming: Marker[],
+  mode: MarkerLoadMode,
+): Marker[] {
+  switch (mode) {
+    case 'replace':
+      return incoming;
+
+    case 'merge': {
+      const incomingById = new Map(incoming.map(marker => [marker.id, marker]));
+      // Mantém a ordem atual, substituindo os marcadores atualizados
+      const merged = current.map(
+        marker => incomingById.get(marker.id) ?? marker,
+      );
+      const currentIds = new Set(current.map(marker => marker.id));
+      return [
+        ...merged,
+        ...incoming.filter(marker => !currentIds.has(marker.id)),
+      ];
+    }
+
+    case 'append': {
+      const usedIds = new Set(current.map(marker => marker.id));
+      const appended = incoming.map(marker => {
+        let id = marker.id;
+        let suffix = 2;
+        while (usedIds.has(id)) {
+          id = `${marker.id}-${suffix++}`;
+        }
+        usedIds.add(id);
+        return id === marker.id ? marker : { ...marker, id };
+      });
+      return [...current, ...appended];
+    }
+  }
+}
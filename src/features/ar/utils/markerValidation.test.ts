@@ -0,0 +1,44 @@
+// Path: features\ar\utils\markerValidation.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateMarkersCollection } from './markerValidation';
+
+const point = (id?: string | number) => ({
+  ...(id !== undefined ? { id } : {}),
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [-43.2, -22.9] },
+  properties: { name: `Ponto ${id ?? 'sem id'}` },
+});
+
+const collection = (...features: unknown[]) => ({
+  type: 'FeatureCollection',
+  features,
+});
+
+describe('validateMarkersCollection', () => {
+  it('generates ids that do not collide with the ids in the file', () => {
+    const { collection: result, report } = validateMarkersCollection(
+      collection(point(), point(), point('feicao-2'), point(1)),
+      'teste',
+    );
+
+    const ids = result.features.map(marker => marker.id);
+    expect(ids).toHaveLength(4);
+    expect(new Set(ids).size).toBe(4);
+    expect(ids).toContain('feicao-2');
+    expect(ids).toContain('1');
+    expect(report.issues).toEqual([]);
+  });
+
+  it('skips and reports duplicate ids', () => {
+    const { collection: result, report } = validateMarkersCollection(
+      collection(point('3'), point('a'), point(3)),
+      'teste',
+    );
+
+    expect(result.features.map(marker => marker.id)).toEqual(['3', 'a']);
+    expect(report).toMatchObject({ total: 3, valid: 2 });
+    expect(report.issues).toEqual([
+      expect.objectContaining({ index: 2, id: '3', path: 'id' }),
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+// Path: features\ar\utils\markerValidation.ts
+import { z } from 'zod';
+import {
+  Marker,
+  MarkersCollection,
+  markerSchema,
+} from '../schemas/markerSchema';
+
+/**
+ * Problema encontrado em uma feição durante a validação
+ */
+export interface FeatureValidationIssue {
+  index: number; // Posição da feição no array features (ou do item importado)
+  id: string | null;
+  line?: number; // Linha no arquivo de origem, quando conhecida (CSV)
+  path: string; // Caminho do campo inválido (ex.: geometry.coordinates.1)
+  reason: string;
+}
+
+/**
+ * Resultado da validação de uma coleção, feição a feição
+ */
+export interface ValidationReport {
+  source: string;
+  total: number;
+  valid: number;
+  issues: FeatureValidationIssue[];
+}
+
+// Only the envelope is checked strictly, features are validated one by one
+const featureCollectionEnvelopeSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(z.unknown()),
+});
+
+/**
+ * Reads the id of a raw feature, falling back to properties.id
+ */
+function getRawFeatureId(feature: unknown): string | null {
+  if (!feature || typeof feature !== 'object') return null;
+  const { id, properties } = feature as {
+    id?: unknown;
+    properties?: { id?: unknown } | null;
+  };
+  const rawId = id ?? properties?.id;
+  return typeof rawId === 'string' || typeof rawId === 'number'
+    ? String(rawId)
+    : null;
+}
+
+/**
+ * Builds an id for a feature without one, distinct from every id in the file
+ */
+function generateFeatureId(index: number, taken: Set<string>): string {
+  let id = `feicao-${index + 1}`;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `feicao-${index + 1}-${suffix}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Formats a zod issue path as a dotted string
+ */
+const formatIssuePath = (path: (string | number)[]): string =>
+  path.length ? path.join('.') : '(feição)';
+
+/**
+ * Validates a parsed GeoJSON document feature by feature
+ * Invalid features are skipped and reported, the envelope must be a
+ * FeatureCollection or an Error is thrown
+ */
+export function validateMarkersCollection(
+  data: unknown,
+  source: string,
+): { collection: MarkersCollection; report: ValidationReport } {
+  const envelope = featureCollectionEnvelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new Error(`${source} não é uma FeatureCollection GeoJSON válida`);
+  }
+
+  const features: Marker[] = [];
+  const issues: FeatureValidationIssue[] = [];
+  const ids = envelope.data.features.map(getRawFeatureId);
+  // Posição da primeira feição válida com cada id
+  const seen = new Map<string, number>();
+  const explicitIds = new Set(ids.filter((id): id is string => id !== null));
+
+  envelope.data.features.forEach((feature, index) => {
+    const id = ids[index];
+    // GeoJSON ids are optional, features without one get a generated id
+    // that cannot collide with the ids present in the file
+    const candidate =
+      feature && typeof feature === 'object'
+        ? { ...feature, id: id ?? generateFeatureId(index, explicitIds) }
+        : feature;
+
+    const result = markerSchema.safeParse(candidate);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        issues.push({
+          index,
+          id,
+          path: formatIssuePath(issue.path),
+          reason: issue.message,
+        });
+      });
+      return;
+    }
+
+    // Seleção, navegação e geofences usam o id: duplicatas são ignoradas
+    const first = seen.get(result.data.id);
+    if (first !== undefined) {
+      issues.push({
+        index,
+        id,
+        path: 'id',
+        reason: `Id duplicado, já usado pela feição ${first}`,
+      });
+      return;
+    }
+
+    seen.set(result.data.id, index);
+    features.push(result.data);
+  });
+
+  if (issues.length) {
+    console.warn(
+      `${source}: ${envelope.data.features.length - features.length} feature(s) skipped`,
+      issues,
+    );
+  }
+
+  return {
+    collection: { type: 'FeatureCollection', features },
+    report: {
+      source,
+      total: envelope.data.features.length,
+      valid: features.length,
+      issues,
+    },
+  };
+}
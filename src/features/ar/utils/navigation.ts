@@ -0,0 +1,70 @@
+// Path: features\ar\utils\navigation.ts
+
+// [longitude, latitude, altitude]
+type Position = [number, number, number];
+
+/**
+ * Modo de navegação até o destino
+ * - straight: linha reta até o marcador
+ * - network: rota sobre a rede de caminhos carregada
+ */
+export type NavigationMode = 'straight' | 'network';
+
+/**
+ * Destino da navegação, mantido entre sessões
+ * A posição é a do marcador ao iniciar, usada enquanto os marcadores não
+ * estão carregados
+ */
+export interface NavigationTarget {
+  markerId: string;
+  name: string;
+  position: Position;
+  startedAt: number; // Date.now
+  arrivedAt: number | null;
+}
+
+// Raios de chegada disponíveis (metros)
+export const ARRIVAL_RADII = [5, 10, 20, 50];
+export const DEFAULT_ARRIVAL_RADIUS = 10;
+// Velocidade de caminhada usada na estimativa de chegada (m/s)
+export const WALKING_SPEED = 1.4;
+// Pontos da rota mais próximos que isso são considerados alcançados (metros)
+export const WAYPOINT_RADIUS = 8;
+// Afastamento da rota a partir do qual ela é recalculada (metros)
+export const OFF_ROUTE_DISTANCE = 20;
+// Evento disparado na window ao chegar ao destino
+export const NAVIGATION_ARRIVAL_EVENT = 'ar-navigation-arrival';
+
+/**
+ * Remaining walking time in seconds
+ * Uses the measured speed while the user is walking at a plausible pace,
+ * otherwise the typical walking speed
+ */
+export function estimateTimeRemaining(
+  distance: number,
+  speed: number | null,
+): number {
+  const pace =
+    speed !== null && speed >= 0.5 && speed <= 3 ? speed : WALKING_SPEED;
+  return distance / pace;
+}
+
+/**
+ * Short duration description ("45 s", "12 min", "1 h 05 min")
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+/**
+ * Turn instruction for a bearing relative to the current heading
+ */
+export function describeTurn(relativeBearing: number): string {
+  const angle = Math.round(Math.abs(relativeBearing));
+  if (angle <= 15) return 'Siga em frente';
+  if (angle >= 150) return 'Volte';
+  return `Vire ${angle}° à ${relativeBearing < 0 ? 'esquerda' : 'direita'}`;
+}
@@ -0,0 +1,93 @@
+// Path: features\ar\utils\offscreenIndicators.ts
+import { projectMarkerToScreen } from './arjsUtils';
+
+/**
+ * Seta na borda da tela apontando para um marcador fora do campo de visão
+ */
+export interface OffscreenIndicator {
+  // Posição da seta na tela (pixels)
+  x: number;
+  y: number;
+  // Rotação da seta (graus, 0 = para cima, sentido horário)
+  rotation: number;
+  // Giro necessário até o marcador (graus, positivo para a direita)
+  turnAngle: number;
+  // Marcador acima ou abaixo da área visível
+  vertical: 'up' | 'down' | null;
+}
+
+interface OffscreenIndicatorInput {
+  relativeBearing: number; // graus, -180..180
+  verticalAngle: number;
+  pitch: number;
+  roll: number;
+  horizontalFieldOfView: number;
+  verticalFieldOfView: number;
+  width: number;
+  height: number;
+  // Distância da seta até a borda da tela (pixels)
+  margin: number;
+}
+
+/**
+ * Edge-of-screen arrow for a marker outside the visible area, or null when
+ * the marker is on screen
+ * The arrow direction follows the angular offset (turn left/right, tilt
+ * up/down), so markers behind the user point to the shortest turn
+ */
+export function getOffscreenIndicator({
+  relativeBearing,
+  verticalAngle,
+  pitch,
+  roll,
+  horizontalFieldOfView,
+  verticalFieldOfView,
+  width,
+  height,
+  margin,
+}: OffscreenIndicatorInput): OffscreenIndicator | null {
+  const projected = projectMarkerToScreen({
+    relativeBearing,
+    verticalAngle,
+    pitch,
+    roll,
+    horizontalFieldOfView,
+    width,
+    height,
+  });
+  if (
+    projected &&
+    projected.x >= 0 &&
+    projected.x <= 1 &&
+    projected.y >= 0 &&
+    projected.y <= 1
+  ) {
+    return null;
+  }
+
+  // Deslocamento angular em unidades de meia tela
+  const verticalOffset = verticalAngle - pitch;
+  const dx = (relativeBearing / (horizontalFieldOfView / 2)) * (width / 2);
+  const dy = -(verticalOffset / (verticalFieldOfView / 2)) * (height / 2);
+
+  // Prolonga a direção a partir do centro até a borda (com margem)
+  const halfWidth = width / 2 - margin;
+  const halfHeight = height / 2 - margin;
+  const scale = Math.min(
+    dx !== 0 ? halfWidth / Math.abs(dx) : Infinity,
+    dy !== 0 ? halfHeight / Math.abs(dy) : Infinity,
+  );
+
+  return {
+    x: width / 2 + dx * scale,
+    y: height / 2 + dy * scale,
+    rotation: (Math.atan2(dx, -dy) * 180) / Math.PI,
+    turnAngle: relativeBearing,
+    vertical:
+      verticalOffset > verticalFieldOfView / 2
+        ? 'up'
+        : verticalOffset < -verticalFieldOfView / 2
+          ? 'down'
+          : null,
+  };
+}
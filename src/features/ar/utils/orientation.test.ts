@@ -0,0 +1,173 @@
+// Path: features\ar\utils\orientation.test.ts
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_HEADING_FILTER_CONFIG,
+  HeadingFilterConfig,
+  OrientationEstimate,
+  SensorSample,
+  angleDifference,
+  createOrientationFilter,
+  getCameraHeading,
+  getOrientationEstimate,
+  updateOrientationFilter,
+} from './orientation';
+import { parseSensorSession } from './sensorSession';
+
+// Sessões de sensores gravadas no formato do sensorSession (ver __fixtures__)
+const loadFixture = (name: string) =>
+  parseSensorSession(
+    readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf-8'),
+    name,
+  );
+
+/**
+ * Replays a session through the filter, returning the estimate after every
+ * sample with the session time (ms from the first sample)
+ */
+function replay(
+  name: string,
+  config: HeadingFilterConfig = DEFAULT_HEADING_FILTER_CONFIG,
+) {
+  const session = loadFixture(name);
+  const start = session.samples[0].timestamp;
+  const estimates: Array<{
+    time: number;
+    sample: SensorSample;
+    estimate: OrientationEstimate;
+  }> = [];
+  let state = createOrientationFilter();
+
+  for (const sample of session.samples) {
+    if (sample.type === 'position') continue;
+    state = updateOrientationFilter(state, sample, config);
+    estimates.push({
+      time: sample.timestamp - start,
+      sample,
+      estimate: getOrientationEstimate(state),
+    });
+  }
+  return estimates;
+}
+
+const headingError = (estimate: OrientationEstimate, expected: number) =>
+  Math.abs(angleDifference(expected, estimate.heading ?? NaN));
+
+// Direção medida pela bússola em uma leitura absoluta
+const compassHeading = (sample: SensorSample) =>
+  sample.type === 'orientation' && sample.absolute
+    ? getCameraHeading(sample.alpha ?? 0, sample.beta ?? 0, sample.gamma ?? 0)
+    : null;
+
+const maxHeadingError = (
+  estimates: ReturnType<typeof replay>,
+  expected: number,
+) =>
+  Math.max(
+    ...estimates.map(({ estimate }) => headingError(estimate, expected)),
+  );
+
+const between = (
+  estimates: ReturnType<typeof replay>,
+  from: number,
+  to: number,
+) => estimates.filter(({ time }) => time >= from && time < to);
+
+describe('updateOrientationFilter replay', () => {
+  it('follows a fast turn with the gyroscope ahead of the lagging compass', () => {
+    // 0° -> 90° a 180°/s entre 2,0 e 2,5 s; a bússola atrasa ~0,4 s
+    const estimates = replay('fast-turn.json');
+    const truth = (time: number) =>
+      time < 2000 ? 0 : time < 2500 ? (time - 2000) * 0.18 : 90;
+
+    // No fim do giro o giroscópio mantém o filtro bem à frente da bússola
+    const turnEnd = between(estimates, 2300, 2700).filter(
+      ({ sample }) => compassHeading(sample) !== null,
+    );
+    expect(turnEnd.length).toBeGreaterThan(0);
+    for (const { time, sample, estimate } of turnEnd) {
+      const compassError = Math.abs(
+        angleDifference(truth(time), compassHeading(sample)!),
+      );
+      expect(headingError(estimate, truth(time))).toBeLessThan(
+        compassError / 2,
+      );
+    }
+
+    for (const { estimate } of between(estimates, 6000, Infinity)) {
+      expect(headingError(estimate, 90)).toBeLessThan(4);
+    }
+  });
+
+  it('down-weights a magnetic disturbance and flags it', () => {
+    // Parado em 45°; a bússola marca 95° entre 2,0 e 3,0 s
+    const estimates = replay('magnetic-disturbance.json');
+
+    for (const { estimate } of between(estimates, 1000, 2000)) {
+      expect(headingError(estimate, 45)).toBeLessThan(3);
+      expect(estimate.magneticDisturbance).toBe(false);
+    }
+
+    // Desvia menos da metade dos 50° e menos que sem a redução de peso
+    const disturbed = between(estimates, 2000, 3000);
+    const ungated = between(
+      replay('magnetic-disturbance.json', {
+        ...DEFAULT_HEADING_FILTER_CONFIG,
+        disturbanceGate: Infinity,
+      }),
+      2000,
+      3000,
+    );
+    expect(maxHeadingError(disturbed, 45)).toBeLessThan(25);
+    expect(maxHeadingError(disturbed, 45)).toBeLessThan(
+      0.9 * maxHeadingError(ungated, 45),
+    );
+    expect(disturbed.some(({ estimate }) => estimate.magneticDisturbance)).toBe(
+      true,
+    );
+
+    for (const { estimate } of between(estimates, 6000, Infinity)) {
+      expect(headingError(estimate, 45)).toBeLessThan(4);
+      expect(estimate.magneticDisturbance).toBe(false);
+    }
+  });
+
+  it('switches from the relative alpha to the absolute heading', () => {
+    // Apenas alpha relativo (260°) até 1,0 s; depois também o absoluto (30°)
+    const estimates = replay('relative-to-absolute.json');
+
+    for (const { estimate } of between(estimates, 100, 1000)) {
+      expect(estimate.headingSource).toBe('relative');
+      expect(estimate.headingConfidence).toBeLessThanOrEqual(0.2);
+    }
+
+    // A troca de referência reinicia a direção, sem convergir aos poucos
+    const switched = between(estimates, 1000, 1100).filter(
+      ({ estimate }) => estimate.headingSource === 'absolute',
+    );
+    expect(switched.length).toBeGreaterThan(0);
+    expect(headingError(switched[0].estimate, 30)).toBeLessThan(8);
+
+    // O alpha relativo intercalado é ignorado enquanto há leitura absoluta
+    for (const { estimate } of between(estimates, 1100, Infinity)) {
+      expect(estimate.headingSource).toBe('absolute');
+      expect(headingError(estimate, 30)).toBeLessThan(5);
+      expect(estimate.headingConfidence).toBeGreaterThan(0.2);
+    }
+  });
+
+  it('turns through north without sweeping across the compass rose', () => {
+    // 350° -> 10° a 40°/s entre 1,0 e 1,5 s
+    const estimates = replay('wraparound.json');
+
+    for (const { estimate } of between(estimates, 200, Infinity)) {
+      expect(estimate.heading).toBeGreaterThanOrEqual(0);
+      expect(estimate.heading).toBeLessThan(360);
+      expect(headingError(estimate, 0)).toBeLessThan(15);
+    }
+
+    for (const { estimate } of between(estimates, 2500, Infinity)) {
+      expect(headingError(estimate, 10)).toBeLessThan(3);
+    }
+  });
+});
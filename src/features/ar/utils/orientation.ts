@@ -0,0 +1,532 @@
+// Path: features\ar\utils\orientation.ts
+
+/**
+ * Vetor no referencial do dispositivo (x: direita, y: topo, z: para fora da tela)
+ */
+export type Vector3 = [number, number, number];
+
+/**
+ * Origem da leitura de direção usada pelo filtro
+ * - webkit: webkitCompassHeading (iOS)
+ * - absolute: deviceorientationabsolute ou deviceorientation com absolute = true
+ * - relative: alpha sem referência ao norte (apenas giroscópio do sistema)
+ */
+export type HeadingSource = 'webkit' | 'absolute' | 'relative';
+
+/**
+ * Leitura de um evento deviceorientation / deviceorientationabsolute
+ */
+export interface OrientationSample {
+  type: 'orientation';
+  timestamp: number; // ms
+  alpha: number | null;
+  beta: number | null;
+  gamma: number | null;
+  absolute: boolean;
+  webkitCompassHeading?: number | null;
+  webkitCompassAccuracy?: number | null;
+}
+
+/**
+ * Leitura de um evento devicemotion
+ */
+export interface MotionSample {
+  type: 'motion';
+  timestamp: number; // ms
+  // Velocidade angular em graus/s em torno dos eixos z (alpha), x (beta) e y (gamma)
+  rotationRate: { alpha: number; beta: number; gamma: number } | null;
+  // Aceleração incluindo a gravidade em m/s²
+  gravity: Vector3 | null;
+}
+
+export type SensorSample = OrientationSample | MotionSample;
+
+/**
+ * Estado do filtro de Kalman unidimensional da direção
+ */
+export interface HeadingFilterState {
+  heading: number | null; // graus, sentido horário a partir do norte
+  variance: number; // graus²
+  timestamp: number | null; // ms da última atualização
+  // Média móvel das leituras fora do esperado (0..1), indica interferência
+  disturbance: number;
+}
+
+export interface HeadingFilterConfig {
+  // Ruído de processo com giroscópio (graus²/s)
+  gyroNoise: number;
+  // Ruído de processo sem giroscópio, permite acompanhar giros rápidos (graus²/s)
+  driftNoise: number;
+  // Variância padrão da bússola quando o navegador não informa a precisão (graus²)
+  compassNoise: number;
+  // Inovações acima de N desvios são tratadas como interferência magnética
+  disturbanceGate: number;
+  // Peso das novas leituras de gravidade no filtro passa-baixa (0..1)
+  gravityWeight: number;
+  // Tempo sem leitura absoluta antes de aceitar o alpha relativo (ms)
+  relativeFallbackDelay: number;
+}
+
+export const DEFAULT_HEADING_FILTER_CONFIG: HeadingFilterConfig = {
+  gyroNoise: 4,
+  driftNoise: 900,
+  compassNoise: 100,
+  disturbanceGate: 3,
+  gravityWeight: 0.2,
+  relativeFallbackDelay: 2000,
+};
+
+/**
+ * Estado completo da fusão de sensores
+ */
+export interface OrientationFilterState {
+  heading: HeadingFilterState;
+  upVector: Vector3 | null;
+  upVectorSource: 'orientation' | 'motion' | null;
+  upVectorTimestamp: number | null;
+  headingSource: HeadingSource | null;
+  // Precisão informada pelo navegador (graus), -1 quando não calibrada
+  compassAccuracy: number | null;
+  lastAbsoluteTimestamp: number | null;
+  lastGyroTimestamp: number | null;
+}
+
+/**
+ * Resultado publicado para a interface
+ */
+export interface OrientationEstimate {
+  heading: number | null;
+  pitch: number | null;
+  roll: number | null; // do aparelho, sem compensar a rotação da tela
+  headingConfidence: number;
+  headingSource: HeadingSource | null;
+  compassAccuracy: number | null;
+  magneticDisturbance: boolean;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Normalizes an angle to 0..360
+ */
+export function normalizeAngle(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Shortest signed difference from `from` to `to`, in -180..180
+ */
+export function angleDifference(from: number, to: number): number {
+  return normalizeAngle(to - from + 180) - 180;
+}
+
+/**
+ * Heading of the rear camera (device -z axis) from the W3C Euler angles
+ * Falls back to the top edge of the device when the camera points
+ * straight up or down and its horizontal projection vanishes
+ */
+export function getCameraHeading(
+  alpha: number,
+  beta: number,
+  gamma: number,
+): number {
+  const a = toRadians(alpha);
+  const b = toRadians(beta);
+  const g = toRadians(gamma);
+
+  // Eixo -z do dispositivo no referencial do mundo (x: leste, y: norte)
+  const east =
+    -Math.cos(a) * Math.sin(g) - Math.sin(a) * Math.sin(b) * Math.cos(g);
+  const north =
+    -Math.sin(a) * Math.sin(g) + Math.cos(a) * Math.sin(b) * Math.cos(g);
+
+  if (Math.hypot(east, north) < 0.1) {
+    // Eixo y (topo do aparelho) quando a câmera está na vertical
+    return normalizeAngle(
+      toDegrees(
+        Math.atan2(-Math.sin(a) * Math.cos(b), Math.cos(a) * Math.cos(b)),
+      ),
+    );
+  }
+
+  return normalizeAngle(toDegrees(Math.atan2(east, north)));
+}
+
+/**
+ * World "up" direction in device coordinates from the beta/gamma angles
+ */
+export function getUpVectorFromEuler(beta: number, gamma: number): Vector3 {
+  const b = toRadians(beta);
+  const g = toRadians(gamma);
+  return [-Math.cos(b) * Math.sin(g), Math.sin(b), Math.cos(b) * Math.cos(g)];
+}
+
+/**
+ * Normalizes a vector, returning null for a zero-length input
+ */
+export function normalizeVector([x, y, z]: Vector3): Vector3 | null {
+  const length = Math.hypot(x, y, z);
+  return length > 1e-6 ? [x / length, y / length, z / length] : null;
+}
+
+/**
+ * Low-pass blend of two unit vectors
+ */
+export function blendVectors(
+  previous: Vector3,
+  next: Vector3,
+  weight: number,
+): Vector3 {
+  return (
+    normalizeVector([
+      previous[0] + (next[0] - previous[0]) * weight,
+      previous[1] + (next[1] - previous[1]) * weight,
+      previous[2] + (next[2] - previous[2]) * weight,
+    ]) ?? next
+  );
+}
+
+/**
+ * Camera pitch and device roll from the world "up" vector
+ * - pitch: elevation of the rear camera axis above the horizon (-90..90)
+ * - roll: clockwise rotation of the device from its natural orientation
+ *   (see getScreenRoll for the rotation of the displayed content)
+ */
+export function getTiltFromUpVector(up: Vector3): {
+  pitch: number;
+  roll: number;
+} {
+  const pitch = toDegrees(Math.asin(Math.max(-1, Math.min(1, -up[2]))));
+  const roll = angleDifference(0, toDegrees(Math.atan2(-up[0], up[1])));
+  return { pitch, roll };
+}
+
+/**
+ * Clockwise rotation of the screen content relative to the horizon: the
+ * device roll compensated by the screen angle (0, 90, 180 or 270 when the
+ * interface follows the device into landscape)
+ */
+export function getScreenRoll(roll: number, screenAngle: number): number {
+  return angleDifference(0, roll - screenAngle);
+}
+
+/**
+ * Rate of change of the heading (degrees/s, clockwise) from the gyroscope,
+ * projecting the device rotation rate onto the world vertical axis
+ */
+export function getHeadingRate(
+  rotationRate: MotionSample['rotationRate'],
+  up: Vector3,
+): number | null {
+  if (!rotationRate) return null;
+  // rotationRate.beta gira em torno de x, gamma em torno de y e alpha em torno de z
+  const verticalRate =
+    rotationRate.beta * up[0] +
+    rotationRate.gamma * up[1] +
+    rotationRate.alpha * up[2];
+  // Rotação anti-horária em torno do eixo vertical diminui a direção
+  return -verticalRate;
+}
+
+export function createHeadingFilter(): HeadingFilterState {
+  return {
+    heading: null,
+    variance: 180 * 180,
+    timestamp: null,
+    disturbance: 0,
+  };
+}
+
+/**
+ * Kalman prediction step: integrates the gyroscope heading rate, or only
+ * grows the uncertainty when no rate is available
+ */
+export function predictHeading(
+  state: HeadingFilterState,
+  rate: number | null,
+  timestamp: number,
+  config: HeadingFilterConfig = DEFAULT_HEADING_FILTER_CONFIG,
+): HeadingFilterState {
+  if (state.heading === null || state.timestamp === null) {
+    return { ...state, timestamp };
+  }
+
+  // Ignora intervalos inválidos ou longos demais (aba em segundo plano)
+  const dt = (timestamp - state.timestamp) / 1000;
+  if (dt <= 0 || dt > 1) return { ...state, timestamp };
+
+  return {
+    ...state,
+    heading:
+      rate === null ? state.heading : normalizeAngle(state.heading + rate * dt),
+    variance:
+      state.variance +
+      (rate === null ? config.driftNoise : config.gyroNoise) * dt,
+    timestamp,
+  };
+}
+
+/**
+ * Kalman correction step with a compass reading
+ * Readings far outside the expected spread (magnetic disturbance) are
+ * down-weighted instead of discarded, so a real fast turn still converges
+ */
+export function correctHeading(
+  state: HeadingFilterState,
+  measurement: number,
+  accuracy: number | null,
+  timestamp: number,
+  config: HeadingFilterConfig = DEFAULT_HEADING_FILTER_CONFIG,
+): HeadingFilterState {
+  let measurementVariance =
+    accuracy !== null && accuracy >= 0
+      ? Math.max(accuracy * accuracy, 1)
+      : config.compassNoise;
+
+  if (state.heading === null) {
+    return {
+      ...state,
+      heading: normalizeAngle(measurement),
+      variance: measurementVariance,
+      timestamp,
+    };
+  }
+
+  const innovation = angleDifference(state.heading, measurement);
+  const spread = Math.sqrt(state.variance + measurementVariance);
+  const isDisturbed = Math.abs(innovation) > config.disturbanceGate * spread;
+  if (isDisturbed) {
+    measurementVariance *=
+      (innovation / (config.disturbanceGate * spread)) ** 2;
+  }
+
+  const gain = state.variance / (state.variance + measurementVariance);
+  return {
+    heading: normalizeAngle(state.heading + gain * innovation),
+    variance: (1 - gain) * state.variance,
+    timestamp,
+    disturbance: state.disturbance * 0.95 + (isDisturbed ? 0.05 : 0),
+  };
+}
+
+/**
+ * Maps the filter variance to a 0..1 confidence (0.5 at a 10° deviation)
+ * Headings without a north reference never exceed 0.2
+ */
+export function getHeadingConfidence(
+  variance: number,
+  source: HeadingSource | null,
+): number {
+  if (source === null) return 0;
+  const confidence = 1 / (1 + variance / 100);
+  return source === 'relative' ? Math.min(confidence, 0.2) : confidence;
+}
+
+export function createOrientationFilter(): OrientationFilterState {
+  return {
+    heading: createHeadingFilter(),
+    upVector: null,
+    upVectorSource: null,
+    upVectorTimestamp: null,
+    headingSource: null,
+    compassAccuracy: null,
+    lastAbsoluteTimestamp: null,
+    lastGyroTimestamp: null,
+  };
+}
+
+/**
+ * Extracts the compass reading of an orientation sample, if usable
+ */
+function getHeadingMeasurement(
+  state: OrientationFilterState,
+  sample: OrientationSample,
+  config: HeadingFilterConfig,
+): { heading: number; accuracy: number | null; source: HeadingSource } | null {
+  const { alpha, beta, gamma } = sample;
+
+  if (
+    sample.webkitCompassHeading !== undefined &&
+    sample.webkitCompassHeading !== null &&
+    sample.webkitCompassHeading >= 0
+  ) {
+    const accuracy = sample.webkitCompassAccuracy ?? null;
+    return {
+      heading: sample.webkitCompassHeading,
+      // -1 indica bússola não calibrada
+      accuracy: accuracy !== null && accuracy < 0 ? 45 : accuracy,
+      source: 'webkit',
+    };
+  }
+
+  if (alpha === null || beta === null || gamma === null) return null;
+
+  if (sample.absolute) {
+    return {
+      heading: getCameraHeading(alpha, beta, gamma),
+      accuracy: null,
+      source: 'absolute',
+    };
+  }
+
+  // O alpha relativo só é usado se não houver leitura absoluta recente
+  const hasRecentAbsolute =
+    state.lastAbsoluteTimestamp !== null &&
+    sample.timestamp - state.lastAbsoluteTimestamp <
+      config.relativeFallbackDelay;
+  if (hasRecentAbsolute) return null;
+
+  return {
+    heading: getCameraHeading(alpha, beta, gamma),
+    accuracy: null,
+    source: 'relative',
+  };
+}
+
+/**
+ * Feeds one sensor sample into the fusion filter
+ * Pure reducer, so recorded sample streams can be replayed deterministically
+ */
+export function updateOrientationFilter(
+  state: OrientationFilterState,
+  sample: SensorSample,
+  config: HeadingFilterConfig = DEFAULT_HEADING_FILTER_CONFIG,
+): OrientationFilterState {
+  if (sample.type === 'motion') {
+    let { upVector, upVectorSource, upVectorTimestamp } = state;
+
+    // A gravidade do devicemotion só é usada quando o sistema não fornece
+    // beta/gamma recentes (que já são fundidos pelo próprio sistema)
+    const gravity = sample.gravity && normalizeVector(sample.gravity);
+    const orientationIsStale =
+      upVectorSource !== 'orientation' ||
+      upVectorTimestamp === null ||
+      sample.timestamp - upVectorTimestamp > 500;
+    if (gravity && orientationIsStale) {
+      upVector = upVector
+        ? blendVectors(upVector, gravity, config.gravityWeight)
+        : gravity;
+      upVectorSource = 'motion';
+      upVectorTimestamp = sample.timestamp;
+    }
+
+    const rate = upVector
+      ? getHeadingRate(sample.rotationRate, upVector)
+      : null;
+    return {
+      ...state,
+      upVector,
+      upVectorSource,
+      upVectorTimestamp,
+      heading:
+        rate === null
+          ? state.heading
+          : predictHeading(state.heading, rate, sample.timestamp, config),
+      lastGyroTimestamp:
+        rate === null ? state.lastGyroTimestamp : sample.timestamp,
+    };
+  }
+
+  let next = state;
+
+  if (sample.beta !== null && sample.gamma !== null) {
+    const up = getUpVectorFromEuler(sample.beta, sample.gamma);
+    next = {
+      ...next,
+      upVector: next.upVector ? blendVectors(next.upVector, up, 0.5) : up,
+      upVectorSource: 'orientation',
+      upVectorTimestamp: sample.timestamp,
+    };
+  }
+
+  const measurement = getHeadingMeasurement(next, sample, config);
+  if (!measurement) return next;
+
+  // Com giroscópio ativo, a predição já foi feita pelos eventos devicemotion;
+  // sem ele, a incerteza cresce com o tempo entre leituras
+  const hasGyro =
+    next.lastGyroTimestamp !== null &&
+    sample.timestamp - next.lastGyroTimestamp < 200;
+  // Troca de referência (ex.: relativo -> absoluto) reinicia a direção
+  const headingFilter =
+    next.headingSource !== null && next.headingSource !== measurement.source
+      ? createHeadingFilter()
+      : hasGyro
+        ? next.heading
+        : predictHeading(next.heading, null, sample.timestamp, config);
+
+  return {
+    ...next,
+    heading: correctHeading(
+      headingFilter,
+      measurement.heading,
+      measurement.accuracy,
+      sample.timestamp,
+      config,
+    ),
+    headingSource: measurement.source,
+    compassAccuracy: sample.webkitCompassAccuracy ?? null,
+    lastAbsoluteTimestamp:
+      measurement.source === 'relative'
+        ? next.lastAbsoluteTimestamp
+        : sample.timestamp,
+  };
+}
+
+/**
+ * Heading, pitch, roll and confidence from the filter state
+ */
+export function getOrientationEstimate(
+  state: OrientationFilterState,
+): OrientationEstimate {
+  const tilt = state.upVector ? getTiltFromUpVector(state.upVector) : null;
+
+  return {
+    heading: state.heading.heading,
+    pitch: tilt?.pitch ?? null,
+    roll: tilt?.roll ?? null,
+    headingConfidence: getHeadingConfidence(
+      state.heading.variance,
+      state.headingSource,
+    ),
+    headingSource: state.headingSource,
+    compassAccuracy: state.compassAccuracy,
+    magneticDisturbance: state.heading.disturbance > 0.3,
+  };
+}
+
+/**
+ * Whether an estimate differs enough from the published one to update the UI
+ */
+export function hasOrientationChanged(
+  previous: OrientationEstimate | null,
+  next: OrientationEstimate,
+): boolean {
+  if (!previous) return true;
+  if (
+    previous.headingSource !== next.headingSource ||
+    previous.compassAccuracy !== next.compassAccuracy ||
+    previous.magneticDisturbance !== next.magneticDisturbance
+  ) {
+    return true;
+  }
+
+  const changed = (
+    a: number | null,
+    b: number | null,
+    threshold: number,
+    circular = false,
+  ) => {
+    if (a === null || b === null) return a !== b;
+    const diff = circular ? angleDifference(a, b) : b - a;
+    return Math.abs(diff) >= threshold;
+  };
+
+  return (
+    changed(previous.heading, next.heading, 0.2, true) ||
+    changed(previous.pitch, next.pitch, 0.5) ||
+    changed(previous.roll, next.roll, 0.5) ||
+    changed(previous.headingConfidence, next.headingConfidence, 0.05)
+  );
+}
@@ -0,0 +1,91 @@
+// Path: features\ar\utils\pathNetwork.test.ts
+import { describe, expect, it } from 'vitest';
+import { Marker } from '../schemas/markerSchema';
+import { calculateDistance } from './arjsUtils';
+import {
+  buildPathNetwork,
+  findRoute,
+  getNextWaypoint,
+  getRouteProgress,
+} from './pathNetwork';
+
+type Position = [number, number, number];
+
+const line = (id: string, coordinates: Position[]): Marker =>
+  ({
+    id,
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates },
+    properties: { name: id, category: 'default' },
+  }) as Marker;
+
+// Trilha em L: ~220 m para o norte de A até B, depois ~100 m para leste até C
+const A: Position = [-43.2, -22.9, 0];
+const B: Position = [-43.2, -22.898, 0];
+const C: Position = [-43.199, -22.898, 0];
+const network = buildPathNetwork('trilha', [
+  line('ab', [A, B]),
+  line('bc', [B, C]),
+]);
+
+const along = (from: Position, to: Position, t: number): Position => [
+  from[0] + (to[0] - from[0]) * t,
+  from[1] + (to[1] - from[1]) * t,
+  0,
+];
+const distance = (a: Position, b: Position) =>
+  calculateDistance(a[1], a[0], b[1], b[0]);
+
+describe('findRoute', () => {
+  it('joins the network at the nearest point of an edge, not the nearest node', () => {
+    // A 30% do trecho A-B, A é o nó mais próximo, mas já ficou para trás
+    const user = along(A, B, 0.3);
+    const route = findRoute(network, user, C)!;
+
+    expect(route.path).not.toContainEqual(A);
+    expect(route.distance).toBeCloseTo(distance(user, B) + distance(B, C), 0);
+    expect(getNextWaypoint(route, user, 8)).toEqual(B);
+  });
+
+  it('routes along a single edge when both ends are on it', () => {
+    const user = along(A, B, 0.2);
+    const target = along(A, B, 0.7);
+    const route = findRoute(network, user, target)!;
+
+    expect(route.path).not.toContainEqual(A);
+    expect(route.path).not.toContainEqual(B);
+    expect(route.distance).toBeCloseTo(distance(user, target), 0);
+  });
+
+  it('returns null for a network without edges', () => {
+    expect(findRoute(buildPathNetwork('vazia', []), A, C)).toBeNull();
+  });
+});
+
+describe('getRouteProgress', () => {
+  it('moves forward along the route as the user walks', () => {
+    const route = findRoute(network, A, C)!;
+
+    const halfway = getRouteProgress(route, along(A, B, 0.6));
+    expect(getNextWaypoint(halfway.remaining, along(A, B, 0.6), 8)).toEqual(B);
+    expect(halfway.remaining.distance).toBeCloseTo(
+      distance(along(A, B, 0.6), B) + distance(B, C),
+      0,
+    );
+
+    const past = getRouteProgress(route, along(B, C, 0.3), halfway.index);
+    expect(past.index).toBeGreaterThan(halfway.index);
+    expect(getNextWaypoint(past.remaining, along(B, C, 0.3), 8)).toEqual(C);
+    expect(past.distanceFromRoute).toBeLessThan(1);
+  });
+
+  it('does not return to segments already passed', () => {
+    const route = findRoute(network, A, C)!;
+    const past = getRouteProgress(route, along(B, C, 0.5));
+
+    // De volta perto de A: continua no trecho B-C, longe da rota
+    const back = getRouteProgress(route, along(A, B, 0.1), past.index);
+    expect(back.index).toBe(past.index);
+    expect(back.distanceFromRoute).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,344 @@
+// Path: features\ar\utils\pathNetwork.ts
+import { Marker } from '../schemas/markerSchema';
+import { calculateDistance, toLocalOffset } from './arjsUtils';
+
+// [longitude, latitude, altitude]
+type Position = [number, number, number];
+
+/**
+ * Grafo de caminhos (trilhas, calçadas) montado a partir de linhas
+ * Vértices com as mesmas coordenadas (~10 cm) são unidos em um nó
+ */
+export interface PathNetwork {
+  name: string;
+  nodes: Position[];
+  adjacency: Array<Array<{ node: number; length: number }>>;
+  edgeCount: number;
+}
+
+/**
+ * Rota sobre a rede, da posição do usuário até o destino
+ */
+export interface Route {
+  path: Position[];
+  distance: number; // metros
+}
+
+// Precisão usada para unir vértices de linhas diferentes (~10 cm)
+const NODE_KEY_DECIMALS = 6;
+
+const nodeKey = (position: Position) =>
+  `${position[0].toFixed(NODE_KEY_DECIMALS)},${position[1].toFixed(NODE_KEY_DECIMALS)}`;
+
+const distanceBetween = (a: Position, b: Position) =>
+  calculateDistance(a[1], a[0], b[1], b[0]);
+
+/**
+ * Builds the path graph from the LineString features of a collection
+ * Other geometries are ignored
+ */
+export function buildPathNetwork(
+  name: string,
+  features: Marker[],
+): PathNetwork {
+  const nodes: Position[] = [];
+  const adjacency: PathNetwork['adjacency'] = [];
+  const indexByKey = new Map<string, number>();
+  let edgeCount = 0;
+
+  const getNode = (position: Position) => {
+    const key = nodeKey(position);
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = nodes.length;
+      indexByKey.set(key, index);
+      nodes.push(position);
+      adjacency.push([]);
+    }
+    return index;
+  };
+
+  for (const feature of features) {
+    if (feature.geometry.type !== 'LineString') continue;
+    const { coordinates } = feature.geometry;
+    for (let i = 1; i < coordinates.length; i++) {
+      const from = getNode(coordinates[i - 1]);
+      const to = getNode(coordinates[i]);
+      if (from === to) continue;
+      const length = distanceBetween(nodes[from], nodes[to]);
+      adjacency[from].push({ node: to, length });
+      adjacency[to].push({ node: from, length });
+      edgeCount++;
+    }
+  }
+
+  return { name, nodes, adjacency, edgeCount };
+}
+
+/**
+ * Closest point of the segment a-b to a position (planar, in meters around
+ * the position), with its fraction along the segment and distance
+ */
+function projectOnSegment(
+  position: Position,
+  a: Position,
+  b: Position,
+): { point: Position; t: number; distance: number } {
+  const from = toLocalOffset(position, a);
+  const to = toLocalOffset(position, b);
+  const dx = to.east - from.east;
+  const dy = to.north - from.north;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, -(from.east * dx + from.north * dy) / lengthSq),
+        );
+  return {
+    point: [
+      a[0] + t * (b[0] - a[0]),
+      a[1] + t * (b[1] - a[1]),
+      a[2] + t * (b[2] - a[2]),
+    ],
+    t,
+    distance: Math.hypot(from.east + t * dx, from.north + t * dy),
+  };
+}
+
+// Ponto sobre uma aresta: extremidades, comprimento e fração da origem
+interface EdgePoint {
+  from: number;
+  to: number;
+  length: number;
+  t: number;
+  point: Position;
+}
+
+/**
+ * Point of the network closest to a position: the nearest point of the
+ * nearest edge, with the edge ends and its fraction along the edge
+ * Returns null when the network has no edges
+ */
+function findNearestEdgePoint(
+  network: PathNetwork,
+  position: Position,
+): EdgePoint | null {
+  let nearest: EdgePoint | null = null;
+  let nearestDistance = Infinity;
+  network.adjacency.forEach((edges, from) => {
+    for (const { node: to, length } of edges) {
+      // Cada aresta aparece nos dois sentidos
+      if (to < from) continue;
+      const projection = projectOnSegment(
+        position,
+        network.nodes[from],
+        network.nodes[to],
+      );
+      if (projection.distance < nearestDistance) {
+        nearestDistance = projection.distance;
+        nearest = {
+          from,
+          to,
+          length,
+          t: projection.t,
+          point: projection.point,
+        };
+      }
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Shortest walking route between two positions over the network (Dijkstra)
+ * Both ends join the network at the nearest point of the nearest edge,
+ * splitting that edge with a temporary node
+ * Returns null when the network has no edges or the ends are not connected
+ */
+export function findRoute(
+  network: PathNetwork,
+  from: Position,
+  to: Position,
+): Route | null {
+  const start = findNearestEdgePoint(network, from);
+  const end = findNearestEdgePoint(network, to);
+  if (!start || !end) return null;
+
+  // Nós temporários da entrada e da saída da rede, após os nós da rede
+  const startNode = network.nodes.length;
+  const endNode = startNode + 1;
+  const nodeCount = startNode + 2;
+  const extraEdges = new Map<number, Array<{ node: number; length: number }>>();
+  const link = (a: number, b: number, length: number) => {
+    extraEdges.set(a, [...(extraEdges.get(a) ?? []), { node: b, length }]);
+    extraEdges.set(b, [...(extraEdges.get(b) ?? []), { node: a, length }]);
+  };
+  for (const [node, split] of [
+    [startNode, start],
+    [endNode, end],
+  ] as const) {
+    link(node, split.from, split.t * split.length);
+    link(node, split.to, (1 - split.t) * split.length);
+  }
+  // Entrada e saída na mesma aresta: ligação direta entre elas
+  if (start.from === end.from && start.to === end.to) {
+    link(startNode, endNode, Math.abs(start.t - end.t) * start.length);
+  }
+  const neighbors = (node: number) => [
+    ...(network.adjacency[node] ?? []),
+    ...(extraEdges.get(node) ?? []),
+  ];
+  const positionOf = (node: number) =>
+    node === startNode
+      ? start.point
+      : node === endNode
+        ? end.point
+        : network.nodes[node];
+
+  const distances = new Float64Array(nodeCount).fill(Infinity);
+  const previous = new Int32Array(nodeCount).fill(-1);
+  const visited = new Uint8Array(nodeCount);
+  distances[startNode] = 0;
+
+  // Fila de prioridade (heap binário) de [distância, nó]
+  const heap: Array<[number, number]> = [[0, startNode]];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) {
+          smallest = left;
+        }
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length) {
+    const [distance, node] = pop();
+    if (visited[node]) continue;
+    visited[node] = 1;
+    if (node === endNode) break;
+
+    for (const edge of neighbors(node)) {
+      const candidate = distance + edge.length;
+      if (candidate < distances[edge.node]) {
+        distances[edge.node] = candidate;
+        previous[edge.node] = node;
+        push([candidate, edge.node]);
+      }
+    }
+  }
+
+  if (distances[endNode] === Infinity) return null;
+
+  const nodes: Position[] = [];
+  for (let node = endNode; node !== -1; node = previous[node]) {
+    nodes.unshift(positionOf(node));
+  }
+
+  const path = [from, ...nodes, to];
+  return {
+    path,
+    distance:
+      distanceBetween(from, start.point) +
+      distances[endNode] +
+      distanceBetween(end.point, to),
+  };
+}
+
+/**
+ * Posição do usuário ao longo de uma rota
+ */
+export interface RouteProgress {
+  // Segmento da rota (path[index] -> path[index + 1]) mais próximo do usuário
+  index: number;
+  // Distância do usuário até a rota (metros)
+  distanceFromRoute: number;
+  // Restante da rota, da posição do usuário até o destino
+  remaining: Route;
+}
+
+/**
+ * Where the user is along a route: the nearest segment at or after
+ * `fromIndex` (segments already passed are not considered, so the user
+ * never goes back to them) and the rest of the route from there
+ */
+export function getRouteProgress(
+  route: Route,
+  position: Position,
+  fromIndex = 0,
+): RouteProgress {
+  let index = Math.min(fromIndex, route.path.length - 2);
+  let nearest = projectOnSegment(
+    position,
+    route.path[index],
+    route.path[index + 1],
+  );
+  for (let i = index + 1; i < route.path.length - 1; i++) {
+    const projection = projectOnSegment(
+      position,
+      route.path[i],
+      route.path[i + 1],
+    );
+    if (projection.distance < nearest.distance) {
+      index = i;
+      nearest = projection;
+    }
+  }
+
+  const ahead = route.path.slice(index + 1);
+  let distance = nearest.distance + distanceBetween(nearest.point, ahead[0]);
+  for (let i = 1; i < ahead.length; i++) {
+    distance += distanceBetween(ahead[i - 1], ahead[i]);
+  }
+
+  return {
+    index,
+    distanceFromRoute: nearest.distance,
+    remaining: { path: [position, nearest.point, ...ahead], distance },
+  };
+}
+
+/**
+ * Next point of the route to walk towards: the first one farther than
+ * `reachedRadius` from the user
+ * `route` starts at the user (see RouteProgress.remaining), so points
+ * already passed are not in it
+ */
+export function getNextWaypoint(
+  route: Route,
+  position: Position,
+  reachedRadius: number,
+): Position {
+  return (
+    route.path
+      .slice(1)
+      .find(point => distanceBetween(point, position) > reachedRadius) ??
+    route.path[route.path.length - 1]
+  );
+}
@@ -0,0 +1,171 @@
+// Path: features\ar\utils\positionFilter.test.ts
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { PositionSample } from '../schemas/sensorSessionSchema';
+import { useARStore } from '../stores/arStore';
+import { calculateDistance } from './arjsUtils';
+import {
+  DEFAULT_POSITION_FILTER_CONFIG,
+  PositionEstimate,
+  PositionFilterState,
+  getPositionEstimate,
+  updatePositionFilter,
+} from './positionFilter';
+import { parseSensorSession } from './sensorSession';
+
+// Origem das sessões sintéticas (ver __fixtures__)
+const ORIGIN = { latitude: -22.9, longitude: -43.2 };
+
+const loadPositions = (name: string) =>
+  parseSensorSession(
+    readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf-8'),
+    name,
+  ).samples.filter(
+    (sample): sample is PositionSample => sample.type === 'position',
+  );
+
+/**
+ * Replays the position samples of a session through the filter, returning
+ * the state and estimate after every fix with the session time (ms from
+ * the first sample)
+ */
+function replay(name: string) {
+  const samples = loadPositions(name);
+  const start = samples[0].timestamp;
+  const steps: Array<{
+    time: number;
+    sample: PositionSample;
+    state: PositionFilterState;
+    estimate: PositionEstimate;
+  }> = [];
+  let state: PositionFilterState | null = null;
+
+  for (const sample of samples) {
+    state = updatePositionFilter(state, {
+      ...sample,
+      altitude: sample.altitude ?? 0,
+    });
+    steps.push({
+      time: sample.timestamp - start,
+      sample,
+      state,
+      estimate: getPositionEstimate(state),
+    });
+  }
+  return steps;
+}
+
+// Distância (metros) entre a estimativa e a posição real
+const errorFrom = (
+  estimate: { latitude: number; longitude: number },
+  truth: { latitude: number; longitude: number },
+) =>
+  calculateDistance(
+    estimate.latitude,
+    estimate.longitude,
+    truth.latitude,
+    truth.longitude,
+  );
+
+describe('updatePositionFilter replay', () => {
+  it('rejects a single impossible jump and keeps following the walk', () => {
+    // Para o norte a 1,4 m/s; em 15 s uma leitura salta 400 m para leste
+    const steps = replay('gps-jump.json');
+    const truth = (time: number) => ({
+      latitude: ORIGIN.latitude + (1.4 * time) / 1000 / 111320,
+      longitude: ORIGIN.longitude,
+    });
+
+    const jump = steps.findIndex(({ time }) => time === 15000);
+    expect(steps[jump].state.rejectedCount).toBe(1);
+    expect(steps[jump].estimate).toEqual(steps[jump - 1].estimate);
+    expect(steps[jump + 1].state.rejectedCount).toBe(0);
+
+    for (const { time, estimate } of steps.slice(5)) {
+      expect(errorFrom(estimate, truth(time))).toBeLessThan(6);
+    }
+    expect(steps.at(-1)!.estimate.speed).toBeCloseTo(1.4, 0);
+    expect(steps.at(-1)!.estimate.isStationary).toBe(false);
+  });
+
+  it('restarts at the new position after repeated jumps', () => {
+    const steps = replay('gps-jump.json');
+    let state: PositionFilterState | null = steps[10].state;
+    const far = { ...steps[10].sample, longitude: ORIGIN.longitude + 0.01 };
+
+    for (let i = 1; i <= DEFAULT_POSITION_FILTER_CONFIG.maxRejected; i++) {
+      state = updatePositionFilter(state, {
+        ...far,
+        altitude: 0,
+        timestamp: far.timestamp + i * 1000,
+      });
+    }
+    expect(state.rejectedCount).toBe(0);
+    expect(state.longitude).toBe(far.longitude);
+  });
+
+  it('weights each fix by its accuracy', () => {
+    // Parado; uma a cada três leituras tem 40 m de precisão e está a 35 m
+    const steps = replay('gps-accuracy.json');
+
+    for (const { estimate } of steps.slice(5)) {
+      expect(errorFrom(estimate, ORIGIN)).toBeLessThan(5);
+    }
+
+    // As leituras ruins movem a estimativa bem menos que as boas
+    steps.slice(5).forEach(({ sample, estimate }, index) => {
+      const previous = steps[index + 4].estimate;
+      const moved = errorFrom(estimate, previous);
+      if (sample.accuracy > 20) {
+        expect(moved).toBeLessThan(0.05 * errorFrom(sample, previous));
+      }
+    });
+
+    const { accuracy } = steps.at(-1)!.estimate;
+    expect(accuracy).toBeLessThan(4);
+    expect(steps.at(-1)!.estimate.isStationary).toBe(true);
+  });
+});
+
+describe('setCoordinates replay', () => {
+  it('keeps publishing the accuracy while a stationary position is held', () => {
+    // Parado; a precisão piora de 5 para 30 m entre 20 e 30 s
+    const samples = loadPositions('gps-stationary.json');
+    const store = useARStore.getState();
+    store.setPositionFilterMode('kalman');
+    store.resetPositionFilter();
+
+    const published: Array<{ latitude: number | null; accuracy: number }> = [];
+    for (const sample of samples) {
+      store.setCoordinates(
+        sample.latitude,
+        sample.longitude,
+        sample.accuracy,
+        sample.altitude,
+        sample.timestamp,
+      );
+      const { coordinates, positionFilter, isStationary } =
+        useARStore.getState();
+      expect(coordinates.accuracy).toBe(
+        getPositionEstimate(positionFilter!).accuracy,
+      );
+      if (sample.timestamp - samples[0].timestamp >= 10000) {
+        expect(isStationary).toBe(true);
+      }
+      published.push({
+        latitude: coordinates.latitude,
+        accuracy: coordinates.accuracy!,
+      });
+    }
+
+    // A posição parada não é republicada a cada leitura...
+    const held = published.slice(10);
+    expect(new Set(held.map(({ latitude }) => latitude)).size).toBeLessThan(
+      held.length / 2,
+    );
+    // ...mas a precisão acompanha a piora do sinal
+    expect(published.at(-1)!.accuracy).toBeGreaterThan(
+      2 * published[19].accuracy,
+    );
+  });
+});
@@ -0,0 +1,291 @@
+// Path: features\ar\utils\positionFilter.ts
+
+/**
+ * Modelo do filtro de posição
+ * - off: usa as leituras do GPS sem filtragem
+ * - smoothing: média ponderada pela precisão (posição aleatória, sem velocidade)
+ * - kalman: modelo de velocidade constante
+ */
+export type PositionFilterMode = 'off' | 'smoothing' | 'kalman';
+
+/**
+ * Leitura do GPS com o instante da medição
+ */
+export interface PositionFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // metros
+  altitude: number;
+  timestamp: number; // ms
+}
+
+/**
+ * Estado do filtro, com covariância isotrópica compartilhada pelos eixos
+ * norte e leste (mesmos ruídos nos dois eixos)
+ */
+export interface PositionFilterState {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  velocityNorth: number; // m/s
+  velocityEast: number; // m/s
+  // Covariância [posição², posição·velocidade, velocidade²]
+  covariance: [number, number, number];
+  altitudeVariance: number; // m²
+  timestamp: number;
+  // Leituras seguidas descartadas como saltos impossíveis
+  rejectedCount: number;
+}
+
+export interface PositionFilterConfig {
+  mode: Exclude<PositionFilterMode, 'off'>;
+  // Velocidade acima da qual um salto é considerado impossível (m/s)
+  maxSpeed: number;
+  // Desvio da aceleração no modelo de velocidade constante (m/s²)
+  acceleration: number;
+  // Velocidade de caminhada usada no modo sem velocidade (m/s)
+  walkingSpeed: number;
+  // Abaixo desta velocidade o usuário é considerado parado (m/s)
+  stationarySpeed: number;
+  // Após N saltos seguidos, o filtro é reiniciado na nova leitura
+  maxRejected: number;
+}
+
+export const DEFAULT_POSITION_FILTER_CONFIG: PositionFilterConfig = {
+  mode: 'kalman',
+  maxSpeed: 50,
+  acceleration: 0.3,
+  walkingSpeed: 1.5,
+  stationarySpeed: 0.5,
+  maxRejected: 3,
+};
+
+/**
+ * Posição filtrada publicada no store
+ */
+export interface PositionEstimate {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  accuracy: number; // desvio padrão estimado (metros)
+  speed: number | null; // m/s, desconhecida no modo sem velocidade
+  isStationary: boolean;
+}
+
+// Aproximação local: 1° de latitude ≈ 111 320 m
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Offset in meters from `origin` to `target` (local equirectangular
+ * approximation, accurate for the short distances between fixes)
+ */
+function getLocalOffset(
+  origin: { latitude: number; longitude: number },
+  target: { latitude: number; longitude: number },
+): { north: number; east: number } {
+  return {
+    north: (target.latitude - origin.latitude) * METERS_PER_DEGREE,
+    east:
+      (target.longitude - origin.longitude) *
+      METERS_PER_DEGREE *
+      Math.cos((origin.latitude * Math.PI) / 180),
+  };
+}
+
+function offsetPosition(
+  origin: { latitude: number; longitude: number },
+  north: number,
+  east: number,
+): { latitude: number; longitude: number } {
+  return {
+    latitude: origin.latitude + north / METERS_PER_DEGREE,
+    longitude:
+      origin.longitude +
+      east / (METERS_PER_DEGREE * Math.cos((origin.latitude * Math.PI) / 180)),
+  };
+}
+
+/**
+ * Starts a filter at a fix
+ */
+export function createPositionFilter(fix: PositionFix): PositionFilterState {
+  const variance = Math.max(fix.accuracy * fix.accuracy, 1);
+  return {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    altitude: fix.altitude,
+    velocityNorth: 0,
+    velocityEast: 0,
+    // Velocidade inicial desconhecida: desvio da ordem da velocidade de caminhada
+    covariance: [variance, 0, 4],
+    altitudeVariance: variance * 2.25,
+    timestamp: fix.timestamp,
+    rejectedCount: 0,
+  };
+}
+
+/**
+ * Prediction step: moves the estimate by the velocity and grows the
+ * uncertainty with the elapsed time
+ */
+export function predictPosition(
+  state: PositionFilterState,
+  timestamp: number,
+  config: PositionFilterConfig = DEFAULT_POSITION_FILTER_CONFIG,
+): PositionFilterState {
+  const dt = Math.max(0, (timestamp - state.timestamp) / 1000);
+  const [p00, p01, p11] = state.covariance;
+
+  if (config.mode === 'smoothing') {
+    // Sem velocidade: a posição pode variar até a velocidade de caminhada
+    const drift = config.walkingSpeed * dt;
+    return {
+      ...state,
+      covariance: [p00 + drift * drift, 0, 0],
+      altitudeVariance: state.altitudeVariance + drift * drift,
+      timestamp,
+    };
+  }
+
+  // Velocidade constante com aceleração como ruído branco
+  const q = config.acceleration * config.acceleration;
+  const position = offsetPosition(
+    state,
+    state.velocityNorth * dt,
+    state.velocityEast * dt,
+  );
+  return {
+    ...state,
+    ...position,
+    covariance: [
+      p00 + 2 * dt * p01 + dt * dt * p11 + (q * dt ** 4) / 4,
+      p01 + dt * p11 + (q * dt ** 3) / 2,
+      p11 + q * dt * dt,
+    ],
+    altitudeVariance:
+      state.altitudeVariance + config.walkingSpeed ** 2 * dt * dt,
+    timestamp,
+  };
+}
+
+/**
+ * Whether a fix implies a movement faster than `maxSpeed`, after allowing
+ * for the fix accuracy and the filter uncertainty
+ */
+export function isImpossibleJump(
+  predicted: PositionFilterState,
+  fix: PositionFix,
+  elapsedSeconds: number,
+  config: PositionFilterConfig = DEFAULT_POSITION_FILTER_CONFIG,
+): boolean {
+  const { north, east } = getLocalOffset(predicted, fix);
+  const margin = fix.accuracy + 2 * Math.sqrt(predicted.covariance[0]);
+  const distance = Math.hypot(north, east) - margin;
+  return distance > config.maxSpeed * Math.max(elapsedSeconds, 1);
+}
+
+/**
+ * Updates the filter with a GPS fix: predicts to the fix time, rejects
+ * impossible jumps and blends the fix weighted by its accuracy
+ */
+export function updatePositionFilter(
+  state: PositionFilterState | null,
+  fix: PositionFix,
+  config: PositionFilterConfig = DEFAULT_POSITION_FILTER_CONFIG,
+): PositionFilterState {
+  if (!state || fix.timestamp < state.timestamp) {
+    return createPositionFilter(fix);
+  }
+
+  const elapsed = (fix.timestamp - state.timestamp) / 1000;
+  const predicted = predictPosition(state, fix.timestamp, config);
+
+  if (isImpossibleJump(predicted, fix, elapsed, config)) {
+    // Saltos repetidos indicam uma mudança real (ex.: fim de um túnel)
+    if (state.rejectedCount + 1 >= config.maxRejected) {
+      return createPositionFilter(fix);
+    }
+    // Mantém a estimativa anterior, sem avançar o tempo
+    return { ...state, rejectedCount: state.rejectedCount + 1 };
+  }
+
+  const [p00, p01, p11] = predicted.covariance;
+  const measurementVariance = Math.max(fix.accuracy * fix.accuracy, 1);
+  const innovation = getLocalOffset(predicted, fix);
+  const positionGain = p00 / (p00 + measurementVariance);
+  const velocityGain = p01 / (p00 + measurementVariance);
+
+  const position = offsetPosition(
+    predicted,
+    positionGain * innovation.north,
+    positionGain * innovation.east,
+  );
+
+  // A altitude do GPS é menos precisa que a posição horizontal
+  const altitudeMeasurementVariance = measurementVariance * 2.25;
+  const altitudeGain =
+    predicted.altitudeVariance /
+    (predicted.altitudeVariance + altitudeMeasurementVariance);
+
+  return {
+    ...position,
+    altitude:
+      predicted.altitude + altitudeGain * (fix.altitude - predicted.altitude),
+    velocityNorth: predicted.velocityNorth + velocityGain * innovation.north,
+    velocityEast: predicted.velocityEast + velocityGain * innovation.east,
+    covariance: [
+      (1 - positionGain) * p00,
+      (1 - positionGain) * p01,
+      p11 - velocityGain * p01,
+    ],
+    altitudeVariance: (1 - altitudeGain) * predicted.altitudeVariance,
+    timestamp: fix.timestamp,
+    rejectedCount: 0,
+  };
+}
+
+/**
+ * Filter output published to the store
+ * The user is considered stationary while the estimated speed stays within
+ * half a standard deviation of `stationarySpeed` (GPS noise alone produces
+ * a small apparent velocity)
+ */
+export function getPositionEstimate(
+  state: PositionFilterState,
+  config: PositionFilterConfig = DEFAULT_POSITION_FILTER_CONFIG,
+): PositionEstimate {
+  const speed =
+    config.mode === 'kalman'
+      ? Math.hypot(state.velocityNorth, state.velocityEast)
+      : null;
+
+  return {
+    latitude: state.latitude,
+    longitude: state.longitude,
+    altitude: state.altitude,
+    accuracy: Math.sqrt(state.covariance[0]),
+    speed,
+    isStationary:
+      speed !== null &&
+      speed < config.stationarySpeed + 0.5 * Math.sqrt(state.covariance[2]),
+  };
+}
+
+/**
+ * Whether the estimate moved enough to be republished: while the user
+ * stands still small drifts are ignored, so bearings to nearby markers
+ * stay put
+ */
+export function hasPositionChanged(
+  previous: { latitude: number | null; longitude: number | null },
+  next: PositionEstimate,
+): boolean {
+  if (previous.latitude === null || previous.longitude === null) return true;
+
+  const { north, east } = getLocalOffset(
+    { latitude: previous.latitude, longitude: previous.longitude },
+    next,
+  );
+  const threshold = next.isStationary ? Math.max(2, next.accuracy / 2) : 0.5;
+  return Math.hypot(north, east) >= threshold;
+}
@@ -0,0 +1,32 @@
+// Path: features\ar\utils\radar.ts
+
+// Alcances do radar (metros), alternados pelo toque no rótulo
+export const RADAR_RANGES = [100, 250, 500, 1000, 2500];
+export const DEFAULT_RADAR_RANGE = 500;
+// Anéis de distância do radar (frações do alcance)
+export const RADAR_RING_COUNT = 4;
+
+/**
+ * Position of a marker on the radar relative to its center, with the
+ * current heading pointing up. Returns null beyond the radar range
+ */
+export function getRadarBlipPosition(
+  bearing: number,
+  distance: number,
+  heading: number,
+  range: number,
+  radius: number,
+): { x: number; y: number } | null {
+  if (distance > range) return null;
+  const angle = ((bearing - heading) * Math.PI) / 180;
+  const r = (distance / range) * radius;
+  return { x: r * Math.sin(angle), y: -r * Math.cos(angle) };
+}
+
+/**
+ * Next radar range in the cycle
+ */
+export function getNextRadarRange(range: number): number {
+  const index = RADAR_RANGES.indexOf(range);
+  return RADAR_RANGES[(index + 1) % RADAR_RANGES.length];
+}
@@ -0,0 +1,172 @@
+// Path: features\ar\utils\sensorSession.ts
+import {
+  SensorSession,
+  SessionSample,
+  sensorSessionSchema,
+} from '../schemas/sensorSessionSchema';
+import { SensorSample } from './orientation';
+
+// Velocidades de reprodução disponíveis
+export const REPLAY_SPEEDS = [1, 2, 4, 10] as const;
+
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+// Amostras da gravação em andamento (null quando não há gravação)
+let recording: SessionSample[] | null = null;
+
+// Consumidores das amostras de orientação reproduzidas
+const replayListeners = new Set<(sample: SensorSample) => void>();
+
+/**
+ * Starts a new recording, discarding any recording in progress
+ */
+export function startSensorRecording(): void {
+  recording = [];
+}
+
+/**
+ * Stops the recording and returns it as a session, or null when no
+ * recording was in progress
+ */
+export function stopSensorRecording(): SensorSession | null {
+  if (!recording) return null;
+
+  const session: SensorSession = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    samples: recording,
+  };
+  recording = null;
+  return session;
+}
+
+export function getRecordedSampleCount(): number {
+  return recording?.length ?? 0;
+}
+
+/**
+ * Appends a raw sensor reading to the recording in progress, if any
+ */
+export function recordSensorSample(sample: SessionSample): void {
+  recording?.push(sample);
+}
+
+/**
+ * Parses and validates a session file
+ */
+export function parseSensorSession(content: string, label: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`${label} não contém JSON válido`);
+  }
+
+  const result = sensorSessionSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`${label} não é uma sessão de sensores válida`);
+  }
+
+  // Ordena por tempo para que a reprodução seja sempre sequencial
+  return {
+    ...result.data,
+    samples: [...result.data.samples].sort((a, b) => a.timestamp - b.timestamp),
+  };
+}
+
+/**
+ * Session length in milliseconds
+ */
+export function getSessionDuration(session: SensorSession): number {
+  const { samples } = session;
+  if (samples.length < 2) return 0;
+  return samples[samples.length - 1].timestamp - samples[0].timestamp;
+}
+
+export function getSessionFileName(timestamp: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${timestamp.getFullYear()}${pad(timestamp.getMonth() + 1)}${pad(timestamp.getDate())}`;
+  const time = `${pad(timestamp.getHours())}${pad(timestamp.getMinutes())}${pad(timestamp.getSeconds())}`;
+  return `sessao-sensores-${date}-${time}.json`;
+}
+
+/**
+ * Registers a consumer for replayed orientation and motion samples
+ * Returns the unsubscribe function
+ */
+export function subscribeToReplaySamples(
+  listener: (sample: SensorSample) => void,
+): () => void {
+  replayListeners.add(listener);
+  return () => {
+    replayListeners.delete(listener);
+  };
+}
+
+/**
+ * Delivers a replayed orientation or motion sample to its consumers
+ */
+export function emitReplaySample(sample: SensorSample): void {
+  replayListeners.forEach(listener => listener(sample));
+}
+
+/**
+ * Feeds the samples of a session to `onSample` following their recorded
+ * timing, accelerated by `speed`. Sample timestamps are kept unchanged so
+ * the filters see exactly the recorded intervals
+ * Returns a function that cancels the replay
+ */
+export function replaySensorSession(
+  session: SensorSession,
+  {
+    speed,
+    onSample,
+    onProgress,
+    onEnd,
+  }: {
+    speed: number;
+    onSample: (sample: SessionSample) => void;
+    onProgress?: (progress: number) => void;
+    onEnd?: () => void;
+  },
+): () => void {
+  const { samples } = session;
+  if (!samples.length) {
+    onEnd?.();
+    return () => {};
+  }
+
+  const start = samples[0].timestamp;
+  const duration = getSessionDuration(session);
+  const startedAt = performance.now();
+  let index = 0;
+  let timer: number | undefined;
+
+  const tick = () => {
+    const elapsed = (performance.now() - startedAt) * speed;
+
+    // Entrega todas as amostras já vencidas
+    while (
+      index < samples.length &&
+      samples[index].timestamp - start <= elapsed
+    ) {
+      onSample(samples[index]);
+      index++;
+    }
+
+    onProgress?.(duration > 0 ? Math.min(1, elapsed / duration) : 1);
+
+    if (index >= samples.length) {
+      onEnd?.();
+      return;
+    }
+
+    const wait = (samples[index].timestamp - start - elapsed) / speed;
+    timer = window.setTimeout(tick, Math.max(0, wait));
+  };
+
+  tick();
+
+  return () => window.clearTimeout(timer);
+}
@@ -0,0 +1,185 @@
+// Path: features\ar\utils\simulation.ts
+import { angleDifference, normalizeAngle } from './orientation';
+
+/**
+ * Posição e orientação simuladas
+ */
+export interface SimulationState {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  heading: number; // graus, norte verdadeiro
+  pitch: number; // graus, elevação da câmera
+}
+
+/**
+ * Imagem ou vídeo exibido no lugar da câmera
+ */
+export interface SimulationBackdrop {
+  type: 'image' | 'video';
+  url: string;
+}
+
+export interface SimulationConfig {
+  initial: SimulationState;
+  backdrop: SimulationBackdrop;
+}
+
+// Praça da Matriz, Porto Alegre (próxima ao dataset de exemplo)
+export const DEFAULT_SIMULATION_STATE: SimulationState = {
+  latitude: -30.0334,
+  longitude: -51.23,
+  altitude: 10,
+  heading: 0,
+  pitch: 0,
+};
+
+// Limites da inclinação simulada
+export const SIMULATION_PITCH_LIMIT = 60;
+
+// Precisão informada para as posições simuladas (metros)
+export const SIMULATION_ACCURACY = 5;
+
+// Céu e chão com linha do horizonte no centro, usados quando nenhuma imagem é informada
+const DEFAULT_BACKDROP_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720">
+<defs>
+<linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#1e3c72"/><stop offset="1" stop-color="#7fb2e5"/></linearGradient>
+<linearGradient id="ground" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#5b6b4f"/><stop offset="1" stop-color="#2f3a28"/></linearGradient>
+</defs>
+<rect width="1280" height="360" fill="url(#sky)"/>
+<rect y="360" width="1280" height="360" fill="url(#ground)"/>
+</svg>`;
+
+/**
+ * Whether the simulation mode was requested through the `sim` query flag
+ */
+export function isSimulationRequested(params: URLSearchParams): boolean {
+  const value = params.get('sim');
+  return value !== null && value !== '0' && value !== 'false';
+}
+
+/**
+ * Reads the initial simulated state and the backdrop from query parameters
+ * (lat, lng, alt, heading, pitch, image, video)
+ */
+export function getSimulationConfig(params: URLSearchParams): SimulationConfig {
+  const readNumber = (name: string, fallback: number) => {
+    const value = Number(params.get(name));
+    return params.has(name) && Number.isFinite(value) ? value : fallback;
+  };
+
+  const video = params.get('video');
+  const image = params.get('image');
+
+  return {
+    initial: {
+      latitude: readNumber('lat', DEFAULT_SIMULATION_STATE.latitude),
+      longitude: readNumber('lng', DEFAULT_SIMULATION_STATE.longitude),
+      altitude: readNumber('alt', DEFAULT_SIMULATION_STATE.altitude),
+      heading: normalizeAngle(
+        readNumber('heading', DEFAULT_SIMULATION_STATE.heading),
+      ),
+      pitch: readNumber('pitch', DEFAULT_SIMULATION_STATE.pitch),
+    },
+    backdrop: video
+      ? { type: 'video', url: video }
+      : {
+          type: 'image',
+          url:
+            image ??
+            `data:image/svg+xml;charset=utf-8,${encodeURIComponent(DEFAULT_BACKDROP_SVG)}`,
+        },
+  };
+}
+
+/**
+ * Moves the simulated position in meters relative to the current heading
+ */
+export function moveSimulatedPosition(
+  state: SimulationState,
+  forward: number,
+  right: number,
+): SimulationState {
+  const heading = (state.heading * Math.PI) / 180;
+  const north = forward * Math.cos(heading) - right * Math.sin(heading);
+  const east = forward * Math.sin(heading) + right * Math.cos(heading);
+
+  // Aproximação local: 1° de latitude ≈ 111 320 m
+  const metersPerDegree = 111320;
+  return {
+    ...state,
+    latitude: state.latitude + north / metersPerDegree,
+    longitude:
+      state.longitude +
+      east / (metersPerDegree * Math.cos((state.latitude * Math.PI) / 180)),
+  };
+}
+
+/**
+ * Applies a keyboard shortcut to the simulated state
+ * ←/→ turn, ↑/↓ walk, A/D step sideways, W/S tilt; Shift makes smaller steps
+ * Returns null for keys without an action
+ */
+export function applySimulationKey(
+  state: SimulationState,
+  key: string,
+  fine = false,
+): SimulationState | null {
+  const angleStep = fine ? 1 : 5;
+  const distanceStep = fine ? 1 : 5;
+
+  switch (key.toLowerCase()) {
+    case 'arrowleft':
+      return { ...state, heading: normalizeAngle(state.heading - angleStep) };
+    case 'arrowright':
+      return { ...state, heading: normalizeAngle(state.heading + angleStep) };
+    case 'arrowup':
+      return moveSimulatedPosition(state, distanceStep, 0);
+    case 'arrowdown':
+      return moveSimulatedPosition(state, -distanceStep, 0);
+    case 'a':
+      return moveSimulatedPosition(state, 0, -distanceStep);
+    case 'd':
+      return moveSimulatedPosition(state, 0, distanceStep);
+    case 'w':
+      return {
+        ...state,
+        pitch: Math.min(SIMULATION_PITCH_LIMIT, state.pitch + angleStep),
+      };
+    case 's':
+      return {
+        ...state,
+        pitch: Math.max(-SIMULATION_PITCH_LIMIT, state.pitch - angleStep),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Moves an angle towards a target by at most `maxStep` degrees
+ */
+export function stepTowardsAngle(
+  current: number,
+  target: number,
+  maxStep: number,
+): number {
+  const difference = angleDifference(current, target);
+  if (Math.abs(difference) <= maxStep) return normalizeAngle(target);
+  return normalizeAngle(current + Math.sign(difference) * maxStep);
+}
+
+/**
+ * W3C device orientation angles for a device held upright with the rear
+ * camera pointing at `heading` (compass reference) and tilted by `pitch`
+ */
+export function getSimulatedOrientationAngles(
+  heading: number,
+  pitch: number,
+): { alpha: number; beta: number; gamma: number } {
+  return {
+    alpha: normalizeAngle(360 - heading),
+    beta: 90 + pitch,
+    gamma: 0,
+  };
+}
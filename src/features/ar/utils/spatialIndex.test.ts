@@ -0,0 +1,233 @@
+// Path: features\ar\utils\spatialIndex.test.ts
+import { describe, expect, it } from 'vitest';
+import { Marker } from '../schemas/markerSchema';
+import { calculateBearing, calculateDistance } from './arjsUtils';
+import {
+  MAX_INDEXED_CELLS,
+  MAX_PROCESSING_DISTANCE,
+  buildSpatialIndex,
+  getProcessingCandidates,
+  queryRadius,
+  queryWedge,
+} from './spatialIndex';
+
+type Position = [number, number, number];
+
+const point = (id: string, lng: number, lat: number): Marker =>
+  ({
+    id,
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lng, lat, 0] },
+    properties: { name: id, category: 'default' },
+  }) as Marker;
+
+const polygon = (id: string, ring: Position[]): Marker =>
+  ({
+    id,
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [ring] },
+    properties: { name: id, category: 'default' },
+  }) as Marker;
+
+// Polígono de ~1.000 x 1.000 km (milhões de células de 250 m)
+const country = polygon('pais', [
+  [-50, -20, 0],
+  [-40, -20, 0],
+  [-40, -10, 0],
+  [-50, -10, 0],
+  [-50, -20, 0],
+]);
+const nearby = point('perto', -43.2, -22.9);
+const far = point('longe', -43.0, -22.9);
+
+// Sequência pseudoaleatória reproduzível (Park-Miller)
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+// ~1 km em graus de latitude
+const KM = 1 / 111.2;
+
+/**
+ * Random points in a square of `size` degrees centered on a position
+ */
+function randomPoints(count: number, seed: number, size = 10 * KM) {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, (_, i) =>
+    point(
+      `p${i}`,
+      -43.2 + (random() - 0.5) * size,
+      -22.9 + (random() - 0.5) * size,
+    ),
+  );
+}
+
+const distanceTo = (marker: Marker, lat: number, lng: number) =>
+  calculateDistance(
+    lat,
+    lng,
+    marker.geometry.coordinates[1] as number,
+    marker.geometry.coordinates[0] as number,
+  );
+
+const relativeBearingTo = (
+  marker: Marker,
+  lat: number,
+  lng: number,
+  bearing: number,
+) =>
+  ((calculateBearing(
+    lat,
+    lng,
+    marker.geometry.coordinates[1] as number,
+    marker.geometry.coordinates[0] as number,
+  ) -
+    bearing +
+    540) %
+    360) -
+  180;
+
+describe('buildSpatialIndex', () => {
+  it('keeps markers spanning many cells out of the grid', () => {
+    const index = buildSpatialIndex([country, nearby, far]);
+
+    expect(index.large).toEqual([country]);
+    expect(index.cells.size).toBeLessThanOrEqual(2 + MAX_INDEXED_CELLS);
+  });
+
+  it('always returns the large markers as candidates', () => {
+    const index = buildSpatialIndex([country, nearby, far]);
+
+    expect(queryRadius(index, -22.9, -43.2, 500)).toEqual(
+      expect.arrayContaining([country, nearby]),
+    );
+    expect(queryRadius(index, -22.9, -43.2, 500)).not.toContain(far);
+    // Setor voltado para o sul, oposto ao polígono
+    expect(queryWedge(index, -22.9, -43.2, 500, 180, 30)).toContain(country);
+  });
+});
+
+describe('queryRadius', () => {
+  it('returns every marker a brute-force pass finds within the radius', () => {
+    const markers = randomPoints(3000, 3);
+    const index = buildSpatialIndex(markers);
+    const random = createRandom(5);
+
+    for (let i = 0; i < 20; i++) {
+      const lat = -22.9 + (random() - 0.5) * 6 * KM;
+      const lng = -43.2 + (random() - 0.5) * 6 * KM;
+      const radius = 100 + random() * 2000;
+
+      const found = new Set(queryRadius(index, lat, lng, radius));
+      const expected = markers.filter(
+        marker => distanceTo(marker, lat, lng) <= radius,
+      );
+      expect(expected.length).toBeGreaterThan(0);
+      for (const marker of expected) expect(found).toContain(marker);
+    }
+  });
+});
+
+describe('queryWedge', () => {
+  const north = point('norte', -43.2, -22.9 + KM);
+  const south = point('sul', -43.2, -22.9 - KM);
+  const east = point('leste', -43.2 + KM, -22.9);
+
+  it('keeps the cells inside the wedge and drops those behind the user', () => {
+    const index = buildSpatialIndex([north, south, east]);
+
+    const ahead = queryWedge(index, -22.9, -43.2, 2000, 0, 30);
+    expect(ahead).toContain(north);
+    expect(ahead).not.toContain(south);
+    expect(ahead).not.toContain(east);
+
+    expect(queryWedge(index, -22.9, -43.2, 2000, 90, 30)).toEqual([east]);
+  });
+
+  it('handles wedges that cross ±180° when facing south', () => {
+    const index = buildSpatialIndex([north, south, east]);
+
+    // Voltado para o sul, o setor vai de 150° a 210° (-150°)
+    expect(queryWedge(index, -22.9, -43.2, 2000, 180, 30)).toEqual([south]);
+    // Centrado a 5° do sul, de cada lado
+    expect(queryWedge(index, -22.9, -43.2, 2000, 175, 10)).toEqual([south]);
+    expect(queryWedge(index, -22.9, -43.2, 2000, 185, 10)).toEqual([south]);
+  });
+
+  it('always keeps the cell that contains the user', () => {
+    const index = buildSpatialIndex([north]);
+    // Usuário no centro de uma célula, com um marcador 30 m atrás
+    const lat = (Math.floor(-22.9 / index.cellSize) + 0.5) * index.cellSize;
+    const lng = (Math.floor(-43.2 / index.cellSize) + 0.5) * index.cellSize;
+    const behind = point('atras', lng, lat - 30 / 111200);
+    const withUser = buildSpatialIndex([north, behind]);
+
+    expect(queryWedge(withUser, lat, lng, 2000, 0, 10)).toContain(behind);
+  });
+
+  it('returns every marker inside the wedge for any heading', () => {
+    const markers = randomPoints(2000, 7);
+    const index = buildSpatialIndex(markers);
+    const random = createRandom(11);
+
+    for (let i = 0; i < 40; i++) {
+      const lat = -22.9 + (random() - 0.5) * 4 * KM;
+      const lng = -43.2 + (random() - 0.5) * 4 * KM;
+      // Metade das direções perto do sul, onde o setor cruza ±180°
+      const bearing = i % 2 ? 180 + (random() - 0.5) * 40 : random() * 360;
+      const halfAngle = 5 + random() * 40;
+      const radius = 500 + random() * 2000;
+
+      const found = new Set(
+        queryWedge(index, lat, lng, radius, bearing, halfAngle),
+      );
+      const expected = markers.filter(
+        marker =>
+          distanceTo(marker, lat, lng) <= radius &&
+          Math.abs(relativeBearingTo(marker, lat, lng, bearing)) <= halfAngle,
+      );
+      expect(expected.length).toBeGreaterThan(0);
+      for (const marker of expected) expect(found).toContain(marker);
+      // As células atrás do usuário ficam de fora
+      expect(found.size).toBeLessThan(
+        queryRadius(index, lat, lng, radius).length,
+      );
+    }
+  });
+});
+
+describe('getProcessingCandidates', () => {
+  const remote = point(
+    'remoto',
+    -43.2,
+    -22.9 + (2 * MAX_PROCESSING_DISTANCE) / 111200,
+  );
+
+  it('adds the pinned markers outside the processing radius', () => {
+    const markers = [nearby, far, remote];
+    const index = buildSpatialIndex(markers);
+
+    const candidates = getProcessingCandidates(markers, index, -22.9, -43.2);
+    expect(candidates).toContain(nearby);
+    expect(candidates).not.toContain(remote);
+
+    const pinned = getProcessingCandidates(markers, index, -22.9, -43.2, [
+      'remoto',
+      'perto',
+      'inexistente',
+    ]);
+    expect(pinned).toContain(remote);
+    expect(pinned.filter(marker => marker === nearby)).toHaveLength(1);
+    expect(pinned).toHaveLength(candidates.length + 1);
+  });
+
+  it('returns every marker without an index', () => {
+    const markers = [nearby, far, remote];
+
+    expect(getProcessingCandidates(markers, null, -22.9, -43.2)).toBe(markers);
+  });
+});
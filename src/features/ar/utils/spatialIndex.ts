@@ -0,0 +1,228 @@
+// Path: features\ar\utils\spatialIndex.ts
+import { Marker } from '../schemas/markerSchema';
+import { calculateBearing, getGeometryVertices } from './arjsUtils';
+
+/**
+ * Índice espacial em grade regular (graus) para consultas por raio e por
+ * setor de direção sem percorrer todos os marcadores
+ * Linhas e polígonos entram em todas as células da sua extensão; os que
+ * cobrem mais de MAX_INDEXED_CELLS células ficam em `large`, sempre
+ * incluídos nas consultas
+ */
+export interface SpatialIndex {
+  cellSize: number; // graus
+  cells: Map<string, Marker[]>;
+  large: Marker[];
+  byId: Map<string, Marker>;
+  size: number;
+}
+
+// Lado das células (metros, na direção norte-sul)
+export const SPATIAL_INDEX_CELL_SIZE = 250;
+// Abaixo disso, percorrer todos os marcadores é mais barato que o índice
+export const SPATIAL_INDEX_MIN_MARKERS = 2000;
+// Máximo de células por marcador (~2 x 2 km): trilhas longas e polígonos
+// extensos ocupariam milhões de células
+export const MAX_INDEXED_CELLS = 64;
+// Com o índice, apenas marcadores até esta distância são processados
+// (acima do maior alcance do radar)
+export const MAX_PROCESSING_DISTANCE = 5000;
+
+const METERS_PER_DEGREE = (Math.PI / 180) * 6371e3;
+
+const cellKey = (row: number, column: number) => `${row}:${column}`;
+
+/**
+ * Builds the grid index of a marker list
+ */
+export function buildSpatialIndex(
+  markers: Marker[],
+  cellSizeMeters = SPATIAL_INDEX_CELL_SIZE,
+): SpatialIndex {
+  const cellSize = cellSizeMeters / METERS_PER_DEGREE;
+  const cells = new Map<string, Marker[]>();
+  const large: Marker[] = [];
+  const byId = new Map<string, Marker>();
+
+  for (const marker of markers) {
+    byId.set(marker.id, marker);
+    const vertices = getGeometryVertices(marker.geometry);
+    let minRow = Infinity;
+    let maxRow = -Infinity;
+    let minColumn = Infinity;
+    let maxColumn = -Infinity;
+    for (const [lng, lat] of vertices) {
+      const row = Math.floor(lat / cellSize);
+      const column = Math.floor(lng / cellSize);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+    }
+
+    if (
+      (maxRow - minRow + 1) * (maxColumn - minColumn + 1) >
+      MAX_INDEXED_CELLS
+    ) {
+      large.push(marker);
+      continue;
+    }
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const key = cellKey(row, column);
+        const cell = cells.get(key);
+        if (cell) cell.push(marker);
+        else cells.set(key, [marker]);
+      }
+    }
+  }
+
+  return { cellSize, cells, large, byId, size: markers.length };
+}
+
+/**
+ * Visits the cells that overlap the bounding box of a circle, passing the
+ * cell bounds in degrees
+ */
+function forEachCellInRadius(
+  index: SpatialIndex,
+  lat: number,
+  lng: number,
+  radius: number,
+  visit: (
+    markers: Marker[],
+    bounds: { south: number; north: number; west: number; east: number },
+  ) => void,
+) {
+  const { cellSize, cells } = index;
+  const latRadius = radius / METERS_PER_DEGREE;
+  const lngRadius =
+    radius /
+    (METERS_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+
+  const minRow = Math.floor((lat - latRadius) / cellSize);
+  const maxRow = Math.floor((lat + latRadius) / cellSize);
+  const minColumn = Math.floor((lng - lngRadius) / cellSize);
+  const maxColumn = Math.floor((lng + lngRadius) / cellSize);
+
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let column = minColumn; column <= maxColumn; column++) {
+      const markers = cells.get(cellKey(row, column));
+      if (markers) {
+        visit(markers, {
+          south: row * cellSize,
+          north: (row + 1) * cellSize,
+          west: column * cellSize,
+          east: (column + 1) * cellSize,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Candidate markers within `radius` meters of a position: every marker in
+ * the cells overlapping the circle plus the large ones, so the caller still
+ * computes the exact distance
+ */
+export function queryRadius(
+  index: SpatialIndex,
+  lat: number,
+  lng: number,
+  radius: number,
+): Marker[] {
+  const found = new Set<Marker>(index.large);
+  forEachCellInRadius(index, lat, lng, radius, markers =>
+    markers.forEach(marker => found.add(marker)),
+  );
+  return Array.from(found);
+}
+
+/**
+ * Candidate markers within `radius` meters and inside the wedge of
+ * `halfAngle` degrees around `bearing` (e.g. the camera field of view)
+ * Cells are kept when the arc they cover, seen from the position, overlaps
+ * the wedge; the cell that contains the position and the large markers
+ * are always kept
+ */
+export function queryWedge(
+  index: SpatialIndex,
+  lat: number,
+  lng: number,
+  radius: number,
+  bearing: number,
+  halfAngle: number,
+): Marker[] {
+  if (halfAngle >= 180) return queryRadius(index, lat, lng, radius);
+
+  const found = new Set<Marker>(index.large);
+  forEachCellInRadius(index, lat, lng, radius, (markers, bounds) => {
+    const containsPosition =
+      lat >= bounds.south &&
+      lat < bounds.north &&
+      lng >= bounds.west &&
+      lng < bounds.east;
+
+    if (!containsPosition) {
+      const relative = [
+        [bounds.south, bounds.west],
+        [bounds.south, bounds.east],
+        [bounds.north, bounds.west],
+        [bounds.north, bounds.east],
+      ].map(
+        ([cornerLat, cornerLng]) =>
+          ((calculateBearing(lat, lng, cornerLat, cornerLng) - bearing + 540) %
+            360) -
+          180,
+      );
+      const min = Math.min(...relative);
+      const max = Math.max(...relative);
+      // Células atrás do usuário cruzam ±180°: o arco é [max, 180] ∪ [-180, min]
+      const overlaps =
+        max - min <= 180
+          ? max >= -halfAngle && min <= halfAngle
+          : max <= halfAngle || min >= -halfAngle;
+      if (!overlaps) return;
+    }
+
+    markers.forEach(marker => found.add(marker));
+  });
+  return Array.from(found);
+}
+
+/**
+ * Spatial index for datasets large enough to benefit from it, else null
+ */
+export function indexMarkers(markers: Marker[]): SpatialIndex | null {
+  return markers.length >= SPATIAL_INDEX_MIN_MARKERS
+    ? buildSpatialIndex(markers)
+    : null;
+}
+
+/**
+ * Markers to process for a position: all of them for small datasets; with
+ * the spatial index, those within MAX_PROCESSING_DISTANCE plus the pinned
+ * ones (e.g. the selected marker, wherever it is)
+ */
+export function getProcessingCandidates(
+  markers: Marker[],
+  index: SpatialIndex | null,
+  latitude: number,
+  longitude: number,
+  pinnedIds: string[] = [],
+): Marker[] {
+  if (!index) return markers;
+
+  const candidates = queryRadius(
+    index,
+    latitude,
+    longitude,
+    MAX_PROCESSING_DISTANCE,
+  );
+  for (const id of pinnedIds) {
+    const marker = index.byId.get(id);
+    if (marker && !candidates.includes(marker)) candidates.push(marker);
+  }
+  return candidates;
+}
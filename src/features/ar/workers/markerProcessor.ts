@@ -0,0 +1,113 @@
+// Path: features\ar\workers\markerProcessor.ts
+import { Marker, MarkerWithDistance } from '../schemas/markerSchema';
+import { GeodesyMode } from '../utils/geodesy';
+import { MarkerWorkerRequest, MarkerWorkerResponse } from './types';
+
+/**
+ * Posição enviada ao worker para o cálculo dos marcadores
+ */
+export interface MarkerProcessingPosition {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  pinnedIds: string[];
+  mode: GeodesyMode;
+}
+
+/**
+ * Cálculo de distância, direção e ângulo vertical dos marcadores em um
+ * Web Worker, fora da thread da renderização
+ */
+export interface MarkerProcessor {
+  // Envia o conjunto de marcadores ao worker, se mudou desde o último envio
+  setMarkers: (markers: Marker[]) => void;
+  // Enquanto o worker calcula, novas posições substituem a pendente:
+  // apenas a mais recente é processada
+  process: (position: MarkerProcessingPosition) => void;
+  terminate: () => void;
+}
+
+interface MarkerProcessorCallbacks {
+  onResult: (markers: MarkerWithDistance[], duration: number) => void;
+  // O worker falhou e não recebe mais mensagens
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Starts the marker worker; returns null when workers are not supported
+ */
+export function createMarkerProcessor({
+  onResult,
+  onError,
+}: MarkerProcessorCallbacks): MarkerProcessor | null {
+  if (typeof Worker === 'undefined') return null;
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./markerWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+  } catch (error) {
+    console.warn('Could not start marker worker:', error);
+    return null;
+  }
+
+  let datasetId = 0;
+  let currentMarkers: Marker[] | null = null;
+  let requestId = 0;
+  let inFlight: number | null = null;
+  let pending: MarkerProcessingPosition | null = null;
+
+  const post = (request: MarkerWorkerRequest) => worker.postMessage(request);
+
+  const send = (position: MarkerProcessingPosition) => {
+    inFlight = ++requestId;
+    post({ type: 'process', requestId: inFlight, datasetId, ...position });
+  };
+
+  worker.addEventListener(
+    'message',
+    (event: MessageEvent<MarkerWorkerResponse>) => {
+      const response = event.data;
+      if (response.requestId !== inFlight) return;
+      inFlight = null;
+
+      // Resultados de um conjunto substituído durante o cálculo são descartados
+      if (response.type === 'result' && response.datasetId === datasetId) {
+        onResult(response.markers, response.duration);
+      } else if (response.type === 'error') {
+        console.warn('Marker worker error:', response.message);
+      }
+
+      if (pending) {
+        const next = pending;
+        pending = null;
+        send(next);
+      }
+    },
+  );
+
+  worker.addEventListener('error', event => {
+    console.error('Marker worker failed:', event.message);
+    worker.terminate();
+    onError(event);
+  });
+
+  return {
+    setMarkers: markers => {
+      if (markers === currentMarkers) return;
+      currentMarkers = markers;
+      post({ type: 'load', datasetId: ++datasetId, markers });
+    },
+
+    process: position => {
+      if (inFlight !== null) {
+        pending = position;
+        return;
+      }
+      send(position);
+    },
+
+    terminate: () => worker.terminate(),
+  };
+}
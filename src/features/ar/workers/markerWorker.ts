@@ -0,0 +1,71 @@
+// Path: features\ar\workers\markerWorker.ts
+import { Marker } from '../schemas/markerSchema';
+import { processMarkers } from '../utils/arjsUtils';
+import {
+  SpatialIndex,
+  getProcessingCandidates,
+  indexMarkers,
+} from '../utils/spatialIndex';
+import { MarkerWorkerRequest, MarkerWorkerResponse } from './types';
+
+// Conjunto de marcadores atual, mantido entre as posições
+let datasetId = -1;
+let markers: Marker[] = [];
+let index: SpatialIndex | null = null;
+
+const respond = (response: MarkerWorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<MarkerWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'load':
+      datasetId = request.datasetId;
+      markers = request.markers;
+      index = indexMarkers(markers);
+      break;
+
+    case 'process': {
+      // Posições de um conjunto anterior (ou ainda não recebido) são ignoradas
+      if (request.datasetId !== datasetId) {
+        respond({
+          type: 'error',
+          requestId: request.requestId,
+          message: `Dataset ${request.datasetId} not loaded`,
+        });
+        return;
+      }
+
+      try {
+        const start = performance.now();
+        const candidates = getProcessingCandidates(
+          markers,
+          index,
+          request.latitude,
+          request.longitude,
+          request.pinnedIds,
+        );
+        respond({
+          type: 'result',
+          requestId: request.requestId,
+          datasetId,
+          markers: processMarkers(
+            candidates,
+            request.latitude,
+            request.longitude,
+            request.altitude,
+            request.mode,
+          ),
+          duration: performance.now() - start,
+        });
+      } catch (error) {
+        respond({
+          type: 'error',
+          requestId: request.requestId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+    }
+  }
+});
@@ -0,0 +1,43 @@
+// Path: features\ar\workers\types.ts
+import { Marker, MarkerWithDistance } from '../schemas/markerSchema';
+import { GeodesyMode } from '../utils/geodesy';
+
+/**
+ * Mensagens enviadas ao worker de marcadores
+ * - load: novo conjunto de marcadores (substitui o anterior)
+ * - process: distâncias e direções para uma posição do usuário
+ */
+export type MarkerWorkerRequest =
+  | {
+      type: 'load';
+      datasetId: number;
+      markers: Marker[];
+    }
+  | {
+      type: 'process';
+      requestId: number;
+      datasetId: number;
+      latitude: number;
+      longitude: number;
+      altitude: number;
+      // Marcadores processados mesmo fora do raio do índice espacial
+      pinnedIds: string[];
+      mode: GeodesyMode;
+    };
+
+/**
+ * Respostas do worker de marcadores
+ */
+export type MarkerWorkerResponse =
+  | {
+      type: 'result';
+      requestId: number;
+      datasetId: number;
+      markers: MarkerWithDistance[];
+      duration: number; // ms gastos no worker
+    }
+  | {
+      type: 'error';
+      requestId: number;
+      message: string;
+    };
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './serviceWorker';
 import './index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
@@ -9,3 +10,5 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     <App />
   </React.StrictMode>,
 );
+
+registerServiceWorker();
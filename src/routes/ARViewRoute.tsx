@@ -1,8 +1,13 @@
 // Path: routes\ARViewRoute.tsx
-import { Suspense, lazy, useEffect } from 'react';
+import { Suspense, lazy, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import LoadingState from '@/features/ar/components/LoadingState';
 import ErrorBoundary from '@/features/ar/components/ErrorBoundary';
 import { setupARJS } from '@/features/ar/utils/arjsUtils';
+import {
+  getSimulationConfig,
+  isSimulationRequested,
+} from '@/features/ar/utils/simulation';
 
 // Add meta tags for mobile compatibility
 const addMobileMetaTags = () => {
@@ -33,10 +38,24 @@ const addMobileMetaTags = () => {
 // Lazy load the AR.js View component for better initial load performance
 const ARJSView = lazy(() => import('@/features/ar/components/ARJSView'));
 
+interface ARViewRouteProps {
+  // Força o modo de simulação (rota /sim); também ativado por ?sim=1
+  simulation?: boolean;
+}
+
 /**
  * AR View route component with error handling and lazy loading
  */
-const ARViewRoute = () => {
+const ARViewRoute = ({ simulation = false }: ARViewRouteProps) => {
+  const [searchParams] = useSearchParams();
+  const simulationConfig = useMemo(
+    () =>
+      simulation || isSimulationRequested(searchParams)
+        ? getSimulationConfig(searchParams)
+        : null,
+    [simulation, searchParams],
+  );
+
   // Add mobile meta tags and initialize AR.js
   useEffect(() => {
     // Add mobile meta tags first
@@ -53,7 +72,7 @@ const ARViewRoute = () => {
   return (
     <ErrorBoundary>
       <Suspense fallback={<LoadingState message="Loading AR view..." />}>
-        <ARJSView />
+        <ARJSView simulation={simulationConfig} />
       </Suspense>
     </ErrorBoundary>
   );
@@ -0,0 +1,22 @@
+// Path: routes\MapViewRoute.tsx
+import { Suspense, lazy } from 'react';
+import LoadingState from '@/features/ar/components/LoadingState';
+import ErrorBoundary from '@/features/ar/components/ErrorBoundary';
+
+// Lazy load the map view, which does not need A-Frame or AR.js
+const MapView = lazy(() => import('@/features/ar/components/MapView'));
+
+/**
+ * 2D map route component with error handling and lazy loading
+ */
+const MapViewRoute = () => {
+  return (
+    <ErrorBoundary>
+      <Suspense fallback={<LoadingState message="Loading map..." />}>
+        <MapView />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+export default MapViewRoute;
@@ -0,0 +1,35 @@
+// Path: serviceWorker.ts
+
+// Recursos enviados ao service worker para o cache do app shell
+const SHELL_INITIATOR_TYPES = ['script', 'link', 'css', 'img'];
+
+/**
+ * Registers the service worker that keeps the app shell available offline
+ * Only in production builds: in development the Vite server serves
+ * unbundled modules that must not be cached
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const base = import.meta.env.BASE_URL;
+      await navigator.serviceWorker.register(`${base}sw.js`, { scope: base });
+      const registration = await navigator.serviceWorker.ready;
+
+      // Os bundles desta primeira visita foram baixados antes do service
+      // worker controlar a página; envia a lista para que sejam guardados
+      const urls = performance
+        .getEntriesByType('resource')
+        .filter(entry =>
+          SHELL_INITIATOR_TYPES.includes(
+            (entry as PerformanceResourceTiming).initiatorType,
+          ),
+        )
+        .map(entry => entry.name);
+      registration.active?.postMessage({ type: 'cache-urls', urls });
+    } catch (error) {
+      console.warn('Service worker registration failed:', error);
+    }
+  });
+}
@@ -1,4 +1,5 @@
 // Path: vite-env.d.ts
+/// <reference types="vite/client" />
 
 /**
  * Declarações de variáveis de ambiente para o Vite
@@ -6,6 +7,7 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   readonly VITE_ENABLE_DEBUG: string;
+  readonly VITE_SAMPLE_FALLBACK?: string;
 }
 
 interface ImportMeta {
@@ -24,3 +26,11 @@ interface DeviceOrientationEventStatic extends DeviceOrientationEventsupport {
 }
 
 declare var DeviceOrientationEvent: DeviceOrientationEventStatic;
+
+/**
+ * Bússola do iOS (Safari) no evento deviceorientation
+ */
+interface DeviceOrientationEvent {
+  readonly webkitCompassHeading?: number;
+  readonly webkitCompassAccuracy?: number;
+}
@@ -0,0 +1,11 @@
+// vitest.config.ts
+import { defineConfig } from 'vitest/config'
+
+// Os testes cobrem apenas a lógica pura (utils), sem DOM: não carrega os
+// plugins do vite.config.ts
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+})